@@ -0,0 +1,40 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { listCollections } from "@/features/research/server/collections";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/collections
+ * Named collections with their source counts; a name can be passed as
+ * `collection` to research and ingest requests.
+ */
+export async function GET(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  try {
+    const items = await listCollections();
+    return new Response(JSON.stringify({ items }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    logError(log, e, "Failed to list collections");
+    return jsonError(500, "Failed to list collections");
+  }
+}
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
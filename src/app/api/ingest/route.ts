@@ -3,13 +3,14 @@ import "server-only";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 import { loggerWithRequest, logError } from "@/lib/logger";
-import { env } from "@/lib/env";
 import { db } from "@/db";
-import { sources, sourceContent, chunks, ingestQueue } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { ingestQueue } from "@/db/schema";
 import { id as newId } from "@/lib/id";
-import { sanitizeText, splitIntoWindows } from "@/lib/text";
-import { readUrl } from "@/features/research/server/reader";
+import {
+  findSourceByUrl,
+  ingestUrl,
+} from "@/features/research/server/ingest";
+import { addToCollection } from "@/features/research/server/collections";
 
 export const runtime = "nodejs";
 
@@ -17,6 +18,8 @@ const BodySchema = z.object({
   urls: z.array(z.string().url("Invalid URL")).min(1).max(32),
   immediate: z.boolean().optional().default(true),
   priority: z.number().int().min(-10).max(10).optional().default(0),
+  // File the sources under this collection (created on first use)
+  collection: z.string().trim().min(1).max(64).optional(),
 });
 
 type IngestStatus = "ok" | "exists" | "queued" | "error";
@@ -61,7 +64,7 @@ export async function POST(req: NextRequest) {
     const results = await mapLimit(urls, 4, (u) =>
       body.immediate
         ? ingestNow(u, { abortSignal: req.signal })
-        : enqueue(u, body.priority)
+        : enqueue(u, body.priority, body.collection)
     );
 
     const sourceIds = results
@@ -69,6 +72,11 @@ export async function POST(req: NextRequest) {
       .map((r) => r.sourceId!)
       .filter(Boolean);
 
+    // Queued URLs are filed by the worker once ingested
+    if (body.collection && sourceIds.length > 0) {
+      await addToCollection(body.collection, sourceIds);
+    }
+
     return new Response(JSON.stringify({ results, sourceIds }), {
       status: 200,
       headers: {
@@ -93,95 +101,23 @@ async function ingestNow(
   opts: { abortSignal?: AbortSignal }
 ): Promise<IngestResult> {
   try {
-    // Check existing by URL
-    const existing = await db
-      .select()
-      .from(sources)
-      .where(eq(sources.url, url))
-      .limit(1);
-    if (existing.length > 0) {
-      return { url, status: "exists", sourceId: existing[0]!.id };
-    }
-
-    // Read content via Jina reader (fallback to raw in reader implementation)
-    const result = await readUrl(url, {
-      timeoutMs: env.REQUEST_TIMEOUT_MS,
-      signal: opts.abortSignal,
-    });
-
-    const text = sanitizeText(result.text, {
-      normalize: "NFKC",
-      removeControl: true,
-      collapseWhitespace: false,
-      preserveNewlines: true,
-      decodeEntities: true,
-    });
-
-    const sourceId = newId();
-    const domain = tryDomain(url);
-
-    await db
-      .insert(sources)
-      .values({
-        id: sourceId,
-        url,
-        domain,
-        title: result.title ?? null,
-        publishedAt: null,
-        crawledAt: new Date().toISOString(),
-        lang: result.lang ?? null,
-        status: "ok",
-        httpStatus: result.httpStatus ?? null,
-      })
-      .onConflictDoNothing({ target: sources.url })
-      .run();
-
-    await db
-      .insert(sourceContent)
-      .values({ sourceId, text, html: result.html ?? null })
-      .onConflictDoNothing({ target: sourceContent.sourceId })
-      .run();
-
-    // Chunk and store windows
-    const windows = splitIntoWindows(text, {
-      targetTokens: 1000,
-      overlapRatio: 0.15,
-      charsPerToken: 4,
-      respectParagraphs: true,
-    });
-
-    let pos = 0;
-    for (const w of windows) {
-      await db
-        .insert(chunks)
-        .values({
-          id: newId(),
-          sourceId,
-          pos: pos++,
-          charStart: w.charStart,
-          charEnd: w.charEnd,
-          text: w.text,
-          tokens: w.approxTokens,
-        })
-        .run();
-    }
-
-    return { url, status: "ok", sourceId };
+    const res = await ingestUrl(url, { signal: opts.abortSignal });
+    return { url, status: res.status, sourceId: res.sourceId };
   } catch (e: any) {
     return { url, status: "error", message: e?.message ?? "ingest failed" };
   }
 }
 
-async function enqueue(url: string, priority: number): Promise<IngestResult> {
+async function enqueue(
+  url: string,
+  priority: number,
+  collection?: string
+): Promise<IngestResult> {
   try {
     // If already present as a source, short-circuit as exists
-    const existing = await db
-      .select()
-      .from(sources)
-      .where(eq(sources.url, url))
-      .limit(1);
-    if (existing.length > 0) {
-      return { url, status: "exists", sourceId: existing[0]!.id };
+    const existing = await findSourceByUrl(url);
+    if (existing) {
+      return { url, status: "exists", sourceId: existing.sourceId };
     }
 
     // Insert into queue
@@ -193,6 +129,7 @@ async function enqueue(url: string, priority: number): Promise<IngestResult> {
         priority,
         status: "queued",
         attempts: 0,
+        collection: collection ?? null,
       })
       .run();
 
@@ -251,14 +188,6 @@ function canonicalizeUrl(u: string): string | null {
   }
 }
 
-function tryDomain(u: string): string {
-  try {
-    return new URL(u).hostname;
-  } catch {
-    return "unknown";
-  }
-}
-
 function dedupeArray(xs: string[]): string[] {
   const seen = new Set<string>();
   const out: string[] = [];
@@ -0,0 +1,184 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { createHash } from "node:crypto";
+import { NextRequest } from "next/server";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { env } from "@/lib/env";
+import { contentFingerprint, simhash } from "@/lib/fingerprint";
+import {
+  detectDocumentKind,
+  extractDocument,
+} from "@/features/research/server/extract";
+import {
+  findSourceByFingerprint,
+  storeSource,
+} from "@/features/research/server/ingest";
+import { addToCollection } from "@/features/research/server/collections";
+
+export const runtime = "nodejs";
+
+// Uploaded files live under a synthetic host so sources.url stays unique
+const UPLOAD_HOST = "uploads";
+const MAX_FILES = 16;
+// Whole request: every file at its cap plus room for multipart boundaries
+const MAX_BODY_BYTES = MAX_FILES * env.UPLOAD_MAX_BYTES + 64 * 1024;
+
+type UploadStatus = "ok" | "exists" | "error";
+
+type UploadResult = {
+  filename: string;
+  status: UploadStatus;
+  sourceId?: string;
+  kind?: string;
+  pages?: number;
+  chunks?: number;
+  message?: string;
+};
+
+/**
+ * POST /api/ingest/upload
+ * multipart/form-data with one or more `files` (PDF, DOCX, HTML, Markdown, TXT)
+ * and an optional `collection` name to file them under.
+ * Text is extracted locally and chunked like URL ingests; PDF chunks keep
+ * their page range.
+ */
+export async function POST(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  // formData() buffers the whole body, so refuse oversized ones unread
+  const length = Number(req.headers.get("content-length") ?? NaN);
+  if (!Number.isFinite(length)) {
+    return jsonError(411, "Content-Length required");
+  }
+  if (length > MAX_BODY_BYTES) {
+    return jsonError(413, `Upload too large (max ${MAX_BODY_BYTES} bytes)`);
+  }
+
+  let files: File[];
+  let collection: string | null;
+  try {
+    const form = await req.formData();
+    files = form
+      .getAll("files")
+      .filter((f): f is File => typeof f === "object" && f !== null && "arrayBuffer" in f);
+    const c = form.get("collection");
+    collection = typeof c === "string" && c.trim() ? c.trim().slice(0, 64) : null;
+  } catch (e) {
+    logError(log, e, "Invalid multipart body");
+    return jsonError(400, "Expected multipart/form-data with `files`");
+  }
+
+  if (files.length === 0) {
+    return jsonError(400, "No files uploaded (use the `files` field)");
+  }
+  if (files.length > MAX_FILES) {
+    return jsonError(400, `Too many files (max ${MAX_FILES})`);
+  }
+
+  try {
+    // Sequential: extraction is CPU-bound and PDFs can be large
+    const results: UploadResult[] = [];
+    for (const f of files) {
+      results.push(await ingestFile(f));
+    }
+
+    const sourceIds = results
+      .filter((r) => r.status === "ok" || r.status === "exists")
+      .map((r) => r.sourceId!)
+      .filter(Boolean);
+
+    if (collection && sourceIds.length > 0) {
+      await addToCollection(collection, sourceIds);
+    }
+
+    return new Response(JSON.stringify({ results, sourceIds }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    logError(log, e, "Upload ingest failed");
+    return jsonError(500, "Upload ingest failed");
+  }
+}
+
+/* --------------------------------- Helpers -------------------------------- */
+
+async function ingestFile(file: File): Promise<UploadResult> {
+  const filename = file.name || "upload";
+  try {
+    if (!detectDocumentKind(filename, file.type)) {
+      return {
+        filename,
+        status: "error",
+        message: "Unsupported file type (PDF, DOCX, HTML, Markdown, TXT)",
+      };
+    }
+    if (file.size > env.UPLOAD_MAX_BYTES) {
+      return {
+        filename,
+        status: "error",
+        message: `File too large (max ${env.UPLOAD_MAX_BYTES} bytes)`,
+      };
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const digest = createHash("sha256").update(bytes).digest("hex");
+
+    const doc = await extractDocument({
+      bytes,
+      filename,
+      contentType: file.type,
+    });
+    if (!doc.text.trim()) {
+      return {
+        filename,
+        status: "error",
+        kind: doc.kind,
+        message: "No extractable text (scanned PDF?)",
+      };
+    }
+
+    // Same text already ingested, uploaded under any name or read from a
+    // URL: fingerprinted like URL ingests (storeSource), not by raw bytes
+    const fingerprint = simhash(doc.text) ? contentFingerprint(doc.text) : null;
+    const existing = fingerprint ? await findSourceByFingerprint(fingerprint) : null;
+    if (existing) {
+      return { filename, status: "exists", sourceId: existing.sourceId };
+    }
+
+    const stored = await storeSource({
+      url: `upload://${UPLOAD_HOST}/${digest}/${encodeURIComponent(filename)}`,
+      domain: UPLOAD_HOST,
+      title: doc.title,
+      lang: doc.lang,
+      publishedAt: doc.publishedAt,
+      text: doc.text,
+      pages: doc.pages,
+    });
+
+    return {
+      filename,
+      status: stored.status,
+      sourceId: stored.sourceId,
+      kind: doc.kind,
+      pages: doc.pages.length || undefined,
+      chunks: stored.chunks,
+    };
+  } catch (e: any) {
+    return { filename, status: "error", message: e?.message ?? "ingest failed" };
+  }
+}
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,127 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { hasJobsSecret } from "@/lib/auth";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { runIngestWorker } from "@/features/research/server/ingest-queue";
+
+export const runtime = "nodejs";
+
+/* -------------------------------- Schemas --------------------------------- */
+
+const QuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? Math.max(1, Math.min(50, Math.trunc(n))) : 10;
+    }),
+  concurrency: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? Math.max(1, Math.min(8, Math.trunc(n))) : 4;
+    }),
+  reviveStaleSec: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const n = Number(v);
+      return Number.isFinite(n)
+        ? Math.max(60, Math.min(3600, Math.trunc(n)))
+        : 300;
+    }),
+  dryRun: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const s = (v ?? "").toLowerCase();
+      return s === "1" || s === "true" || s === "yes";
+    }),
+});
+
+/* -------------------------------- Handlers -------------------------------- */
+
+/**
+ * GET|POST /api/jobs/ingest
+ * Runs one ingest-queue worker pass; point a cron at it (or use
+ * src/scripts/ingest-worker.ts). Requires `Authorization: Bearer $JOBS_SECRET`
+ * when JOBS_SECRET is set.
+ */
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+async function handle(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  if (!hasJobsSecret(req)) {
+    return jsonError(401, "Unauthorized");
+  }
+
+  const url = new URL(req.url);
+  const qs = QuerySchema.safeParse({
+    limit: url.searchParams.get("limit") ?? undefined,
+    concurrency: url.searchParams.get("concurrency") ?? undefined,
+    reviveStaleSec: url.searchParams.get("reviveStaleSec") ?? undefined,
+    dryRun: url.searchParams.get("dryRun") ?? undefined,
+  });
+  if (!qs.success) {
+    return jsonError(400, "Invalid query params", qs.error.flatten());
+  }
+
+  try {
+    const body = await runIngestWorker({
+      limit: qs.data.limit,
+      concurrency: qs.data.concurrency,
+      reviveStaleSec: qs.data.reviveStaleSec,
+      dryRun: qs.data.dryRun,
+      signal: req.signal,
+    });
+
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    if (isAbortError(e)) return new Response(null, { status: 499 });
+    logError(log, e, "Ingest job failed");
+    return jsonError(500, "Ingest job failed");
+  }
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+function isAbortError(err: unknown) {
+  return (
+    (err instanceof DOMException && err.name === "AbortError") ||
+    (typeof err === "object" &&
+      err !== null &&
+      ("name" in err || "message" in err) &&
+      ((err as any).name === "AbortError" ||
+        String((err as any).message || "")
+          .toLowerCase()
+          .includes("abort")))
+  );
+}
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,61 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import {
+  PlanReviewDecisionSchema,
+  type PlanReviewDecision,
+} from "@/features/research/types";
+import { submitPlanReview } from "@/features/research/server/plan-review";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/research/plan
+ * Resume (or stop) a run started with `reviewPlan: true`. Body: the reviewId
+ * from its `plan` SSE event plus optional edited subqueries/constraints; the
+ * run continues on the original stream.
+ * 404 when no run is waiting under that id (finished, timed out, or served by
+ * another instance).
+ */
+export async function POST(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  let decision: PlanReviewDecision;
+  try {
+    const parsed = PlanReviewDecisionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonError(400, "Invalid request body", parsed.error.flatten());
+    }
+    decision = parsed.data;
+  } catch (e) {
+    logError(log, e, "Invalid JSON body");
+    return jsonError(400, "Invalid JSON body");
+  }
+
+  if (!submitPlanReview(decision)) {
+    return jsonError(404, "No run is waiting for this plan review");
+  }
+
+  log.info(
+    { reviewId: decision.reviewId, action: decision.action },
+    "plan review submitted"
+  );
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
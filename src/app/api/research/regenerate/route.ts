@@ -0,0 +1,129 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { NextRequest } from "next/server";
+import { createSSEStream, sseResponse } from "@/lib/sse";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import {
+  RegenerateRequestSchema,
+  type RegenerateRequest,
+} from "@/features/research/types";
+import {
+  loadMessageContext,
+  regenerateAnswer,
+} from "@/features/research/server/regenerate";
+import {
+  UsageMeter,
+  meteredEmit,
+  persistUsage,
+  visitorIdFrom,
+  withUsage,
+} from "@/features/research/server/usage";
+import { dbHealthCheck } from "@/db/health";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/research/regenerate
+ * Body: RegenerateRequest. Streams the same events as /api/research, starting
+ * at the answer stage; `done` carries the new answer version's messageId.
+ */
+export async function POST(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  let payload: RegenerateRequest;
+  try {
+    const parsed = RegenerateRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonError(400, "Invalid RegenerateRequest", parsed.error.flatten());
+    }
+    payload = parsed.data;
+  } catch (e: any) {
+    logError(log, e, "Invalid JSON body");
+    return jsonError(400, "Invalid JSON body");
+  }
+
+  try {
+    await dbHealthCheck();
+  } catch (e: any) {
+    logError(log, e, "DB health check failed");
+    return jsonError(503, "Database unavailable. Please retry shortly.");
+  }
+
+  // Unknown message, or one answered before contexts were stored
+  const context = await loadMessageContext(payload.messageId);
+  if (!context) {
+    return jsonError(404, "No stored context for this message");
+  }
+
+  const sse = createSSEStream({
+    heartbeatMs: 20_000,
+    signal: req.signal,
+  });
+
+  const ac = new AbortController();
+  const onReqAbort = () =>
+    ac.abort(req.signal.reason ?? new DOMException("Aborted", "AbortError"));
+  if (req.signal.aborted) onReqAbort();
+  else req.signal.addEventListener("abort", onReqAbort, { once: true });
+
+  const emit = (evt: { event: string; data: any }) => {
+    try {
+      sse.send(evt.data, { event: evt.event });
+    } catch {
+      // Ignore send errors if stream already closed
+    }
+  };
+
+  const meter = new UsageMeter("answer");
+  const run = async () => {
+    try {
+      await withUsage(meter, () =>
+        regenerateAnswer(payload, {
+          context,
+          signal: ac.signal,
+          emit: meteredEmit(meter, emit),
+        })
+      );
+      sse.close();
+    } catch (err: any) {
+      if (isAbort(err)) return;
+      logError(log, err, "regenerate failed", { messageId: payload.messageId });
+      emit({
+        event: "error",
+        data: { message: String(err?.message ?? "Internal error") },
+      });
+      sse.close(err);
+    } finally {
+      await persistUsage(meter, {
+        threadId: context.threadId,
+        visitorId: visitorIdFrom(req.headers),
+        depth: context.depth,
+      });
+    }
+  };
+
+  return sseResponse(sse.stream, run);
+}
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isAbort(err: unknown) {
+  return (
+    (err instanceof DOMException && err.name === "AbortError") ||
+    (typeof err === "object" &&
+      err !== null &&
+      ((err as any).name === "AbortError" ||
+        String((err as any).message || "").toLowerCase().includes("abort")))
+  );
+}
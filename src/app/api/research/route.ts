@@ -1,17 +1,28 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import "server-only";
 import { NextRequest } from "next/server";
-import { createSSEStream, sseResponse } from "@/lib/sse";
 import { loggerWithRequest, logError } from "@/lib/logger";
 import {
   ResearchRequestSchema,
   type ResearchRequest,
 } from "@/features/research/types";
-import { deepResearch } from "@/features/research/server/deepresearch";
+import {
+  runEventsResponse,
+  startRun,
+} from "@/features/research/server/runs";
+import { visitorIdFrom } from "@/features/research/server/usage";
 import { dbHealthCheck } from "@/db/health";
+import { db } from "@/db";
+import { threads } from "@/db/schema";
+import { eq } from "drizzle-orm";
 
 export const runtime = "nodejs";
 
+/**
+ * POST /api/research
+ * Body: ResearchRequest. Starts a detached run and streams its events; the
+ * leading `run` event carries the run id.
+ */
 export async function POST(req: NextRequest) {
   const log = loggerWithRequest({
     headers: req.headers,
@@ -55,79 +66,38 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // SSE stream + orchestration
-  const sse = createSSEStream({
-    heartbeatMs: 20_000,
-    signal: req.signal, // close if client disconnects
-  });
-
-  const ac = new AbortController();
-  const onReqAbort = () =>
-    ac.abort(req.signal.reason ?? new DOMException("Aborted", "AbortError"));
-  if (req.signal.aborted) onReqAbort();
-  else req.signal.addEventListener("abort", onReqAbort, { once: true });
-
-  const emit = (evt: { event: string; data: any }) => {
-    try {
-      sse.send(evt.data, { event: evt.event });
-    } catch {
-      // Ignore send errors if stream already closed
-    }
-  };
-
-  const run = async () => {
-    try {
-      await deepResearch(payload, {
-        signal: ac.signal,
-        emit: (e) => {
-          // forward events to SSE
-          switch (e.event) {
-            case "progress":
-            case "token":
-            case "sources":
-            case "claims":
-            case "done":
-            case "error":
-            case "answer": // forward full-answer event for non-streaming consumers
-              emit(e as any);
-              break;
-            default:
-              // unknown/future event types
-              emit({
-                event: "progress",
-                data: { stage: "read", message: "..." },
-              });
-          }
-        },
+  // Follow-up preflight: unknown thread is a client error, not a stream error
+  if (payload.threadId) {
+    const found = await db
+      .select({ id: threads.id })
+      .from(threads)
+      .where(eq(threads.id, payload.threadId))
+      .limit(1);
+    if (found.length === 0) {
+      return new Response(JSON.stringify({ error: "Thread not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
       });
-      // deepResearch emits 'done'. Close stream if still open.
-      sse.close();
-    } catch (err: any) {
-      if (isAbort(err)) {
-        // Silent on abort; stream will be closed by signal
-      } else {
-        logError(log, err, "deepResearch failed");
-        emit({
-          event: "error",
-          data: { message: String(err?.message ?? "Internal error") },
-        });
-        sse.close(err);
-      }
     }
-  };
-
-  return sseResponse(sse.stream, run);
-}
+  }
 
-/* --------------------------------- Helpers -------------------------------- */
+  // The run is detached: closing this stream leaves it running, and
+  // GET /api/runs/:id/events reattaches (Last-Event-ID = last seq seen)
+  let runId: string;
+  try {
+    runId = await startRun(payload, { visitorId: visitorIdFrom(req.headers) });
+  } catch (e: any) {
+    logError(log, e, "Failed to start run");
+    return new Response(JSON.stringify({ error: "Failed to start run" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  log.info({ runId }, "run started");
 
-function isAbort(err: unknown) {
-  return (
-    (err instanceof DOMException && err.name === "AbortError") ||
-    (typeof err === "object" &&
-      err !== null &&
-      ("name" in err || "message" in err) &&
-      ((err as any).name === "AbortError" ||
-        String((err as any).message || "").toLowerCase().includes("abort")))
+  return runEventsResponse(
+    { id: runId, status: "running", threadId: payload.threadId ?? null },
+    0,
+    req.signal
   );
-}
\ No newline at end of file
+}
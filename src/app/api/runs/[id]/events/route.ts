@@ -0,0 +1,66 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { getRun, runEventsResponse } from "@/features/research/server/runs";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+// Last event seq the client has; 0 (or omitted) replays from the start
+const AfterSchema = z.coerce.number().int().nonnegative().default(0);
+
+/**
+ * GET /api/runs/:id/events
+ * Reattach to a research run: replays the events after `Last-Event-ID`
+ * (header, or `lastEventId` query param for clients that cannot set it), then
+ * follows the run live until it ends.
+ */
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  const p = ParamsSchema.safeParse(await ctx.params);
+  if (!p.success) {
+    return jsonError(400, "Invalid id", p.error.flatten());
+  }
+
+  const url = new URL(req.url);
+  const after = AfterSchema.safeParse(
+    req.headers.get("last-event-id") ??
+      url.searchParams.get("lastEventId") ??
+      undefined
+  );
+  if (!after.success) {
+    return jsonError(400, "Invalid Last-Event-ID", after.error.flatten());
+  }
+
+  try {
+    const run = await getRun(p.data.id);
+    if (!run) {
+      return jsonError(404, "Run not found");
+    }
+    return runEventsResponse(run, after.data, req.signal);
+  } catch (e) {
+    logError(log, e, "Failed to attach to run", { runId: p.data.id });
+    return jsonError(500, "Failed to attach to run");
+  }
+}
+
+/* -------------------------------- Helpers --------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
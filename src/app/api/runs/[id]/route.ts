@@ -0,0 +1,99 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { cancelRun, getRun } from "@/features/research/server/runs";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+/**
+ * GET /api/runs/:id
+ * Returns { id, status, threadId } of a research run.
+ */
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  const p = ParamsSchema.safeParse(await ctx.params);
+  if (!p.success) {
+    return jsonError(400, "Invalid id", p.error.flatten());
+  }
+
+  try {
+    const run = await getRun(p.data.id);
+    if (!run) {
+      return jsonError(404, "Run not found");
+    }
+    return new Response(JSON.stringify(run), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    logError(log, e, "Failed to load run", { runId: p.data.id });
+    return jsonError(500, "Failed to load run");
+  }
+}
+
+/**
+ * DELETE /api/runs/:id
+ * Cancels a running research run. Attached clients receive an `error` event
+ * and the stream ends. 409 once the run has finished.
+ */
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  const p = ParamsSchema.safeParse(await ctx.params);
+  if (!p.success) {
+    return jsonError(400, "Invalid id", p.error.flatten());
+  }
+
+  try {
+    if (cancelRun(p.data.id)) {
+      return new Response(JSON.stringify({ ok: true }), {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const run = await getRun(p.data.id);
+    if (!run) {
+      return jsonError(404, "Run not found");
+    }
+    // "running" here means another (or a restarted) process owns it
+    return jsonError(
+      409,
+      run.status === "running" ? "Run is not live on this server" : `Run is ${run.status}`
+    );
+  } catch (e) {
+    logError(log, e, "Failed to cancel run", { runId: p.data.id });
+    return jsonError(500, "Failed to cancel run");
+  }
+}
+
+/* -------------------------------- Helpers --------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -142,6 +142,8 @@ export async function GET(req: NextRequest, ctx: { params: { id: string } }) {
           pos: chunks.pos,
           charStart: chunks.charStart,
           charEnd: chunks.charEnd,
+          pageStart: chunks.pageStart,
+          pageEnd: chunks.pageEnd,
           text: chunks.text,
           tokens: chunks.tokens,
         })
@@ -0,0 +1,68 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { listThreadSources } from "@/features/research/server/threads";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+const QuerySchema = z.object({
+  messageId: z.string().min(1).optional(), // limit to one turn
+});
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  // Validate route params
+  const p = ParamsSchema.safeParse(await ctx.params);
+  if (!p.success) {
+    return jsonError(400, "Invalid id", p.error.flatten());
+  }
+
+  const url = new URL(req.url);
+  const q = QuerySchema.safeParse({
+    messageId: url.searchParams.get("messageId") ?? undefined,
+  });
+  if (!q.success) {
+    return jsonError(400, "Invalid query params", q.error.flatten());
+  }
+
+  try {
+    const sources = await listThreadSources(p.data.id, {
+      messageId: q.data.messageId,
+    });
+    if (!sources) {
+      return jsonError(404, "Thread not found");
+    }
+    return new Response(JSON.stringify(sources), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    logError(log, e, "Failed to load thread sources");
+    return jsonError(500, "Failed to load thread sources");
+  }
+}
+
+/* -------------------------------- Helpers --------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,111 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { VerifyMessageRequestSchema } from "@/features/research/types";
+import {
+  DeferredVerifyError,
+  verifyStoredMessage,
+} from "@/features/research/server/deferred-verify";
+import {
+  UsageMeter,
+  persistUsage,
+  visitorIdFrom,
+  withUsage,
+} from "@/features/research/server/usage";
+import { dbHealthCheck } from "@/db/health";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+/**
+ * POST /api/threads/:id/verify
+ * Body: { messageId }. Verifies an answer whose run skipped verification,
+ * from the snippets stored with it, and persists the claims. Returns the
+ * verified claims plus the number of verify calls it took.
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  const p = ParamsSchema.safeParse(await ctx.params);
+  if (!p.success) {
+    return jsonError(400, "Invalid id", p.error.flatten());
+  }
+
+  let messageId: string;
+  try {
+    const parsed = VerifyMessageRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonError(400, "Invalid request body", parsed.error.flatten());
+    }
+    messageId = parsed.data.messageId;
+  } catch (e: any) {
+    logError(log, e, "Invalid JSON body");
+    return jsonError(400, "Invalid JSON body");
+  }
+
+  try {
+    await dbHealthCheck();
+  } catch (e: any) {
+    logError(log, e, "DB health check failed");
+    return jsonError(503, "Database unavailable. Please retry shortly.");
+  }
+
+  const meter = new UsageMeter("verify");
+  try {
+    const result = await withUsage(meter, () =>
+      verifyStoredMessage(p.data.id, messageId, { signal: req.signal })
+    );
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    if (e instanceof DeferredVerifyError) {
+      return jsonError(e.status, e.message);
+    }
+    if (isAbort(e)) {
+      return new Response(null, { status: 499 }); // Client Closed Request
+    }
+    logError(log, e, "Deferred verify failed", { messageId });
+    return jsonError(500, "Verification failed");
+  } finally {
+    await persistUsage(meter, {
+      threadId: p.data.id,
+      visitorId: visitorIdFrom(req.headers),
+    });
+  }
+}
+
+/* -------------------------------- Helpers --------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isAbort(err: unknown) {
+  return (
+    (err instanceof DOMException && err.name === "AbortError") ||
+    (typeof err === "object" &&
+      err !== null &&
+      ((err as any).name === "AbortError" ||
+        String((err as any).message || "").toLowerCase().includes("abort")))
+  );
+}
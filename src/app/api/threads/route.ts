@@ -0,0 +1,93 @@
+import "server-only";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { listThreads } from "@/features/research/server/threads";
+
+export const runtime = "nodejs";
+
+const QuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  from: z
+    .string()
+    .optional()
+    .transform((v) => parseDate(v, "start")),
+  to: z
+    .string()
+    .optional()
+    .transform((v) => parseDate(v, "end")),
+  limit: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? Math.min(100, Math.max(1, Math.trunc(n))) : 20;
+    }),
+  offset: z
+    .string()
+    .optional()
+    .transform((v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? Math.max(0, Math.trunc(n)) : 0;
+    }),
+});
+
+export async function GET(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  const url = new URL(req.url);
+  const q = QuerySchema.safeParse({
+    q: url.searchParams.get("q") ?? undefined,
+    from: url.searchParams.get("from") ?? undefined, // ISO date or datetime
+    to: url.searchParams.get("to") ?? undefined,
+    limit: url.searchParams.get("limit") ?? undefined, // default 20
+    offset: url.searchParams.get("offset") ?? undefined,
+  });
+  if (!q.success) {
+    return jsonError(400, "Invalid query params", q.error.flatten());
+  }
+
+  try {
+    const page = await listThreads({
+      q: q.data.q || undefined,
+      from: q.data.from,
+      to: q.data.to,
+      limit: q.data.limit,
+      offset: q.data.offset,
+    });
+    return new Response(JSON.stringify(page), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    logError(log, e, "Failed to list threads");
+    return jsonError(500, "Failed to list threads");
+  }
+}
+
+/* -------------------------------- Helpers --------------------------------- */
+
+// Date-only values cover the whole day (UTC); invalid input is ignored
+function parseDate(v: string | undefined, edge: "start" | "end") {
+  const s = v?.trim();
+  if (!s) return undefined;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(s);
+  const d = new Date(
+    dateOnly ? `${s}T${edge === "start" ? "00:00:00.000" : "23:59:59.999"}Z` : s
+  );
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { NextRequest } from "next/server";
+import { hasJobsSecret } from "@/lib/auth";
+import { loggerWithRequest, logError } from "@/lib/logger";
+import { UsageQuerySchema } from "@/features/research/types";
+import { aggregateUsage } from "@/features/research/server/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/usage?groupBy=day|visitor|depth|stage|provider|model
+ *   &from=YYYY-MM-DD&to=YYYY-MM-DD&visitorId=...&threadId=...
+ * Aggregated API usage and estimated cost from the usage ledger. Requires
+ * `Authorization: Bearer $JOBS_SECRET` when JOBS_SECRET is set.
+ */
+export async function GET(req: NextRequest) {
+  const log = loggerWithRequest({
+    headers: req.headers,
+    method: req.method,
+    url: req.url,
+  });
+
+  if (!hasJobsSecret(req)) {
+    return jsonError(401, "Unauthorized");
+  }
+
+  const url = new URL(req.url);
+  const qs = UsageQuerySchema.safeParse({
+    groupBy: url.searchParams.get("groupBy") ?? undefined,
+    from: url.searchParams.get("from") ?? undefined,
+    to: url.searchParams.get("to") ?? undefined,
+    visitorId: url.searchParams.get("visitorId") ?? undefined,
+    threadId: url.searchParams.get("threadId") ?? undefined,
+  });
+  if (!qs.success) {
+    return jsonError(400, "Invalid query params", qs.error.flatten());
+  }
+
+  try {
+    const report = await aggregateUsage(qs.data);
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    logError(log, e, "Usage report failed", qs.data);
+    return jsonError(500, "Usage report failed");
+  }
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+function jsonError(status: number, message: string, details?: unknown) {
+  return new Response(JSON.stringify({ error: message, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
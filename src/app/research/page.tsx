@@ -4,6 +4,7 @@ import { ResearchForm } from "@/components/ResearchForm";
 import { ProgressBar } from "@/components/ProgressBar";
 import { ChatStream } from "@/components/ChatStream";
 import { EvidencePanel } from "@/components/EvidencePanel";
+import { ThreadHistory } from "@/components/ThreadHistory";
 
 import {
   Card,
@@ -47,6 +48,9 @@ export default function ResearchPage() {
           <h1 id="research-title" className="text-2xl font-semibold tracking-tight md:text-3xl">
             Evidence-First Research
           </h1>
+          <div className="ml-auto">
+            <ThreadHistory />
+          </div>
         </div>
         <p className="mt-2 text-sm text-muted-foreground">
           Deep research with verifiable evidence and citations.
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { RegenerateAnswer } from "@/components/RegenerateAnswer";
 
 import {
   Loader2,
@@ -32,6 +33,7 @@ function stageBadgeVariant(
     case "search":
     case "read":
     case "rank":
+    case "gaps":
       return "secondary";
     case "answer":
     case "verify":
@@ -51,6 +53,7 @@ const STAGE_LABEL: Record<string, string> = {
   search: "Search",
   read: "Read",
   rank: "Rank",
+  gaps: "Gaps",
   answer: "Answer",
   verify: "Verify",
   done: "Done",
@@ -237,6 +240,7 @@ export function ChatStream() {
     stage === "search" ||
     stage === "read" ||
     stage === "rank" ||
+    stage === "gaps" ||
     stage === "answer" ||
     stage === "verify";
 
@@ -297,6 +301,7 @@ export function ChatStream() {
           </Button>
         </div>
       </div>
+      <RegenerateAnswer />
       <Separator />
       <div
         ref={containerRef}
@@ -123,6 +123,14 @@ function ClaimHeader({
               </span>
             </>
           )}
+          {claim.origins != null && claim.origins > 0 && (
+            <span
+              className="text-xs text-muted-foreground"
+              title="Distinct original reports behind the evidence (syndicated copies count once)"
+            >
+              {claim.origins} {claim.origins === 1 ? "origin" : "origins"}
+            </span>
+          )}
           {claim.contradicted && <Badge variant="destructive">Contradicted</Badge>}
           {claim.claimType && (
             <Badge variant="secondary" className="capitalize">
@@ -1,15 +1,27 @@
 "use client";
 
-import { useResearchStore } from "@/features/research/client/store";
+import { useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  useResearchStore,
+  useResearchStage,
+} from "@/features/research/client/store";
+import {
+  qk,
+  useThreadSources,
+  useVerifyMessageMutation,
+} from "@/features/research/client/queries";
 import type { VerifyClaimsResponse } from "@/features/research/types";
 
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 
 // Reuse the polished lists from earlier steps
 import { ClaimList } from "@/components/ClaimList";
 import { SourceList } from "@/components/SourceList";
+import { Loader2, ShieldCheck } from "lucide-react";
 
 export function EvidencePanel() {
   // Select slices individually to avoid extra renders
@@ -17,8 +29,67 @@ export function EvidencePanel() {
   const claimsResp = useResearchStore((s) => s.claims) as VerifyClaimsResponse | null;
   const showConfidence = useResearchStore((s) => s.ui.showConfidence);
   const setShowConfidence = useResearchStore((s) => s.setShowConfidence);
+  const selectedSourceId = useResearchStore((s) => s.ui.selectedSourceId);
+  const selectSource = useResearchStore((s) => s.selectSource);
+  const setSources = useResearchStore((s) => s.setSources);
+  const threadId = useResearchStore((s) => s.threadId);
+  const messageId = useResearchStore((s) => s.messageId);
+  const setClaims = useResearchStore((s) => s.setClaims);
+  const stage = useResearchStage();
 
-  const totalSources = sources.length;
+  // Persisted sources for the thread; only fetched when no stream is running
+  const isLive = ["plan", "search", "read", "rank", "gaps", "answer", "verify"].includes(
+    stage
+  );
+  const queryClient = useQueryClient();
+  const threadSources = useThreadSources(threadId, {
+    enabled: !!threadId && !isLive,
+  });
+
+  // A finished run (or follow-up) changes the thread's sources
+  useEffect(() => {
+    if (stage === "done" && threadId) {
+      queryClient.invalidateQueries({ queryKey: qk.threadSources(threadId) });
+    }
+  }, [stage, threadId, queryClient]);
+
+  // Runs that skipped verify (token budget) can verify their stored snippets now
+  const verifyNow = useVerifyMessageMutation({
+    onSuccess: (data) => {
+      setClaims(data);
+      if (threadId) {
+        queryClient.invalidateQueries({ queryKey: ["thread", threadId] });
+      }
+    },
+  });
+  const canVerifyLater =
+    !isLive && !!claimsResp?.skipped && !!threadId && !!messageId;
+
+  // No refs in the store (e.g. thread known but not streamed here): rehydrate
+  // so citations and claims resolve their [n] too
+  useEffect(() => {
+    if (isLive || sources.length > 0) return;
+    if (threadSources.data?.length) setSources(threadSources.data);
+  }, [isLive, sources.length, threadSources.data, setSources]);
+
+  // Store refs keep their [n] index; persisted stats are merged in
+  const displaySources = useMemo(() => {
+    const persisted = threadSources.data ?? [];
+    const statsById = new Map(persisted.map((p) => [p.id, p]));
+    return sources.map((s) => {
+      const p = statsById.get(s.id);
+      return p
+        ? {
+            ...s,
+            chunkCount: p.chunkCount,
+            claimCount: p.claimCount,
+            citationCount: p.citationCount,
+          }
+        : s;
+    });
+  }, [sources, threadSources.data]);
+
+  const totalSources = displaySources.length;
   const totalClaims = claimsResp?.claims?.length ?? 0;
 
   return (
@@ -31,6 +102,33 @@ export function EvidencePanel() {
           <Badge variant="secondary">{totalSources} sources</Badge>
           <Badge variant="secondary">{totalClaims} claims</Badge>
         </div>
+        {canVerifyLater ? (
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              disabled={verifyNow.isPending}
+              onClick={() => verifyNow.mutate({ threadId: threadId!, messageId: messageId! })}
+              title={
+                claimsResp?.skipped === "rate_limit"
+                  ? "Verification was skipped after a rate limit"
+                  : "Verification was skipped: too much context for one check"
+              }
+            >
+              {verifyNow.isPending ? (
+                <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <ShieldCheck className="mr-1 h-3.5 w-3.5" />
+              )}
+              Verify now
+            </Button>
+            {verifyNow.error ? (
+              <span className="text-xs text-destructive">{verifyNow.error.message}</span>
+            ) : null}
+          </div>
+        ) : null}
 
         <div className="ml-auto flex items-center gap-3">
           <div className="flex items-center gap-2">
@@ -49,6 +147,9 @@ export function EvidencePanel() {
         {/* Left: sources */}
         <div className="col-span-12 lg:col-span-5">
           <SourceList
+            sources={displaySources}
+            selectedId={selectedSourceId}
+            onSelect={selectSource}
             showToolbar
             placeholder="Filter by title or domain"
             // Keep the independent column scroll like before
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+
+import type { PlanReviewEvent } from "@/features/research/types";
+import { useResearchStore } from "@/features/research/client/store";
+import { usePlanReviewMutation } from "@/features/research/client/queries";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Check, Loader2, Plus, Trash2, X } from "lucide-react";
+
+const MAX_SUBQUERIES = 12;
+
+/**
+ * Shown while a run is paused after planning (request sent with reviewPlan).
+ * Lets the user edit the subqueries and constraints, then approve or cancel.
+ */
+export function PlanReview() {
+  const plan = useResearchStore((s) => s.pendingPlan);
+  if (!plan) return null;
+  // Keyed so a new plan (next run) resets the draft
+  return <PlanReviewEditor key={plan.reviewId} plan={plan} />;
+}
+
+function PlanReviewEditor({ plan }: { plan: PlanReviewEvent }) {
+  const setPendingPlan = useResearchStore((s) => s.setPendingPlan);
+  const [subqueries, setSubqueries] = useState<string[]>(plan.subqueries);
+  const [region, setRegion] = useState(plan.constraints.region ?? "");
+  const [fromDate, setFromDate] = useState(toDateInput(plan.constraints.timeRange?.from));
+  const [toDate, setToDate] = useState(toDateInput(plan.constraints.timeRange?.to));
+  const [allowCsv, setAllowCsv] = useState((plan.constraints.allowedDomains ?? []).join(", "));
+  const [denyCsv, setDenyCsv] = useState((plan.constraints.disallowedDomains ?? []).join(", "));
+
+  const review = usePlanReviewMutation({
+    onSuccess: () => setPendingPlan(null),
+    onError: (e) => {
+      // 404: the run stopped waiting (timed out or finished); nothing to resume
+      if (e.status === 404) setPendingPlan(null);
+    },
+  });
+
+  const cleaned = subqueries.map((q) => q.trim()).filter(Boolean);
+  const canApprove = cleaned.length > 0 && !review.isPending;
+
+  const approve = () => {
+    const allowedDomains = splitCsv(allowCsv);
+    const disallowedDomains = splitCsv(denyCsv);
+    review.mutate({
+      reviewId: plan.reviewId,
+      action: "approve",
+      subqueries: cleaned.slice(0, MAX_SUBQUERIES),
+      constraints: {
+        region: region.trim() || null,
+        timeRange: fromDate || toDate ? { from: fromDate || undefined, to: toDate || undefined } : null,
+        allowedDomains: allowedDomains.length ? allowedDomains : null,
+        disallowedDomains: disallowedDomains.length ? disallowedDomains : null,
+      },
+    });
+  };
+
+  const cancel = () => review.mutate({ reviewId: plan.reviewId, action: "cancel" });
+
+  const update = (i: number, value: string) =>
+    setSubqueries((qs) => qs.map((q, j) => (j === i ? value : q)));
+  const remove = (i: number) => setSubqueries((qs) => qs.filter((_, j) => j !== i));
+  const add = () => setSubqueries((qs) => (qs.length < MAX_SUBQUERIES ? [...qs, ""] : qs));
+
+  return (
+    <section
+      className="space-y-3 rounded-md border border-primary/40 bg-primary/5 p-3"
+      aria-label="Review research plan"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-medium">Review the plan before searching</h3>
+        <Badge variant="outline" className="text-[10px]">
+          Expires {new Date(plan.expiresAt).toLocaleTimeString()}
+        </Badge>
+      </div>
+      {plan.intent ? (
+        <p className="text-xs text-muted-foreground">{plan.intent}</p>
+      ) : null}
+
+      {/* Subqueries */}
+      <div className="space-y-2">
+        <Label className="text-xs">Subqueries</Label>
+        {subqueries.map((q, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input
+              value={q}
+              maxLength={300}
+              onChange={(e) => update(i, e.target.value)}
+              aria-label={`Subquery ${i + 1}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(i)}
+              disabled={subqueries.length <= 1}
+              title="Remove subquery"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="px-2"
+          onClick={add}
+          disabled={subqueries.length >= MAX_SUBQUERIES}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add subquery
+        </Button>
+      </div>
+
+      {/* Constraints */}
+      <div className="grid grid-cols-12 gap-2">
+        <div className="col-span-12 space-y-1 md:col-span-4">
+          <Label htmlFor="plan-region" className="text-xs">Region</Label>
+          <Input id="plan-region" value={region} onChange={(e) => setRegion(e.target.value)} />
+        </div>
+        <div className="col-span-6 space-y-1 md:col-span-4">
+          <Label htmlFor="plan-from" className="text-xs">From date</Label>
+          <Input id="plan-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </div>
+        <div className="col-span-6 space-y-1 md:col-span-4">
+          <Label htmlFor="plan-to" className="text-xs">To date</Label>
+          <Input id="plan-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+        <div className="col-span-12 space-y-1 md:col-span-6">
+          <Label htmlFor="plan-allow" className="text-xs">Allow domains</Label>
+          <Input
+            id="plan-allow"
+            placeholder="example.com, docs.example.org"
+            value={allowCsv}
+            onChange={(e) => setAllowCsv(e.target.value)}
+          />
+        </div>
+        <div className="col-span-12 space-y-1 md:col-span-6">
+          <Label htmlFor="plan-deny" className="text-xs">Deny domains</Label>
+          <Input
+            id="plan-deny"
+            placeholder="twitter.com, reddit.com"
+            value={denyCsv}
+            onChange={(e) => setDenyCsv(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {review.error ? (
+        <p className="text-xs text-destructive">{review.error.message}</p>
+      ) : null}
+
+      {/* Actions */}
+      <div className="flex items-center gap-2">
+        <Button type="button" size="sm" onClick={approve} disabled={!canApprove}>
+          {review.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="mr-2 h-4 w-4" />
+          )}
+          Approve and search
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          onClick={cancel}
+          disabled={review.isPending}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Cancel run
+        </Button>
+      </div>
+    </section>
+  );
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+function splitCsv(s: string): string[] {
+  return s
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
+
+// Plan dates may be full ISO timestamps; <input type="date"> wants YYYY-MM-DD
+function toDateInput(s?: string): string {
+  return s ? s.slice(0, 10) : "";
+}
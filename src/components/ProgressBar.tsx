@@ -5,6 +5,7 @@ import { useEffect, useMemo, useRef } from "react";
 import {
   useResearchStore,
   useResearchStage,
+  useResearchUsage,
 } from "@/features/research/client/store";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -14,11 +15,13 @@ import {
   Search as SearchIcon,
   BookOpenText,
   ArrowUpDown,
+  ScanSearch,
   MessageSquareText,
   ShieldCheck,
   CheckCircle2,
   AlertTriangle,
   Loader2,
+  PauseCircle,
 } from "lucide-react";
 
 /* -------------------------------- Helpers --------------------------------- */
@@ -28,7 +31,8 @@ function clsx(...xs: Array<string | false | null | undefined>) {
 }
 
 const STAGES = ["plan", "search", "read", "rank", "answer", "verify", "done"] as const;
-type Stage = (typeof STAGES)[number] | "idle" | "error";
+// "gaps" (deep runs only) has no step of its own; it shows as ranking
+type Stage = (typeof STAGES)[number] | "gaps" | "idle" | "error";
 
 const STAGE_LABEL: Record<Stage, string> = {
   idle: "Idle",
@@ -36,6 +40,7 @@ const STAGE_LABEL: Record<Stage, string> = {
   search: "Search",
   read: "Read",
   rank: "Rank",
+  gaps: "Gaps",
   answer: "Answer",
   verify: "Verify",
   done: "Done",
@@ -48,6 +53,7 @@ const STAGE_ICON: Record<Stage, any> = {
   search: SearchIcon,
   read: BookOpenText,
   rank: ArrowUpDown,
+  gaps: ScanSearch,
   answer: MessageSquareText,
   verify: ShieldCheck,
   done: CheckCircle2,
@@ -57,6 +63,7 @@ const STAGE_ICON: Record<Stage, any> = {
 function stageIndex(stage: Stage): number {
   if (stage === "idle") return 0;
   if (stage === "error") return STAGES.length - 1;
+  if (stage === "gaps") return STAGES.indexOf("rank");
   const idx = STAGES.indexOf(stage as any);
   return idx >= 0 ? idx : 0;
 }
@@ -92,6 +99,8 @@ export function ProgressBar(props: ProgressBarProps) {
   const startedAt = useResearchStore((s) => s.startedAt);
   const endedAt = useResearchStore((s) => s.endedAt);
   const progress = useResearchStore((s) => s.progress);
+  const awaitingReview = useResearchStore((s) => s.pendingPlan !== null);
+  const usage = useResearchUsage();
 
   const value = useMemo(() => stagePercent(stage), [stage]);
   const elapsed = useMemo(() => {
@@ -105,6 +114,8 @@ export function ProgressBar(props: ProgressBarProps) {
       ? { variant: "destructive" as const, text: "Error", icon: STAGE_ICON.error }
       : stage === "done"
       ? { variant: "outline" as const, text: "Done", icon: STAGE_ICON.done }
+      : awaitingReview
+      ? { variant: "outline" as const, text: "Review plan", icon: PauseCircle }
       : {
           variant: "secondary" as const,
           text: STAGE_LABEL[stage] || "Running",
@@ -141,6 +152,8 @@ export function ProgressBar(props: ProgressBarProps) {
             <CheckCircle2 className="h-3.5 w-3.5" aria-hidden />
           ) : stage === "error" ? (
             <AlertTriangle className="h-3.5 w-3.5" aria-hidden />
+          ) : awaitingReview ? (
+            <PauseCircle className="h-3.5 w-3.5" aria-hidden />
           ) : (
             <Loader2
               className={clsx("h-3.5 w-3.5", stage === "idle" ? "" : "animate-spin")}
@@ -159,6 +172,14 @@ export function ProgressBar(props: ProgressBarProps) {
           {!props.compact && (
             <div className="text-[10px] text-muted-foreground tabular-nums">{value}%</div>
           )}
+          {usage && (
+            <div
+              className="text-[10px] text-muted-foreground tabular-nums"
+              title={`${usage.total.inputTokens + usage.total.outputTokens} tokens, ${usage.total.calls} API calls (estimate)`}
+            >
+              ≈ ${usage.total.costUsd.toFixed(4)}
+            </div>
+          )}
         </div>
       </div>
 
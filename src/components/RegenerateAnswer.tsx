@@ -0,0 +1,100 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+"use client";
+
+import { useState } from "react";
+
+import type { AnswerStyle } from "@/features/research/types";
+import { startRegenerateWithStore } from "@/features/research/client/api";
+import {
+  useResearchStore,
+  useResearchStage,
+} from "@/features/research/client/store";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+
+/**
+ * Answer again from the finished answer's stored sources with another style
+ * or emphasis (no new search). The new version replaces the one shown.
+ */
+export function RegenerateAnswer() {
+  const stage = useResearchStage();
+  const messageId = useResearchStore((s) => s.messageId);
+  const selectedSourceId = useResearchStore((s) => s.ui.selectedSourceId);
+  const sources = useResearchStore((s) => s.sources);
+
+  const [style, setStyle] = useState<AnswerStyle>("neutral");
+  const [instructions, setInstructions] = useState("");
+  const [dropSelected, setDropSelected] = useState(false);
+
+  if (stage !== "done" || !messageId) return null;
+
+  const selected = sources.find((s) => s.id === selectedSourceId);
+
+  const regenerate = async () => {
+    try {
+      const handle = startRegenerateWithStore({
+        messageId,
+        style,
+        instructions: instructions.trim() || undefined,
+        excludeSourceIds: dropSelected && selected ? [selected.id] : undefined,
+      });
+      await handle.done;
+    } catch (e: any) {
+      useResearchStore.getState().setError(e?.message ?? "Regeneration failed");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2">
+      <Select value={style} onValueChange={(v) => setStyle(v as AnswerStyle)}>
+        <SelectTrigger className="h-8 w-[130px] text-xs" aria-label="Answer style">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="neutral">Balanced</SelectItem>
+          <SelectItem value="concise">Concise</SelectItem>
+          <SelectItem value="detailed">Detailed</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        maxLength={500}
+        placeholder="Tone or emphasis (optional), e.g. focus on costs"
+        className="h-8 min-w-[200px] flex-1 text-xs"
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            regenerate();
+          }
+        }}
+      />
+      {selected ? (
+        <Button
+          type="button"
+          variant={dropSelected ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => setDropSelected((d) => !d)}
+          title={selected.url}
+          aria-pressed={dropSelected}
+        >
+          {dropSelected ? "Leaving out" : "Leave out"} [{selected.index ?? "?"}]
+        </Button>
+      ) : null}
+      <Button type="button" size="sm" className="h-8" onClick={regenerate}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Regenerate
+      </Button>
+    </div>
+  );
+}
@@ -10,8 +10,10 @@ import {
   ResearchRequestSchema,
   type ResearchRequest,
   type Depth,
+  type ResearchMode,
 } from "@/features/research/types";
 import {
+  resumeRunWithStore,
   startResearchWithStore,
   type StreamHandle,
 } from "@/features/research/client/api";
@@ -19,6 +21,7 @@ import {
   useResearchStore,
   useResearchStage,
 } from "@/features/research/client/store";
+import { PlanReview } from "@/components/PlanReview";
 
 // shadcn/ui
 import {
@@ -41,6 +44,8 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 
 // icons
 import {
@@ -50,6 +55,7 @@ import {
   RotateCcw,
   SlidersHorizontal,
   Sparkles,
+  MessagesSquare,
 } from "lucide-react";
 
 // Extend the request schema with form-only fields
@@ -58,6 +64,11 @@ const FormSchema = ResearchRequestSchema.extend({
   disallowedDomainsCsv: z.string().optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
+  seedUrlsText: z
+    .string()
+    .optional()
+    .refine((s) => splitUrls(s).every(isHttpUrl), "One http(s) URL per line.")
+    .refine((s) => splitUrls(s).length <= 10, "At most 10 URLs."),
 });
 
 // IMPORTANT: use z.input so the form type matches Zod input (depth can be undefined due to default)
@@ -73,6 +84,7 @@ export function ResearchForm() {
   const stage = useResearchStage();
   const store = useResearchStore();
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [followUp, setFollowUp] = useState(true);
   const handleRef = useRef<StreamHandle | null>(null);
   const textAreaRef = useRef<HTMLTextAreaElement | null>(null);
 
@@ -81,11 +93,17 @@ export function ResearchForm() {
     defaultValues: {
       question: "",
       depth: "normal", // provide a default to keep UI controlled
+      mode: "web",
       region: "",
+      collection: "",
+      reuseWeight: 0,
+      reviewPlan: false,
+      agent: false,
       allowedDomainsCsv: "",
       disallowedDomainsCsv: "",
       fromDate: "",
       toDate: "",
+      seedUrlsText: "",
     },
     mode: "onSubmit",
   });
@@ -95,13 +113,30 @@ export function ResearchForm() {
 
   const canStop = useMemo(
     () =>
-      ["plan", "search", "read", "rank", "answer", "verify"].includes(stage),
+      ["plan", "search", "read", "rank", "gaps", "answer", "verify"].includes(stage),
     [stage]
   );
 
+  // Follow-ups are offered once a run has produced a thread
+  const canFollowUp = Boolean(store.threadId) && stage === "done";
+  const isFollowUp = canFollowUp && followUp;
+
   useEffect(() => {
-    // Cleanup on unmount: abort any in-flight stream
+    // Back into this tab's unfinished run (after navigating away or a reload)
+    let unmounted = false;
+    resumeRunWithStore()
+      .then((handle) => {
+        if (!handle) return;
+        if (unmounted) handle.abort("unmount");
+        else handleRef.current = handle;
+      })
+      .catch(() => {
+        /* nothing to resume */
+      });
+
+    // Cleanup on unmount: close the stream; the run itself carries on
     return () => {
+      unmounted = true;
       try {
         handleRef.current?.abort?.("unmount");
       } catch {
@@ -121,16 +156,24 @@ export function ResearchForm() {
     const allowedDomains = splitCsv(values.allowedDomainsCsv);
     const disallowedDomains = splitCsv(values.disallowedDomainsCsv);
     const timeRange = toTimeRange(values.fromDate, values.toDate);
+    const seedUrls = splitUrls(values.seedUrlsText);
 
     const payload: ResearchRequest = {
       question: values.question.trim(),
       depth: (values.depth ?? "normal") as Depth,
+      mode: (values.mode ?? "web") as ResearchMode,
       region: values.region?.trim() || undefined,
       allowedDomains: allowedDomains.length ? allowedDomains : undefined,
       disallowedDomains: disallowedDomains.length
         ? disallowedDomains
         : undefined,
       timeRange: timeRange ?? undefined,
+      threadId: isFollowUp ? store.threadId ?? undefined : undefined,
+      collection: values.collection?.trim() || undefined,
+      reuseWeight: values.reuseWeight ?? 0,
+      reviewPlan: values.reviewPlan ?? false,
+      agent: values.agent ?? false,
+      seedUrls: seedUrls.length ? seedUrls : undefined,
     };
 
     try {
@@ -144,7 +187,7 @@ export function ResearchForm() {
 
   const stop = () => {
     try {
-      handleRef.current?.abort("User cancelled");
+      handleRef.current?.cancel("User cancelled");
     } catch {
       /* ignore */
     }
@@ -153,7 +196,7 @@ export function ResearchForm() {
 
   const hardReset = () => {
     try {
-      handleRef.current?.abort("Reset");
+      handleRef.current?.cancel("Reset");
     } catch {
       /* ignore */
     }
@@ -212,6 +255,24 @@ export function ResearchForm() {
                       Be specific to get better, more grounded results.
                     </FormDescription>
 
+                    {/* Follow-up in the current thread */}
+                    {canFollowUp && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <Switch
+                          id="follow-up"
+                          checked={followUp}
+                          onCheckedChange={setFollowUp}
+                        />
+                        <Label
+                          htmlFor="follow-up"
+                          className="inline-flex items-center gap-1.5 text-xs font-normal"
+                        >
+                          <MessagesSquare className="h-3.5 w-3.5" />
+                          Ask as a follow-up in the current thread
+                        </Label>
+                      </div>
+                    )}
+
                     {/* Quick examples */}
                     <div className="mt-2 flex flex-wrap gap-2">
                       {EXAMPLES.map((ex) => (
@@ -269,6 +330,38 @@ export function ResearchForm() {
             />
           </div>
 
+          {/* Mode */}
+          <div className="col-span-12 md:col-span-3">
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sources</FormLabel>
+                  <Select
+                    value={field.value ?? "web"}
+                    onValueChange={field.onChange}
+                    disabled={canStop}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select sources" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="web">Web</SelectItem>
+                      <SelectItem value="local">Ingested only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Ingested only never searches the web.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
           {/* Region */}
           <div className="col-span-12 md:col-span-3">
             <FormField
@@ -352,6 +445,30 @@ export function ResearchForm() {
                 />
               </div>
 
+              <div className="col-span-12">
+                <FormField
+                  control={form.control}
+                  name="seedUrlsText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Must-include sources</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"https://www.fda.gov/...\nhttps://example.org/report.pdf"}
+                          className="min-h-[72px] resize-y font-mono text-xs"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Paste URLs, one per line. They are always read and kept
+                        in the answer context; web search adds to them.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="col-span-12 md:col-span-3">
                 <FormField
                   control={form.control}
@@ -386,12 +503,130 @@ export function ResearchForm() {
                 />
               </div>
 
+              <div className="col-span-12 md:col-span-6">
+                <FormField
+                  control={form.control}
+                  name="collection"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Collection (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., q3-filings" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Also rank over this ingested collection.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="col-span-12 md:col-span-6">
+                <FormField
+                  control={form.control}
+                  name="reuseWeight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Earlier research</FormLabel>
+                      <div className="flex h-9 items-center gap-2">
+                        <FormControl>
+                          <Switch
+                            id="reuse-earlier"
+                            checked={(field.value ?? 0) > 0}
+                            onCheckedChange={(on) => field.onChange(on ? 0.5 : 0)}
+                          />
+                        </FormControl>
+                        <Label
+                          htmlFor="reuse-earlier"
+                          className="text-xs font-normal"
+                        >
+                          Reuse sources ingested by other questions
+                        </Label>
+                      </div>
+                      <FormDescription>
+                        Reused snippets rank at half weight.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="col-span-12 md:col-span-6">
+                <FormField
+                  control={form.control}
+                  name="reviewPlan"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Plan review</FormLabel>
+                      <div className="flex h-9 items-center gap-2">
+                        <FormControl>
+                          <Switch
+                            id="review-plan"
+                            checked={field.value ?? false}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <Label
+                          htmlFor="review-plan"
+                          className="text-xs font-normal"
+                        >
+                          Review the plan before searching
+                        </Label>
+                      </div>
+                      <FormDescription>
+                        Edit subqueries and constraints, then approve.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="col-span-12 md:col-span-6">
+                <FormField
+                  control={form.control}
+                  name="agent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Agent mode</FormLabel>
+                      <div className="flex h-9 items-center gap-2">
+                        <FormControl>
+                          <Switch
+                            id="agent-mode"
+                            checked={field.value ?? false}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <Label
+                          htmlFor="agent-mode"
+                          className="text-xs font-normal"
+                        >
+                          Let the model browse with tools
+                        </Label>
+                      </div>
+                      <FormDescription>
+                        Searches and reads adaptively instead of a fixed plan;
+                        skips plan review.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="col-span-12">
                 <Separator />
               </div>
             </>
           )}
 
+          {/* Plan awaiting review (run paused server-side) */}
+          <div className="col-span-12 empty:hidden">
+            <PlanReview />
+          </div>
+
           {/* Actions */}
           <div className="col-span-12 flex items-center gap-2 pt-1">
             <Button
@@ -406,7 +641,7 @@ export function ResearchForm() {
               ) : (
                 <>
                   <Play className="mr-2 h-4 w-4" />
-                  Start research
+                  {isFollowUp ? "Ask follow-up" : "Start research"}
                 </>
               )}
             </Button>
@@ -456,6 +691,21 @@ function splitCsv(s?: string): string[] {
     .filter(Boolean);
 }
 
+// Newlines, commas or spaces separate pasted URLs
+function splitUrls(s?: string): string[] {
+  if (!s) return [];
+  return Array.from(new Set(s.split(/[\s,]+/).filter(Boolean)));
+}
+
+function isHttpUrl(s: string): boolean {
+  try {
+    const u = new URL(s);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
 function toTimeRange(from?: string, to?: string) {
   const f = from && from.trim().length ? from.trim() : undefined;
   const t = to && to.trim().length ? to.trim() : undefined;
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useResearchStore } from "@/features/research/client/store";
-import type { SourceRef } from "@/features/research/types";
+import type { SourceRef, ThreadSource } from "@/features/research/types";
 import {
   Select,
   SelectContent,
@@ -24,6 +24,7 @@ import {
   Globe,
   FileText,
   Hash,
+  CalendarDays,
 } from "lucide-react";
 import Image from "next/image";
 
@@ -50,20 +51,60 @@ function faviconFor(url: string): string | null {
   }
 }
 
+function formatPublished(iso: string | null | undefined): string | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return null;
+  return d.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function publishedMs(s: SourceRef): number | null {
+  const t = s.publishedAt ? Date.parse(s.publishedAt) : NaN;
+  return Number.isFinite(t) ? t : null;
+}
+
+// Usage stats are only known once a thread is persisted (see /api/thread/:id/sources)
+type SourceItem = SourceRef &
+  Partial<Pick<ThreadSource, "chunkCount" | "claimCount" | "citationCount">>;
+
 /* ------------------------------- Subcomponents ----------------------------- */
 
+// Bands mirror LOW_TRUST (0.5) in features/research/server/trust.ts
+function TrustBadge({ score, reason }: { score: number; reason?: string | null }) {
+  const [label, cls] =
+    score >= 0.8
+      ? ["High trust", "border-emerald-500/40 text-emerald-700 dark:text-emerald-400"]
+      : score >= 0.5
+        ? ["Medium trust", "border-amber-500/40 text-amber-700 dark:text-amber-400"]
+        : ["Low trust", "border-destructive/40 text-destructive"];
+  return (
+    <Badge
+      variant="outline"
+      className={clsx("text-[10px]", cls)}
+      title={`${Math.round(score * 100)}%${reason ? ` · ${reason}` : ""}`}
+    >
+      {label}
+    </Badge>
+  );
+}
+
 function SourceRow({
   source,
   selected,
   onSelect,
   innerRef,
 }: {
-  source: SourceRef;
+  source: SourceItem;
   selected: boolean;
   onSelect: (id: string) => void;
   innerRef?: (el: HTMLDivElement | null) => void;
 }) {
   const host = domainOf(source.url);
+  const published = formatPublished(source.publishedAt);
   const favicon = faviconFor(source.url);
 
   return (
@@ -113,10 +154,28 @@ function SourceRow({
             <div className="truncate text-sm font-medium">
               {source.title || host}
             </div>
-            <div className="truncate text-xs text-muted-foreground">{host}</div>
+            <div className="truncate text-xs text-muted-foreground">
+              {host}
+              {published && ` • ${published}`}
+              {source.chunkCount != null && ` • ${source.chunkCount} chunks`}
+              {!!source.duplicateUrls?.length &&
+                ` • +${source.duplicateUrls.length} ${source.duplicateUrls.length === 1 ? "copy" : "copies"}`}
+            </div>
           </div>
 
           <div className="ml-auto flex items-center gap-1">
+            {source.trust != null && (
+              <TrustBadge score={source.trust} reason={source.trustReason} />
+            )}
+            {!!source.claimCount && (
+              <Badge
+                variant="outline"
+                className="text-[10px]"
+                title="Claims citing this source"
+              >
+                {source.claimCount} {source.claimCount === 1 ? "claim" : "claims"}
+              </Badge>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -157,7 +216,7 @@ function SourceRow({
 export type SourceListProps = {
   className?: string;
   // Controlled mode (optional)
-  sources?: SourceRef[];
+  sources?: SourceItem[];
   selectedId?: string | null;
   onSelect?: (id: string | null) => void;
   // UI options
@@ -166,7 +225,7 @@ export type SourceListProps = {
   showToolbar?: boolean;
 };
 
-type SortKey = "index" | "domain" | "title";
+type SortKey = "index" | "domain" | "title" | "date";
 type SortDir = "asc" | "desc";
 
 export function SourceList(props: SourceListProps) {
@@ -174,7 +233,7 @@ export function SourceList(props: SourceListProps) {
   const uncontrolled = !props.sources;
 
   // Data/selection
-  const sources = (props.sources ?? store.sources) as SourceRef[];
+  const sources = (props.sources ?? store.sources) as SourceItem[];
   const selectedId = uncontrolled
     ? store.ui.selectedSourceId
     : props.selectedId ?? null;
@@ -205,6 +264,14 @@ export function SourceList(props: SourceListProps) {
         v =
           domainOf(a.url).localeCompare(domainOf(b.url)) ||
           (a.title ?? "").localeCompare(b.title ?? "");
+      } else if (sortKey === "date") {
+        // undated sources last, whichever the direction
+        const at = publishedMs(a);
+        const bt = publishedMs(b);
+        if (at === null || bt === null) {
+          return at === bt ? 0 : at === null ? 1 : -1;
+        }
+        v = at - bt;
       } else {
         // title
         v =
@@ -310,6 +377,11 @@ export function SourceList(props: SourceListProps) {
                       <FileText className="h-4 w-4" /> Title
                     </span>
                   </SelectItem>
+                  <SelectItem value="date">
+                    <span className="inline-flex items-center gap-2">
+                      <CalendarDays className="h-4 w-4" /> Date
+                    </span>
+                  </SelectItem>
                 </SelectContent>
               </Select>
               <Button
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  useResearchStore,
+  useResearchStage,
+} from "@/features/research/client/store";
+import { useThread, useThreads } from "@/features/research/client/queries";
+
+import {
+  History as HistoryIcon,
+  Search as SearchIcon,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  AlertTriangle,
+} from "lucide-react";
+
+/* -------------------------------- Helpers --------------------------------- */
+
+const PAGE_SIZE = 20;
+
+function clsx(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function useDebounced<T>(value: T, ms: number): T {
+  const [v, setV] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setV(value), ms);
+    return () => clearTimeout(t);
+  }, [value, ms]);
+  return v;
+}
+
+/* -------------------------------- Component -------------------------------- */
+
+export function ThreadHistory() {
+  const stage = useResearchStage();
+  const currentThreadId = useResearchStore((s) => s.threadId);
+  const restore = useResearchStore((s) => s.restore);
+
+  const [open, setOpen] = useState(false);
+  const [q, setQ] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [restoreFailed, setRestoreFailed] = useState(false);
+
+  const debouncedQ = useDebounced(q, 300);
+
+  // Back to the first page whenever filters change
+  useEffect(() => {
+    setOffset(0);
+  }, [debouncedQ, from, to]);
+
+  const list = useThreads(
+    {
+      q: debouncedQ.trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      limit: PAGE_SIZE,
+      offset,
+    },
+    { enabled: open }
+  );
+  const detail = useThread(pendingId);
+
+  // Restore once the selected thread has loaded, then close the panel
+  useEffect(() => {
+    if (!pendingId || !detail.data) return;
+    restore(detail.data);
+    setPendingId(null);
+    setOpen(false);
+  }, [pendingId, detail.data, restore]);
+
+  useEffect(() => {
+    if (!pendingId || !detail.isError) return;
+    setRestoreFailed(true);
+    setPendingId(null);
+  }, [pendingId, detail.isError]);
+
+  const isRunning = [
+    "plan",
+    "search",
+    "read",
+    "rank",
+    "gaps",
+    "answer",
+    "verify",
+  ].includes(stage);
+
+  const items = list.data?.items ?? [];
+  const total = list.data?.total ?? 0;
+  const hasPrev = offset > 0;
+  const hasNext = offset + items.length < total;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <HistoryIcon className="mr-2 h-4 w-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Research history</SheetTitle>
+          <SheetDescription>
+            Restore a past run with its answer, sources, and claims.
+          </SheetDescription>
+        </SheetHeader>
+
+        {/* Filters */}
+        <div className="space-y-3 px-4">
+          <div className="relative">
+            <SearchIcon className="pointer-events-none absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+              placeholder="Search by title"
+              className="pl-8"
+              aria-label="Search threads by title"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="history-from" className="text-xs">
+                From
+              </Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to" className="text-xs">
+                To
+              </Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* List */}
+        <div className="min-h-0 flex-1 overflow-y-auto px-4" role="listbox">
+          {list.isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading…
+            </div>
+          ) : list.isError ? (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Failed to load history.
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No past research runs match.
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {items.map((t) => {
+                const active = t.id === currentThreadId;
+                const loading = t.id === pendingId && detail.isFetching;
+                return (
+                  <li key={t.id}>
+                    <button
+                      type="button"
+                      role="option"
+                      aria-selected={active}
+                      disabled={isRunning || !!pendingId}
+                      onClick={() => {
+                        setRestoreFailed(false);
+                        setPendingId(t.id);
+                      }}
+                      title={
+                        isRunning ? "Wait for the current run to finish" : t.title
+                      }
+                      className={clsx(
+                        "w-full rounded border p-2 text-left hover:bg-accent focus:outline-none focus-visible:ring-2 disabled:cursor-not-allowed disabled:opacity-60",
+                        active ? "border-primary ring-2 ring-primary/40" : "border-border"
+                      )}
+                    >
+                      <div className="flex items-start gap-2">
+                        <div className="min-w-0 flex-1">
+                          <div className="line-clamp-2 text-sm font-medium">
+                            {t.title}
+                          </div>
+                          <div className="mt-0.5 text-xs text-muted-foreground">
+                            {formatDate(t.createdAt)}
+                          </div>
+                        </div>
+                        {loading ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        ) : (
+                          <Badge variant="secondary" className="shrink-0">
+                            {t.turns} {t.turns === 1 ? "turn" : "turns"}
+                          </Badge>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {restoreFailed && (
+            <div className="mt-2 flex items-center gap-2 text-xs text-destructive">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              Could not restore that run.
+            </div>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center gap-2 border-t px-4 py-3">
+          <span className="text-xs text-muted-foreground">
+            {total > 0
+              ? `${offset + 1}–${offset + items.length} of ${total}`
+              : "0 results"}
+          </span>
+          <div className="ml-auto flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!hasPrev || list.isFetching}
+              onClick={() => setOffset((o) => Math.max(0, o - PAGE_SIZE))}
+              title="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!hasNext || list.isFetching}
+              onClick={() => setOffset((o) => o + PAGE_SIZE)}
+              title="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
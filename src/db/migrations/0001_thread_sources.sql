@@ -0,0 +1,16 @@
+CREATE TABLE `thread_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`thread_id` text NOT NULL,
+	`source_id` text NOT NULL,
+	`message_id` text,
+	`idx` integer,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`thread_id`) REFERENCES `threads`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`source_id`) REFERENCES `sources`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_thread_sources_thread_id` ON `thread_sources` (`thread_id`);--> statement-breakpoint
+CREATE INDEX `idx_thread_sources_source_id` ON `thread_sources` (`source_id`);--> statement-breakpoint
+CREATE INDEX `idx_thread_sources_message_id` ON `thread_sources` (`message_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_thread_sources_thread_source_message` ON `thread_sources` (`thread_id`,`source_id`,`message_id`);
\ No newline at end of file
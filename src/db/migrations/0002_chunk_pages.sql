@@ -0,0 +1,2 @@
+ALTER TABLE `chunks` ADD `page_start` integer;--> statement-breakpoint
+ALTER TABLE `chunks` ADD `page_end` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `chunk_embeddings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`chunk_id` text NOT NULL,
+	`model` text NOT NULL,
+	`dims` integer NOT NULL,
+	`vector` blob NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`chunk_id`) REFERENCES `chunks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_chunk_embeddings_model` ON `chunk_embeddings` (`model`);--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_chunk_embeddings_chunk_model` ON `chunk_embeddings` (`chunk_id`,`model`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `ingest_queue` ADD `next_attempt_at` integer;--> statement-breakpoint
+CREATE INDEX `idx_ingest_queue_status_next_attempt` ON `ingest_queue` (`status`,`next_attempt_at`);--> statement-breakpoint
+UPDATE `ingest_queue` SET `status` = 'dead' WHERE `status` = 'error';
\ No newline at end of file
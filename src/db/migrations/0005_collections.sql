@@ -0,0 +1,19 @@
+CREATE TABLE `collection_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`collection_id` text NOT NULL,
+	`source_id` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`collection_id`) REFERENCES `collections`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`source_id`) REFERENCES `sources`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_collection_sources_source_id` ON `collection_sources` (`source_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_collection_sources_collection_source` ON `collection_sources` (`collection_id`,`source_id`);--> statement-breakpoint
+CREATE TABLE `collections` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_collections_name` ON `collections` (`name`);--> statement-breakpoint
+ALTER TABLE `ingest_queue` ADD `collection` text;
\ No newline at end of file
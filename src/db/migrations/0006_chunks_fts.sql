@@ -0,0 +1,12 @@
+CREATE VIRTUAL TABLE IF NOT EXISTS `chunks_fts` USING fts5(text, content='chunks', content_rowid='rowid');--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `chunks_ai` AFTER INSERT ON `chunks` BEGIN
+  INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `chunks_ad` AFTER DELETE ON `chunks` BEGIN
+  INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.rowid, old.text);
+END;--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `chunks_au` AFTER UPDATE ON `chunks` BEGIN
+  INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.rowid, old.text);
+  INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
+END;--> statement-breakpoint
+INSERT INTO `chunks_fts`(`chunks_fts`) VALUES('rebuild');
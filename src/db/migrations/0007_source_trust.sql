@@ -0,0 +1,10 @@
+CREATE TABLE `source_trust` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scope` text NOT NULL,
+	`key` text NOT NULL,
+	`score` real NOT NULL,
+	`reason` text,
+	`updated_at` integer DEFAULT (strftime('%s','now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_source_trust_scope_key` ON `source_trust` (`scope`,`key`);
\ No newline at end of file
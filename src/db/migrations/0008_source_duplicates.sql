@@ -0,0 +1,13 @@
+CREATE TABLE `source_simhash_bands` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_id` text NOT NULL,
+	`band` integer NOT NULL,
+	`value` integer NOT NULL,
+	FOREIGN KEY (`source_id`) REFERENCES `sources`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_source_simhash_bands_band_value` ON `source_simhash_bands` (`band`,`value`);--> statement-breakpoint
+CREATE INDEX `idx_source_simhash_bands_source_id` ON `source_simhash_bands` (`source_id`);--> statement-breakpoint
+ALTER TABLE `sources` ADD `simhash` text;--> statement-breakpoint
+ALTER TABLE `sources` ADD `cluster_id` text;--> statement-breakpoint
+CREATE INDEX `idx_sources_cluster_id` ON `sources` (`cluster_id`);
\ No newline at end of file
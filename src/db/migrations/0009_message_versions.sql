@@ -0,0 +1,15 @@
+CREATE TABLE `message_contexts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`message_id` text NOT NULL,
+	`question` text NOT NULL,
+	`depth` text NOT NULL,
+	`sources_json` text NOT NULL,
+	`chunks_json` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_message_contexts_message_id` ON `message_contexts` (`message_id`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `version_of` text REFERENCES messages(id);--> statement-breakpoint
+ALTER TABLE `messages` ADD `version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_messages_version_of` ON `messages` (`version_of`);
\ No newline at end of file
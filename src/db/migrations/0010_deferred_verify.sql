@@ -0,0 +1,2 @@
+ALTER TABLE `message_contexts` ADD `verify_snippets_json` text;--> statement-breakpoint
+ALTER TABLE `message_contexts` ADD `verify_skipped` text;
\ No newline at end of file
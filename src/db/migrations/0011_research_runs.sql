@@ -0,0 +1,24 @@
+CREATE TABLE `run_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`run_id` text NOT NULL,
+	`seq` integer NOT NULL,
+	`event` text NOT NULL,
+	`data_json` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`run_id`) REFERENCES `runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `uq_run_events_run_seq` ON `run_events` (`run_id`,`seq`);--> statement-breakpoint
+CREATE TABLE `runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`thread_id` text,
+	`question` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`error` text,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`thread_id`) REFERENCES `threads`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_runs_thread_id` ON `runs` (`thread_id`);--> statement-breakpoint
+CREATE INDEX `idx_runs_status` ON `runs` (`status`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `usage_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`thread_id` text,
+	`run_id` text,
+	`visitor_id` text,
+	`depth` text,
+	`stage` text NOT NULL,
+	`provider` text NOT NULL,
+	`model` text,
+	`calls` integer DEFAULT 0 NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`cost_usd` real DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now')) NOT NULL,
+	FOREIGN KEY (`thread_id`) REFERENCES `threads`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`run_id`) REFERENCES `runs`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_usage_events_created_at` ON `usage_events` (`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_usage_events_thread_id` ON `usage_events` (`thread_id`);--> statement-breakpoint
+CREATE INDEX `idx_usage_events_visitor_id` ON `usage_events` (`visitor_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `runs` ADD `heartbeat_at` integer;
\ No newline at end of file
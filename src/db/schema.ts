@@ -4,8 +4,10 @@ import {
   text,
   integer,
   real,
+  blob,
   index,
   uniqueIndex,
+  type AnySQLiteColumn,
 } from 'drizzle-orm/sqlite-core';
 import {
   relations,
@@ -51,6 +53,11 @@ export const messages = sqliteTable(
       .references(() => threads.id, { onDelete: 'cascade' }),
     role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
     contentMd: text('content_md').notNull(),
+    // Regenerated answers: id of the turn's first assistant message, and 2, 3...
+    versionOf: text('version_of').references((): AnySQLiteColumn => messages.id, {
+      onDelete: 'cascade',
+    }),
+    version: integer('version').notNull().default(1),
     createdAt: integer('created_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(strftime('%s','now'))`),
@@ -58,12 +65,42 @@ export const messages = sqliteTable(
   (t) => ({
     threadIdx: index('idx_messages_thread_id').on(t.threadId),
     createdIdx: index('idx_messages_created_at').on(t.createdAt),
+    versionOfIdx: index('idx_messages_version_of').on(t.versionOf),
   })
 );
 
 export type Message = InferSelectModel<typeof messages>;
 export type NewMessage = InferInsertModel<typeof messages>;
 
+/* ----------------------------- message_contexts ---------------------------- */
+
+// The ranked context an assistant message was answered from, so the answer
+// can be regenerated without searching again (see server/regenerate.ts)
+export const messageContexts = sqliteTable(
+  'message_contexts',
+  {
+    id: text('id').primaryKey(),
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }),
+    question: text('question').notNull(),
+    depth: text('depth', { enum: ['quick', 'normal', 'deep'] }).notNull(),
+    sourcesJson: text('sources_json').notNull(), // SourceRef[] in [n] order
+    chunksJson: text('chunks_json').notNull(), // ContextChunk[], before budget trimming
+    verifySnippetsJson: text('verify_snippets_json'), // Snippet[] the verify step saw (or would have)
+    verifySkipped: text('verify_skipped', { enum: ['budget', 'rate_limit'] }), // set until verified later
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    messageUq: uniqueIndex('uq_message_contexts_message_id').on(t.messageId),
+  })
+);
+
+export type MessageContext = InferSelectModel<typeof messageContexts>;
+export type NewMessageContext = InferInsertModel<typeof messageContexts>;
+
 /* --------------------------------- sources --------------------------------- */
 
 export const sources = sqliteTable(
@@ -76,7 +113,9 @@ export const sources = sqliteTable(
     publishedAt: text('published_at'), // ISO if known
     crawledAt: text('crawled_at'), // ISO or epoch string if preferred
     lang: text('lang'),
-    fingerprint: text('fingerprint').unique(), // content hash if you compute one
+    fingerprint: text('fingerprint').unique(), // normalized content hash (lib/fingerprint)
+    simhash: text('simhash'), // 64-bit near-duplicate sketch, hex; null for short texts
+    clusterId: text('cluster_id'), // first source of its near-duplicate cluster (self if original)
     wordCount: integer('word_count'),
     status: text('status'), // ok | failed | pending
     httpStatus: integer('http_status'),
@@ -89,12 +128,33 @@ export const sources = sqliteTable(
     createdIdx: index('idx_sources_created_at').on(t.createdAt),
     urlUq: uniqueIndex('uq_sources_url').on(t.url),
     fpUq: uniqueIndex('uq_sources_fingerprint').on(t.fingerprint),
+    clusterIdx: index('idx_sources_cluster_id').on(t.clusterId),
   })
 );
 
 export type Source = InferSelectModel<typeof sources>;
 export type NewSource = InferInsertModel<typeof sources>;
 
+// SimHash split into byte bands: near-duplicates share at least one band
+export const sourceSimhashBands = sqliteTable(
+  'source_simhash_bands',
+  {
+    id: text('id').primaryKey(),
+    sourceId: text('source_id')
+      .notNull()
+      .references(() => sources.id, { onDelete: 'cascade' }),
+    band: integer('band').notNull(), // 0..7
+    value: integer('value').notNull(), // 0..255
+  },
+  (t) => ({
+    bandValueIdx: index('idx_source_simhash_bands_band_value').on(t.band, t.value),
+    sourceIdx: index('idx_source_simhash_bands_source_id').on(t.sourceId),
+  })
+);
+
+export type SourceSimhashBand = InferSelectModel<typeof sourceSimhashBands>;
+export type NewSourceSimhashBand = InferInsertModel<typeof sourceSimhashBands>;
+
 /* ----------------------------- source_content ------------------------------ */
 
 export const sourceContent = sqliteTable(
@@ -126,6 +186,9 @@ export const chunks = sqliteTable(
     pos: integer('pos').notNull(), // 0-based order
     charStart: integer('char_start').notNull(),
     charEnd: integer('char_end').notNull(),
+    // 1-based page range for paginated uploads (PDF); null for web pages
+    pageStart: integer('page_start'),
+    pageEnd: integer('page_end'),
     text: text('text').notNull(),
     tokens: integer('tokens').notNull(), // approx token count
     createdAt: integer('created_at', { mode: 'timestamp' })
@@ -141,11 +204,39 @@ export const chunks = sqliteTable(
 export type Chunk = InferSelectModel<typeof chunks>;
 export type NewChunk = InferInsertModel<typeof chunks>;
 
+/* ---------------------------- chunk_embeddings ----------------------------- */
+
+export const chunkEmbeddings = sqliteTable(
+  'chunk_embeddings',
+  {
+    id: text('id').primaryKey(),
+    chunkId: text('chunk_id')
+      .notNull()
+      .references(() => chunks.id, { onDelete: 'cascade' }),
+    model: text('model').notNull(), // backend:model, e.g. 'voyage:voyage-3.5-lite'
+    dims: integer('dims').notNull(),
+    vector: blob('vector', { mode: 'buffer' }).notNull(), // Float32 little-endian
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    modelIdx: index('idx_chunk_embeddings_model').on(t.model),
+    chunkModelUq: uniqueIndex('uq_chunk_embeddings_chunk_model').on(
+      t.chunkId,
+      t.model
+    ),
+  })
+);
+
+export type ChunkEmbedding = InferSelectModel<typeof chunkEmbeddings>;
+export type NewChunkEmbedding = InferInsertModel<typeof chunkEmbeddings>;
+
 /**
- * FTS: create virtual table via migration:
+ * FTS: chunks_fts is created by migration 0006_chunks_fts:
  *   CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts
  *   USING fts5(text, content='chunks', content_rowid='rowid');
- * Plus triggers to sync on insert/update/delete.
+ * Triggers chunks_ai/ad/au keep it in sync; repair with `bun run db:fts`.
  */
 
 /* ------------------------------- search_events ----------------------------- */
@@ -170,6 +261,39 @@ export const searchEvents = sqliteTable(
 export type SearchEvent = InferSelectModel<typeof searchEvents>;
 export type NewSearchEvent = InferInsertModel<typeof searchEvents>;
 
+/* ------------------------------ thread_sources ----------------------------- */
+
+export const threadSources = sqliteTable(
+  'thread_sources',
+  {
+    id: text('id').primaryKey(),
+    threadId: text('thread_id')
+      .notNull()
+      .references(() => threads.id, { onDelete: 'cascade' }),
+    sourceId: text('source_id')
+      .notNull()
+      .references(() => sources.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').references(() => messages.id, { onDelete: 'cascade' }),
+    idx: integer('idx'), // [n] in the assistant message's SOURCES list; null if read but not cited
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    threadIdx: index('idx_thread_sources_thread_id').on(t.threadId),
+    sourceIdx: index('idx_thread_sources_source_id').on(t.sourceId),
+    msgIdx: index('idx_thread_sources_message_id').on(t.messageId),
+    threadSourceMsgUq: uniqueIndex('uq_thread_sources_thread_source_message').on(
+      t.threadId,
+      t.sourceId,
+      t.messageId
+    ),
+  })
+);
+
+export type ThreadSource = InferSelectModel<typeof threadSources>;
+export type NewThreadSource = InferInsertModel<typeof threadSources>;
+
 /* --------------------------------- citations ------------------------------- */
 
 export const citations = sqliteTable(
@@ -259,6 +383,73 @@ export const claimEvidence = sqliteTable(
 export type ClaimEvidence = InferSelectModel<typeof claimEvidence>;
 export type NewClaimEvidence = InferInsertModel<typeof claimEvidence>;
 
+/* -------------------------------- collections ------------------------------ */
+
+export const collections = sqliteTable(
+  'collections',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(), // user-facing handle, e.g. "q3-filings"
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    nameUq: uniqueIndex('uq_collections_name').on(t.name),
+  })
+);
+
+export type Collection = InferSelectModel<typeof collections>;
+export type NewCollection = InferInsertModel<typeof collections>;
+
+export const collectionSources = sqliteTable(
+  'collection_sources',
+  {
+    id: text('id').primaryKey(),
+    collectionId: text('collection_id')
+      .notNull()
+      .references(() => collections.id, { onDelete: 'cascade' }),
+    sourceId: text('source_id')
+      .notNull()
+      .references(() => sources.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    sourceIdx: index('idx_collection_sources_source_id').on(t.sourceId),
+    collectionSourceUq: uniqueIndex('uq_collection_sources_collection_source').on(
+      t.collectionId,
+      t.sourceId
+    ),
+  })
+);
+
+export type CollectionSource = InferSelectModel<typeof collectionSources>;
+export type NewCollectionSource = InferInsertModel<typeof collectionSources>;
+
+// Cached LLM trust judgements (see server/trust.ts). scope 'domain' covers
+// every page on a host; 'url' is the judgement for that page itself.
+export const sourceTrust = sqliteTable(
+  'source_trust',
+  {
+    id: text('id').primaryKey(),
+    scope: text('scope', { enum: ['domain', 'url'] }).notNull(),
+    key: text('key').notNull(), // hostname or full URL
+    score: real('score').notNull(), // 0..1
+    reason: text('reason'),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    scopeKeyUq: uniqueIndex('uq_source_trust_scope_key').on(t.scope, t.key),
+  })
+);
+
+export type SourceTrustRow = InferSelectModel<typeof sourceTrust>;
+export type NewSourceTrustRow = InferInsertModel<typeof sourceTrust>;
+
 /* -------------------------------- ingest_queue ----------------------------- */
 
 export const ingestQueue = sqliteTable(
@@ -267,9 +458,11 @@ export const ingestQueue = sqliteTable(
     id: text('id').primaryKey(),
     url: text('url').notNull(),
     priority: integer('priority').notNull().default(0),
-    status: text('status').notNull().default('queued'), // queued | processing | done | error
+    status: text('status').notNull().default('queued'), // queued | processing | done | dead
     attempts: integer('attempts').notNull().default(0),
     error: text('error'),
+    collection: text('collection'), // collection name to file the source under
+    nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp' }), // backoff; null = now
     createdAt: integer('created_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(strftime('%s','now'))`),
@@ -280,17 +473,105 @@ export const ingestQueue = sqliteTable(
   (t) => ({
     statusIdx: index('idx_ingest_queue_status').on(t.status),
     urlIdx: index('idx_ingest_queue_url').on(t.url),
+    dueIdx: index('idx_ingest_queue_status_next_attempt').on(t.status, t.nextAttemptAt),
   })
 );
 
 export type IngestQueue = InferSelectModel<typeof ingestQueue>;
 export type NewIngestQueue = InferInsertModel<typeof ingestQueue>;
 
+/* ----------------------------------- runs ---------------------------------- */
+
+// Research runs executed detached from the request (see server/runs.ts)
+export const runs = sqliteTable(
+  'runs',
+  {
+    id: text('id').primaryKey(), // ULID
+    threadId: text('thread_id').references(() => threads.id, { onDelete: 'set null' }),
+    question: text('question').notNull(),
+    status: text('status', { enum: ['running', 'done', 'error', 'cancelled'] })
+      .notNull()
+      .default('running'),
+    error: text('error'),
+    // Touched periodically by the process running it; a stale one means that
+    // process is gone (see server/runs.ts)
+    heartbeatAt: integer('heartbeat_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+    finishedAt: integer('finished_at', { mode: 'timestamp' }),
+  },
+  (t) => ({
+    threadIdx: index('idx_runs_thread_id').on(t.threadId),
+    statusIdx: index('idx_runs_status').on(t.status),
+  })
+);
+
+export type Run = InferSelectModel<typeof runs>;
+export type NewRun = InferInsertModel<typeof runs>;
+
+// Every event a run emitted, in order; seq is the SSE event id for replay
+export const runEvents = sqliteTable(
+  'run_events',
+  {
+    id: text('id').primaryKey(),
+    runId: text('run_id')
+      .notNull()
+      .references(() => runs.id, { onDelete: 'cascade' }),
+    seq: integer('seq').notNull(), // 1, 2, 3... per run
+    event: text('event').notNull(),
+    dataJson: text('data_json').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    runSeqUq: uniqueIndex('uq_run_events_run_seq').on(t.runId, t.seq),
+  })
+);
+
+export type RunEvent = InferSelectModel<typeof runEvents>;
+export type NewRunEvent = InferInsertModel<typeof runEvents>;
+
+/* ------------------------------- usage_events ------------------------------ */
+
+// Metered API spend: one row per (stage, provider, model) a run, regeneration
+// or deferred verify used. Kept when the thread or run is deleted.
+export const usageEvents = sqliteTable(
+  'usage_events',
+  {
+    id: text('id').primaryKey(),
+    threadId: text('thread_id').references(() => threads.id, { onDelete: 'set null' }),
+    runId: text('run_id').references(() => runs.id, { onDelete: 'set null' }),
+    visitorId: text('visitor_id'),
+    depth: text('depth', { enum: ['quick', 'normal', 'deep'] }),
+    stage: text('stage').notNull(), // plan | search | read | rank | gaps | answer | verify
+    provider: text('provider').notNull(), // groq | tavily | firecrawl | voyage | ...
+    model: text('model'), // null for per-call providers (search)
+    calls: integer('calls').notNull().default(0),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    costUsd: real('cost_usd').notNull().default(0), // estimate, see server/usage.ts
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(strftime('%s','now'))`),
+  },
+  (t) => ({
+    createdIdx: index('idx_usage_events_created_at').on(t.createdAt),
+    threadIdx: index('idx_usage_events_thread_id').on(t.threadId),
+    visitorIdx: index('idx_usage_events_visitor_id').on(t.visitorId),
+  })
+);
+
+export type UsageEvent = InferSelectModel<typeof usageEvents>;
+export type NewUsageEvent = InferInsertModel<typeof usageEvents>;
+
 /* -------------------------------- relations -------------------------------- */
 
 export const threadsRelations = relations(threads, ({ many }) => ({
   messages: many(messages),
   searchEvents: many(searchEvents),
+  threadSources: many(threadSources),
 }));
 
 export const messagesRelations = relations(messages, ({ one, many }) => ({
@@ -300,6 +581,7 @@ export const messagesRelations = relations(messages, ({ one, many }) => ({
   }),
   citations: many(citations),
   claims: many(claims),
+  threadSources: many(threadSources),
 }));
 
 export const sourcesRelations = relations(sources, ({ one, many }) => ({
@@ -311,6 +593,7 @@ export const sourcesRelations = relations(sources, ({ one, many }) => ({
   chunks: many(chunks),
   citations: many(citations),
   claimEvidence: many(claimEvidence),
+  threadSources: many(threadSources),
 }));
 
 export const sourceContentRelations = relations(sourceContent, ({ one }) => ({
@@ -327,6 +610,14 @@ export const chunksRelations = relations(chunks, ({ one, many }) => ({
   }),
   citations: many(citations),
   claimEvidence: many(claimEvidence),
+  embeddings: many(chunkEmbeddings),
+}));
+
+export const chunkEmbeddingsRelations = relations(chunkEmbeddings, ({ one }) => ({
+  chunk: one(chunks, {
+    fields: [chunkEmbeddings.chunkId],
+    references: [chunks.id],
+  }),
 }));
 
 export const claimsRelations = relations(claims, ({ one, many }) => ({
@@ -372,4 +663,34 @@ export const searchEventsRelations = relations(searchEvents, ({ one }) => ({
     fields: [searchEvents.threadId],
     references: [threads.id],
   }),
+}));
+
+export const threadSourcesRelations = relations(threadSources, ({ one }) => ({
+  thread: one(threads, {
+    fields: [threadSources.threadId],
+    references: [threads.id],
+  }),
+  source: one(sources, {
+    fields: [threadSources.sourceId],
+    references: [sources.id],
+  }),
+  message: one(messages, {
+    fields: [threadSources.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const collectionsRelations = relations(collections, ({ many }) => ({
+  sources: many(collectionSources),
+}));
+
+export const collectionSourcesRelations = relations(collectionSources, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionSources.collectionId],
+    references: [collections.id],
+  }),
+  source: one(sources, {
+    fields: [collectionSources.sourceId],
+    references: [sources.id],
+  }),
 }));
\ No newline at end of file
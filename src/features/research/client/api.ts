@@ -4,20 +4,28 @@
 import {
   ResearchRequest,
   ResearchRequestSchema,
+  RegenerateRequestSchema,
+  type RegenerateRequest,
   type DoneEvent,
   type ErrorEvent,
+  type PlanReviewEvent,
   type ProgressEvent,
+  type RunEvent,
   type SourceRef,
+  type UsageSummary,
   type VerifyClaimsResponse,
 } from "@/features/research/types";
 import { createSSEDecoder, type DecodedSSE } from "@/lib/sse";
 import { useResearchStore } from "./store";
 
 export type ResearchSSEMessage =
+  | { event: "run"; data: RunEvent }
   | { event: "progress"; data: ProgressEvent }
+  | { event: "plan"; data: PlanReviewEvent }
   | { event: "token"; data: string }
   | { event: "sources"; data: SourceRef[] }
   | { event: "claims"; data: VerifyClaimsResponse }
+  | { event: "usage"; data: UsageSummary }
   | { event: "done"; data: DoneEvent }
   | { event: "error"; data: ErrorEvent };
 
@@ -29,13 +37,18 @@ export type StreamOptions = {
   connectTimeoutMs?: number; // default 45000 (time to response headers)
   idleTimeoutMs?: number; // default 60000 (abort on no events)
   onEvent?: (msg: ResearchSSEMessage) => void; // per-event callback
+  onRun?: (run: RunCursor) => void; // run id and last event applied, as they advance
 };
 
+// Where a detached run's stream is up to; enough to reattach
+export type RunCursor = { runId: string; lastEventId: string | null };
+
 // Handle returned by streamResearch
 export type StreamHandle = {
   controller: AbortController;
   done: Promise<void>;
-  abort: (reason?: string) => void;
+  abort: (reason?: string) => void; // close the stream; a detached run carries on
+  cancel: (reason?: string) => void; // close the stream and cancel the run
 };
 
 /**
@@ -51,8 +64,62 @@ export function streamResearch(
   if (!parsed.success) {
     throw new Error("Invalid ResearchRequest: " + parsed.error.message);
   }
+  return streamEvents(opts.endpoint ?? "/api/research", parsed.data, opts);
+}
+
+/**
+ * Regenerate an answer from its stored context (SSE) via /api/research/regenerate.
+ * Same events as a research run, starting at the answer stage.
+ */
+export function streamRegenerate(
+  request: RegenerateRequest,
+  opts: StreamOptions = {}
+): StreamHandle {
+  const parsed = RegenerateRequestSchema.safeParse(request);
+  if (!parsed.success) {
+    throw new Error("Invalid RegenerateRequest: " + parsed.error.message);
+  }
+  return streamEvents(
+    opts.endpoint ?? "/api/research/regenerate",
+    parsed.data,
+    opts
+  );
+}
+
+/**
+ * Reattach to a research run (e.g. after a reload) via /api/runs/:id/events.
+ * Replays the events after `lastEventId` (all when omitted), then follows
+ * the run live.
+ */
+export function attachRun(
+  runId: string,
+  opts: StreamOptions & { lastEventId?: string } = {}
+): StreamHandle {
+  return streamEvents(null, null, opts, {
+    runId,
+    lastEventId: opts.lastEventId ?? null,
+  });
+}
+
+type Resume = RunCursor;
+
+// Reconnect attempts per gap; the count resets whenever events get through
+const MAX_RECONNECTS = 5;
 
-  const endpoint = opts.endpoint ?? "/api/research";
+/**
+ * POST `body` (or attach to a run) and stream the SSE response as typed
+ * messages. Research runs are detached server-side and announce their id in
+ * a `run` event: if the connection drops before `done`/`error`, we reattach
+ * with Last-Event-ID and continue where the stream broke off. Aborting the
+ * handle (or the external signal) only closes the stream, so a run survives
+ * its page going away; cancel() also stops the run server-side.
+ */
+function streamEvents(
+  endpoint: string | null,
+  body: unknown,
+  opts: StreamOptions,
+  resume: Resume | null = null
+): StreamHandle {
   // Increased default: some runs take >15s to start streaming
   const connectTimeoutMs = Math.max(1000, opts.connectTimeoutMs ?? 45_000);
   const idleTimeoutMs = Math.max(5000, opts.idleTimeoutMs ?? 60_000);
@@ -73,50 +140,68 @@ export function streamResearch(
     }
   }
 
-  // "connected" now means "we have response headers"
-  let connected = false;
-  let connectTimer: ReturnType<typeof setTimeout> | null = null;
-  let idleTimer: ReturnType<typeof setTimeout> | null = null;
-
-  const resetIdle = () => {
-    if (idleTimer) clearTimeout(idleTimer);
-    idleTimer = setTimeout(() => {
-      tryAbort(ac, new DOMException("Idle timeout", "AbortError"));
-    }, idleTimeoutMs);
-  };
+  let run: Resume | null = resume;
+  let ended = false; // saw `done` or `error`
 
   const onEvent = (msg: ResearchSSEMessage) => {
-    resetIdle();
+    if (msg.event === "done" || msg.event === "error") ended = true;
     opts.onEvent?.(msg);
   };
 
-  const done = (async () => {
+  // One connection. Resolves when the body ends; throws on transport errors
+  // and timeouts (which only abort this attempt). Returns whether any events
+  // arrived.
+  const connect = async (): Promise<boolean> => {
+    const attempt = new AbortController();
+    const onAbort = () => tryAbort(attempt, ac.signal.reason);
+    ac.signal.addEventListener("abort", onAbort, { once: true });
+
+    // "connected" now means "we have response headers"
+    let connected = false;
+    let received = false;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    const resetIdle = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        tryAbort(attempt, new DOMException("Idle timeout", "AbortError"));
+      }, idleTimeoutMs);
+    };
+
+    // Watchdog for time-to-response-headers
+    const connectTimer = setTimeout(() => {
+      if (!connected) {
+        tryAbort(attempt, new DOMException("Connect timeout (headers)", "AbortError"));
+      }
+    }, connectTimeoutMs);
+
     try {
-      // Watchdog for time-to-response-headers
-      connectTimer = setTimeout(() => {
-        if (!connected) {
-          tryAbort(ac, new DOMException("Connect timeout (headers)", "AbortError"));
-        }
-      }, connectTimeoutMs);
-
-      const res = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          // Hint to the server that we expect SSE
-          Accept: "text/event-stream",
-          ...(opts.headers ?? {}),
-        },
-        body: JSON.stringify(parsed.data),
-        signal: ac.signal,
-        cache: "no-store",
-      });
+      const res = run
+        ? await fetch(`/api/runs/${run.runId}/events`, {
+            method: "GET",
+            headers: {
+              Accept: "text/event-stream",
+              ...(run.lastEventId ? { "Last-Event-ID": run.lastEventId } : {}),
+              ...(opts.headers ?? {}),
+            },
+            signal: attempt.signal,
+            cache: "no-store",
+          })
+        : await fetch(endpoint!, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              // Hint to the server that we expect SSE
+              Accept: "text/event-stream",
+              ...visitorHeaders(),
+              ...(opts.headers ?? {}),
+            },
+            body: JSON.stringify(body),
+            signal: attempt.signal,
+            cache: "no-store",
+          });
 
       // We have response headers → clear connect watchdog and mark connected
-      if (connectTimer) {
-        clearTimeout(connectTimer);
-        connectTimer = null;
-      }
+      clearTimeout(connectTimer);
       connected = true;
 
       if (!res.ok) {
@@ -129,7 +214,7 @@ export function streamResearch(
             }`.trim(),
           },
         });
-        return;
+        return received;
       }
 
       const reader = res.body?.getReader?.();
@@ -138,11 +223,27 @@ export function streamResearch(
           event: "error",
           data: { message: "Streaming not supported by the response body." },
         });
-        return;
+        return received;
       }
 
       const dec = new TextDecoder();
       const sse = createSSEDecoder();
+      const handle = (evt: DecodedSSE) => {
+        if (evt.event === "run") {
+          const data = evt.data as RunEvent | undefined;
+          if (data?.runId) {
+            run = { runId: data.runId, lastEventId: run?.lastEventId ?? null };
+          }
+        }
+        if (evt.id) {
+          received = true;
+          if (run) run.lastEventId = evt.id;
+        }
+        const msg = toResearchMessage(evt);
+        if (msg) onEvent(msg);
+        // Reported after the event is handled: the cursor means "applied"
+        if (run && (evt.id || evt.event === "run")) opts.onRun?.({ ...run });
+      };
 
       // Start idle timer; it resets as events arrive
       resetIdle();
@@ -153,40 +254,64 @@ export function streamResearch(
         if (done) break;
 
         if (value) {
-          const chunk = dec.decode(value, { stream: true });
-          const events = sse.push(chunk);
-
-          for (const evt of events) {
-            const msg = toResearchMessage(evt);
-            if (msg) onEvent(msg);
+          // Any bytes count, heartbeats included: a run paused for plan
+          // review sends nothing else for minutes
+          resetIdle();
+          for (const evt of sse.push(dec.decode(value, { stream: true }))) {
+            handle(evt);
           }
         }
       }
 
       // Flush any trailing block (rare)
-      const tail = sse.flush?.() ?? [];
-      for (const evt of tail) {
-        const msg = toResearchMessage(evt);
-        if (msg) onEvent(msg);
+      for (const evt of sse.flush?.() ?? []) handle(evt);
+      return received;
+    } finally {
+      clearTimeout(connectTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      ac.signal.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const done = (async () => {
+    let failures = 0;
+    while (true) {
+      let lost: string | null = null;
+      try {
+        if (await connect()) failures = 0;
+      } catch (err: any) {
+        if (ac.signal.aborted) return;
+        lost = err?.name === "AbortError" ? null : String(err?.message ?? err);
+      }
+      if (ended || ac.signal.aborted) return;
+
+      // Not a run (or it never announced itself): nothing to resume
+      if (!run) {
+        if (lost) onEvent({ event: "error", data: { message: lost } });
+        return;
       }
-    } catch (err: any) {
-      if (err?.name !== "AbortError") {
+      if (++failures > MAX_RECONNECTS) {
         onEvent({
           event: "error",
-          data: { message: String(err?.message ?? err) },
+          data: { message: lost ?? "Lost connection to the research run" },
         });
+        return;
       }
-    } finally {
-      if (connectTimer) clearTimeout(connectTimer);
-      if (idleTimer) clearTimeout(idleTimer);
+      await sleep(Math.min(10_000, 500 * 2 ** failures), ac.signal);
     }
   })();
 
+  const abort = (reason?: string) =>
+    tryAbort(ac, reason ? new DOMException(reason, "AbortError") : undefined);
+
   return {
     controller,
     done,
-    abort: (reason?: string) =>
-      tryAbort(ac, reason ? new DOMException(reason, "AbortError") : undefined),
+    abort,
+    cancel: (reason?: string) => {
+      if (run && !ended) cancelRun(run.runId);
+      abort(reason);
+    },
   };
 }
 
@@ -196,35 +321,185 @@ export function streamResearch(
 export function startResearchWithStore(
   req: ResearchRequest,
   opts?: Omit<StreamOptions, "onEvent">
+): StreamHandle {
+  return runWithStore(
+    { question: req.question, threadId: req.threadId },
+    (streamOpts) => streamResearch(req, { ...opts, ...streamOpts }),
+    opts?.abortSignal
+  );
+}
+
+/**
+ * Convenience: regenerate the current answer and stream it into the store.
+ * The question and thread stay; answer, sources and claims are replaced.
+ */
+export function startRegenerateWithStore(
+  req: RegenerateRequest,
+  opts?: Omit<StreamOptions, "onEvent">
+): StreamHandle {
+  const { question, threadId } = useResearchStore.getState();
+  return runWithStore(
+    { question, threadId: threadId ?? undefined },
+    (streamOpts) => streamRegenerate(req, { ...opts, ...streamOpts }),
+    opts?.abortSignal
+  );
+}
+
+/**
+ * Reattach the store to the run this tab started, if there is one: after
+ * the form remounts the store still holds the run and continues from its
+ * last event; after a reload only sessionStorage does, so the store starts
+ * over and the run replays from its first event. Resolves to null when
+ * there is nothing to reattach to.
+ */
+export async function resumeRunWithStore(
+  opts?: Omit<StreamOptions, "onEvent" | "onRun">
+): Promise<StreamHandle | null> {
+  const s = useResearchStore.getState();
+  if (s.runId && !["idle", "done", "error"].includes(s.stage)) {
+    const { runId, lastEventId } = s;
+    return runWithStore(
+      { question: s.question, threadId: s.threadId ?? undefined },
+      (streamOpts) =>
+        attachRun(runId, {
+          ...opts,
+          ...streamOpts,
+          lastEventId: lastEventId ?? undefined,
+        }),
+      opts?.abortSignal,
+      { keepState: true }
+    );
+  }
+
+  const saved = loadActiveRun();
+  if (!saved) return null;
+  // Gone (e.g. a reset database): forget it rather than show an error
+  const res = await fetch(`/api/runs/${saved.runId}`, { cache: "no-store" }).catch(
+    () => null
+  );
+  if (!res?.ok) {
+    if (res?.status === 404) clearActiveRun();
+    return null;
+  }
+  return runWithStore(
+    { question: saved.question, threadId: saved.threadId ?? undefined },
+    (streamOpts) => attachRun(saved.runId, { ...opts, ...streamOpts }),
+    opts?.abortSignal
+  );
+}
+
+/**
+ * Anonymous per-browser id for the server's usage ledger (x-visitor-id).
+ * Created on first use; no header when storage is unavailable.
+ */
+export function visitorHeaders(): Record<string, string> {
+  try {
+    let id = localStorage.getItem(VISITOR_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(VISITOR_KEY, id);
+    }
+    return { "x-visitor-id": id };
+  } catch {
+    return {};
+  }
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+const VISITOR_KEY = "research-visitor-id";
+// The unfinished run this tab started (survives reloads, not new tabs)
+const ACTIVE_RUN_KEY = "research-active-run";
+
+type ActiveRun = RunCursor & { question: string; threadId: string | null };
+
+function runWithStore(
+  run: { question: string; threadId?: string },
+  stream: (
+    opts: Pick<StreamOptions, "abortSignal" | "onEvent" | "onRun">
+  ) => StreamHandle,
+  abortSignal?: AbortSignal,
+  opts: { keepState?: boolean } = {}
 ): StreamHandle {
   const store = useResearchStore.getState();
   const ac = new AbortController();
 
-  // Start run in store (sets initial state)
-  store.start({ question: req.question, abortController: ac });
+  if (opts.keepState) {
+    // Reattaching: what the store already shows stays
+    store.setAbortController(ac);
+  } else {
+    // Start run in store (sets initial state)
+    store.start({
+      question: run.question,
+      abortController: ac,
+      threadId: run.threadId,
+    });
+  }
 
-  const handle = streamResearch(req, {
-    ...opts,
-    abortSignal: opts?.abortSignal ?? ac.signal,
+  const handle = stream({
+    abortSignal: abortSignal ?? ac.signal,
     onEvent: (msg) => {
       store.handleSSE(msg as any);
+      if (msg.event === "done" || msg.event === "error") clearActiveRun();
+    },
+    onRun: (cursor) => {
+      store.setRunCursor(cursor.runId, cursor.lastEventId);
+      saveActiveRun({
+        ...cursor,
+        question: run.question,
+        threadId: run.threadId ?? null,
+      });
     },
   });
 
   return {
     controller: handle.controller,
     done: handle.done.then(() => {
-      // If run finished without a 'done' event, set to done to avoid stuck UI
       const s = useResearchStore.getState();
+      // Closed before the run ended (unmount): it carries on server-side
+      // and resumeRunWithStore() picks it up again
+      if (handle.controller.signal.aborted && s.runId && s.stage !== "error") {
+        return;
+      }
+      // If run finished without a 'done' event, set to done to avoid stuck UI
       if (s.stage !== "done" && s.stage !== "error") {
         s.finish();
       }
     }),
     abort: handle.abort,
+    cancel: (reason?: string) => {
+      clearActiveRun();
+      handle.cancel(reason);
+    },
   };
 }
 
-/* -------------------------------- Internals -------------------------------- */
+function saveActiveRun(run: ActiveRun) {
+  try {
+    sessionStorage.setItem(ACTIVE_RUN_KEY, JSON.stringify(run));
+  } catch {
+    // storage unavailable: no reattach after a reload
+  }
+}
+
+function loadActiveRun(): ActiveRun | null {
+  try {
+    const run = JSON.parse(sessionStorage.getItem(ACTIVE_RUN_KEY) ?? "null");
+    return typeof run?.runId === "string" && typeof run?.question === "string"
+      ? run
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function clearActiveRun() {
+  try {
+    sessionStorage.removeItem(ACTIVE_RUN_KEY);
+  } catch {
+    // ignore
+  }
+}
 
 function tryAbort(ac: AbortController, reason?: any) {
   try {
@@ -234,6 +509,27 @@ function tryAbort(ac: AbortController, reason?: any) {
   }
 }
 
+// Fire-and-forget: survives the page going away
+function cancelRun(runId: string) {
+  fetch(`/api/runs/${runId}`, { method: "DELETE", keepalive: true }).catch(
+    () => {}
+  );
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
 function safeText(res: Response): Promise<string | null> {
   return res
     .text()
@@ -249,9 +545,13 @@ function toResearchMessage(evt: DecodedSSE): ResearchSSEMessage | null {
   const name = (evt.event || "message").trim();
 
   switch (name) {
+    case "run":
+      return { event: "run", data: evt.data as RunEvent };
     case "progress":
       // Expect { stage, message?, meta? }
       return { event: "progress", data: (evt.data ?? {}) as ProgressEvent };
+    case "plan":
+      return { event: "plan", data: evt.data as PlanReviewEvent };
     case "token":
       return { event: "token", data: String(evt.data ?? "") };
     case "sources":
@@ -261,6 +561,8 @@ function toResearchMessage(evt: DecodedSSE): ResearchSSEMessage | null {
         event: "claims",
         data: (evt.data ?? { claims: [] }) as VerifyClaimsResponse,
       };
+    case "usage":
+      return { event: "usage", data: evt.data as UsageSummary };
     case "done":
       return { event: "done", data: (evt.data ?? {}) as DoneEvent };
     case "error":
@@ -11,8 +11,12 @@ import {
 import type {
   SearchResult,
   VerifyClaimsResponse,
-  SourceRef,
+  ThreadSource,
+  ThreadAnswer,
+  ThreadListResponse,
+  PlanReviewDecision,
 } from '@/features/research/types';
+import { visitorHeaders } from './api';
 
 /* --------------------------------- Errors --------------------------------- */
 
@@ -32,10 +36,12 @@ async function jsonFetch<T>(
   input: RequestInfo,
   init?: RequestInit & { signal?: AbortSignal }
 ): Promise<T> {
+  // Multipart bodies need the browser-generated boundary header
+  const isForm = typeof FormData !== 'undefined' && init?.body instanceof FormData;
   const res = await fetch(input, {
     ...init,
     headers: {
-      'Content-Type': 'application/json',
+      ...(isForm ? {} : { 'Content-Type': 'application/json' }),
       ...(init?.headers ?? {}),
     },
     cache: 'no-store',
@@ -66,9 +72,15 @@ export const qk = {
   search: (query: string, params?: SearchParams) =>
     ['search', query, params ?? {}] as const,
   threadSources: (threadId: string) => ['thread', threadId, 'sources'] as const,
+  threads: (params?: ThreadListParams) => ['threads', params ?? {}] as const,
+  thread: (threadId: string, messageId?: string) =>
+    ['thread', threadId, 'answer', messageId ?? 'latest'] as const,
   // mutations (not used as keys, but kept for consistency)
   verifyClaims: () => ['verify-claims'] as const,
   ingestUrls: () => ['ingest-urls'] as const,
+  uploadFiles: () => ['upload-files'] as const,
+  planReview: () => ['plan-review'] as const,
+  verifyMessage: () => ['verify-message'] as const,
 };
 
 /* ---------------------------------- Types ---------------------------------- */
@@ -82,14 +94,36 @@ export type SearchParams = {
   disallowedDomains?: string[];
 };
 
+// Threads
+export type ThreadListParams = {
+  q?: string;
+  from?: string; // YYYY-MM-DD or ISO
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
 // Verify
 export type Snippet = { sourceId: string; chunkId?: string; text: string };
 export type VerifyPayload = { answerMarkdown: string; snippets: Snippet[] };
+export type VerifyMessagePayload = { threadId: string; messageId: string };
 
 // Ingest
 export type IngestPayload = { urls: string[] };
 export type IngestResponse = { sourceIds: string[] };
 
+// Upload
+export type UploadResult = {
+  filename: string;
+  status: 'ok' | 'exists' | 'error';
+  sourceId?: string;
+  kind?: string;
+  pages?: number;
+  chunks?: number;
+  message?: string;
+};
+export type UploadResponse = { results: UploadResult[]; sourceIds: string[] };
+
 /* --------------------------------- Queries --------------------------------- */
 
 /**
@@ -138,10 +172,10 @@ export function useSearchQuery(
 }
 
 /**
- * GET /api/thread/:id/sources (optional if you implement it)
- * If you don’t have this route, remove or update accordingly.
+ * GET /api/thread/:id/sources
+ * Returns ThreadSource[] (SourceRef + crawl date, chunk/claim/citation counts)
  */
-export function useThreadSources<T = SourceRef[]>(
+export function useThreadSources<T = ThreadSource[]>(
   threadId: string | null | undefined,
   options?: Omit<UseQueryOptions<T, ApiError, T, QueryKey>, 'queryKey' | 'queryFn'>
 ) {
@@ -153,6 +187,52 @@ export function useThreadSources<T = SourceRef[]>(
   });
 }
 
+/**
+ * GET /api/threads
+ * Query: q (title), from/to (dates), limit/offset
+ * Returns ThreadListResponse (newest first)
+ */
+export function useThreads(
+  params?: ThreadListParams,
+  options?: Omit<
+    UseQueryOptions<ThreadListResponse, ApiError, ThreadListResponse, QueryKey>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<ThreadListResponse, ApiError>({
+    queryKey: qk.threads(params),
+    queryFn: ({ signal }) =>
+      jsonFetch<ThreadListResponse>(`/api/threads${toQueryString(params)}`, {
+        signal,
+      }),
+    ...options,
+  });
+}
+
+/**
+ * GET /api/threads/:id
+ * Returns a ResearchAnswer-shaped ThreadAnswer (latest turn unless messageId)
+ */
+export function useThread(
+  threadId: string | null | undefined,
+  messageId?: string,
+  options?: Omit<
+    UseQueryOptions<ThreadAnswer, ApiError, ThreadAnswer, QueryKey>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery<ThreadAnswer, ApiError>({
+    queryKey: qk.thread(String(threadId || ''), messageId),
+    enabled: !!threadId,
+    queryFn: ({ signal }) =>
+      jsonFetch<ThreadAnswer>(
+        `/api/threads/${threadId}${toQueryString({ messageId })}`,
+        { signal }
+      ),
+    ...options,
+  });
+}
+
 /* -------------------------------- Mutations -------------------------------- */
 
 /**
@@ -193,8 +273,80 @@ export function useIngestUrlsMutation(
   });
 }
 
+/**
+ * POST /api/ingest/upload
+ * Body: multipart form with `files` (PDF, DOCX, HTML, Markdown, TXT)
+ * Returns { results, sourceIds }
+ */
+export function useUploadFilesMutation(
+  options?: UseMutationOptions<UploadResponse, ApiError, File[]>
+) {
+  return useMutation<UploadResponse, ApiError, File[]>({
+    mutationKey: qk.uploadFiles(),
+    mutationFn: (files) => {
+      const form = new FormData();
+      for (const f of files) form.append('files', f);
+      return jsonFetch<UploadResponse>('/api/ingest/upload', {
+        method: 'POST',
+        body: form,
+      });
+    },
+    ...options,
+  });
+}
+
+/**
+ * POST /api/research/plan
+ * Body: PlanReviewDecision (reviewId from the `plan` SSE event)
+ * Resumes the paused run; 404 once it is no longer waiting
+ */
+export function usePlanReviewMutation(
+  options?: UseMutationOptions<{ ok: true }, ApiError, PlanReviewDecision>
+) {
+  return useMutation<{ ok: true }, ApiError, PlanReviewDecision>({
+    mutationKey: qk.planReview(),
+    mutationFn: (decision) =>
+      jsonFetch<{ ok: true }>('/api/research/plan', {
+        method: 'POST',
+        body: JSON.stringify(decision),
+      }),
+    ...options,
+  });
+}
+
+/**
+ * POST /api/threads/:id/verify
+ * Body: { messageId } of an answer whose run skipped verification
+ * Returns VerifyClaimsResponse (`skipped` still set if nothing verified)
+ */
+export function useVerifyMessageMutation(
+  options?: UseMutationOptions<VerifyClaimsResponse, ApiError, VerifyMessagePayload>
+) {
+  return useMutation<VerifyClaimsResponse, ApiError, VerifyMessagePayload>({
+    mutationKey: qk.verifyMessage(),
+    mutationFn: ({ threadId, messageId }) =>
+      jsonFetch<VerifyClaimsResponse>(`/api/threads/${threadId}/verify`, {
+        method: 'POST',
+        headers: visitorHeaders(),
+        body: JSON.stringify({ messageId }),
+      }),
+    ...options,
+  });
+}
+
 /* --------------------------- Optional: helpers ----------------------------- */
 
+function toQueryString(params?: Record<string, unknown>): string {
+  if (!params) return '';
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined || v === null || v === '') continue;
+    sp.set(k, String(v));
+  }
+  const s = sp.toString();
+  return s ? `?${s}` : '';
+}
+
 /**
  * Helper to safely stringify query keys/params for logs or debugging.
  */
@@ -3,7 +3,14 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { ProgressStage, VerifyClaimsResponse, SourceRef } from '@/features/research/types';
+import type {
+  PlanReviewEvent,
+  ProgressStage,
+  VerifyClaimsResponse,
+  SourceRef,
+  ThreadAnswer,
+  UsageSummary,
+} from '@/features/research/types';
 
 type ProgressLogItem = {
   stage: ProgressStage;
@@ -20,6 +27,9 @@ type UIState = {
 type ResearchState = {
   // Run/session
   threadId: string | null;
+  messageId: string | null; // assistant message of the answer shown
+  runId: string | null; // detached run being streamed (reattach with lastEventId)
+  lastEventId: string | null;
   question: string;
   stage: ProgressStage | 'idle';
   startedAt: number | null;
@@ -30,9 +40,13 @@ type ResearchState = {
   answerMarkdown: string;
   tokensAppended: number;
 
+  // Plan awaiting the user's review (run paused server-side)
+  pendingPlan: PlanReviewEvent | null;
+
   // Results
   sources: SourceRef[];
   claims: VerifyClaimsResponse | null;
+  usage: UsageSummary | null; // tokens, calls and estimated cost of the run
 
   // Errors
   error: string | null;
@@ -49,18 +63,27 @@ type ResearchState = {
 
 type ResearchActions = {
   // Lifecycle
-  start: (args: { question: string; abortController?: AbortController }) => void;
+  start: (args: {
+    question: string;
+    abortController?: AbortController;
+    threadId?: string; // keep thread for follow-ups
+  }) => void;
   reset: () => void;
   finish: (threadId?: string) => void;
   cancel: (reason?: string) => void;
+  restore: (answer: ThreadAnswer) => void; // load a past run (history)
 
   // Mutations
   setStage: (stage: ProgressStage, message?: string) => void;
   appendToken: (delta: string) => void;
+  setPendingPlan: (plan: PlanReviewEvent | null) => void;
   setSources: (sources: SourceRef[]) => void;
   setClaims: (claims: VerifyClaimsResponse) => void;
+  setUsage: (usage: UsageSummary | null) => void;
   setError: (msg: string) => void;
   setThreadId: (id: string) => void;
+  setMessageId: (id: string | null) => void;
+  setRunCursor: (runId: string, lastEventId: string | null) => void;
   setQuestion: (q: string) => void;
   setAbortController: (ac: AbortController | null) => void;
 
@@ -85,6 +108,9 @@ const initialUI: UIState = {
 
 const initialState: ResearchState = {
   threadId: null,
+  messageId: null,
+  runId: null,
+  lastEventId: null,
   question: '',
   stage: 'idle',
   startedAt: null,
@@ -94,8 +120,11 @@ const initialState: ResearchState = {
   answerMarkdown: '',
   tokensAppended: 0,
 
+  pendingPlan: null,
+
   sources: [],
   claims: null,
+  usage: null,
 
   error: null,
 
@@ -112,9 +141,10 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
       ...initialState,
 
       // Lifecycle
-      start: ({ question, abortController }) => {
+      start: ({ question, abortController, threadId }) => {
         set(() => ({
           ...initialState,
+          threadId: threadId ?? null,
           question,
           stage: 'plan',
           startedAt: Date.now(),
@@ -128,6 +158,7 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
       finish: (threadId) =>
         set((s) => ({
           stage: 'done',
+          pendingPlan: null,
           threadId: threadId ?? s.threadId,
           endedAt: Date.now(),
           lastEventAt: Date.now(),
@@ -142,6 +173,7 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
         }
         set(() => ({
           stage: 'error',
+          pendingPlan: null,
           error: reason ?? 'Cancelled by user',
           endedAt: Date.now(),
           lastEventAt: Date.now(),
@@ -149,6 +181,19 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
         }));
       },
 
+      restore: (answer) =>
+        set(() => ({
+          ...initialState,
+          threadId: answer.threadId,
+          messageId: answer.messageId,
+          question: answer.question,
+          stage: 'done',
+          answerMarkdown: answer.markdown,
+          sources: answer.sourceRefs,
+          claims: { claims: answer.claims, skipped: answer.verifySkipped },
+          lastEventAt: Date.now(),
+        })),
+
       // Mutations
       setStage: (stage, message) =>
         set((s) => ({
@@ -164,6 +209,12 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
           lastEventAt: Date.now(),
         })),
 
+      setPendingPlan: (plan) =>
+        set(() => ({
+          pendingPlan: plan,
+          lastEventAt: Date.now(),
+        })),
+
       setSources: (sources) =>
         set(() => ({
           sources: Array.isArray(sources) ? sources : [],
@@ -176,10 +227,13 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
           lastEventAt: Date.now(),
         })),
 
+      setUsage: (usage) => set(() => ({ usage, lastEventAt: Date.now() })),
+
       setError: (msg) =>
         set(() => ({
           error: msg,
           stage: 'error',
+          pendingPlan: null,
           endedAt: Date.now(),
           lastEventAt: Date.now(),
         })),
@@ -190,6 +244,10 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
           lastEventAt: Date.now(),
         })),
 
+      setMessageId: (id) => set(() => ({ messageId: id })),
+
+      setRunCursor: (runId, lastEventId) => set(() => ({ runId, lastEventId })),
+
       setQuestion: (q) => set(() => ({ question: q })),
 
       setAbortController: (ac) => set(() => ({ abortController: ac })),
@@ -216,6 +274,10 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
           case 'progress':
             a.setStage(data?.stage as ProgressStage, data?.message);
             break;
+          case 'plan':
+            if (data?.threadId) a.setThreadId(String(data.threadId));
+            a.setPendingPlan((data ?? null) as PlanReviewEvent | null);
+            break;
           case 'token':
             a.appendToken(String(data ?? ''));
             break;
@@ -225,8 +287,12 @@ export const useResearchStore = create<ResearchState & ResearchActions>()(
           case 'claims':
             a.setClaims((data ?? null) as VerifyClaimsResponse);
             break;
+          case 'usage':
+            a.setUsage((data ?? null) as UsageSummary | null);
+            break;
           case 'done':
             if (data?.threadId) a.setThreadId(String(data.threadId));
+            if (data?.messageId) a.setMessageId(String(data.messageId));
             a.finish();
             break;
           case 'error':
@@ -247,5 +313,6 @@ export const useResearchStage = () => useResearchStore((s) => s.stage);
 export const useResearchAnswer = () => useResearchStore((s) => s.answerMarkdown);
 export const useResearchSources = () => useResearchStore((s) => s.sources);
 export const useResearchClaims = () => useResearchStore((s) => s.claims);
+export const useResearchUsage = () => useResearchStore((s) => s.usage);
 export const useResearchError = () => useResearchStore((s) => s.error);
 export const useResearchUI = () => useResearchStore((s) => s.ui);
\ No newline at end of file
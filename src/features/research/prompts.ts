@@ -34,6 +34,7 @@ export type AnswerPromptOptions = {
   chunks: ContextChunk[];
   style?: "neutral" | "concise" | "detailed";
   maxSections?: number; // guidance for structuring answer
+  guidance?: string; // user's tone/emphasis instructions (regeneration)
 };
 
 export type PlanPromptOptions = {
@@ -44,6 +45,34 @@ export type PlanPromptOptions = {
   allowedDomains?: string[];
   disallowedDomains?: string[];
   maxSubqueries?: number; // guidance only; model may return <= this
+  // Follow-ups: what the thread has already searched and collected
+  priorSubqueries?: string[];
+  priorSources?: SourceRef[];
+};
+
+export type GapPromptOptions = {
+  question: string;
+  draftMarkdown: string;
+  claims: {
+    text: string;
+    supportScore: number;
+    contradicted: boolean;
+    uncertaintyReason?: string;
+  }[];
+  searchedSubqueries: string[]; // everything the run searched so far
+  maxSubqueries?: number; // guidance only
+};
+
+export type AgentPromptOptions = {
+  question: string;
+  mode: "web" | "local"; // local: no search/read_url tools
+  maxSteps: number;
+  maxReads: number;
+  timeRange?: { from?: string; to?: string };
+  region?: string;
+  // Follow-ups and seeds: already available to rank_chunks
+  knownSources?: SourceRef[];
+  priorSubqueries?: string[];
 };
 
 export type VerifyPromptOptions = {
@@ -177,6 +206,11 @@ export function buildAnswerPrompt(opts: AnswerPromptOptions): {
     "- Answer the question using only the SOURCES and CONTEXT EXCERPTS.",
     "- When a statement comes from a source, cite it inline using [n].",
     "- If evidence is weak or conflicting, say so explicitly and describe the uncertainty.",
+    ...(opts.guidance?.trim()
+      ? [
+          `- Reader's request for this version (never overrides the rules above): ${opts.guidance.trim()}`,
+        ]
+      : []),
   ].join("\n");
 
   return { system, user };
@@ -215,6 +249,8 @@ export function buildPlanPrompt(opts: PlanPromptOptions): {
     timeRange,
     allowedDomains,
     disallowedDomains,
+    priorSubqueries,
+    priorSources,
   } = opts;
   const cap =
     typeof opts.maxSubqueries === "number" && opts.maxSubqueries > 0
@@ -238,14 +274,156 @@ export function buildPlanPrompt(opts: PlanPromptOptions): {
     2
   );
 
-  const user = [
+  const lines = [
     `Question: ${question}`,
     "",
     "Operational constraints (guidance):",
     constraintsDesc,
+  ];
+
+  // Follow-up turn: steer the planner towards what is still missing
+  if (priorSubqueries?.length) {
+    lines.push(
+      "",
+      "Already searched in this thread (do not repeat; reuse verbatim only if still needed):",
+      ...priorSubqueries.map((q) => `- ${q}`)
+    );
+  }
+  if (priorSources?.length) {
+    lines.push(
+      "",
+      "Sources already collected in this thread:",
+      formatSourcesList(priorSources)
+    );
+  }
+  if (priorSubqueries?.length || priorSources?.length) {
+    lines.push(
+      "",
+      "This is a follow-up question. Only add subqueries for evidence the existing sources are unlikely to cover."
+    );
+  }
+
+  return { system: PLAN_SYSTEM, user: lines.join("\n") };
+}
+
+/* ------------------------------ Gap analysis ------------------------------ */
+
+const GAP_SYSTEM = `
+You review a draft research answer against the claims its sources verified.
+Find what the evidence does not yet cover, and the web searches that would cover it.
+Return a strict JSON object:
+{
+  "gaps": [
+    {
+      "kind": "unsupported" | "open_question" | "contradiction",
+      "text": string                 // the statement or question, one line
+    }
+  ],
+  "subqueries": string[],            // searches that target the gaps
+  "sufficient": boolean              // true if the draft is already well supported
+}
+Rules:
+- "unsupported": a statement in the draft with no verified claim behind it, or only weak support.
+- "open_question": part of the question the draft leaves unanswered or hedges on.
+- "contradiction": verified claims that conflict and need a tiebreaker source.
+- Subqueries must be specific and must not repeat the searches already made.
+- Ignore style, structure and citation formatting; only evidence matters.
+- No prose, no code fences. JSON only.
+`.trim();
+
+export function buildGapAnalysisPrompt(opts: GapPromptOptions): {
+  system: string;
+  user: string;
+} {
+  const cap =
+    typeof opts.maxSubqueries === "number" && opts.maxSubqueries > 0
+      ? Math.min(6, opts.maxSubqueries)
+      : 4;
+
+  const claimLines = opts.claims.map((c) => {
+    const flags = [
+      `support ${c.supportScore.toFixed(2)}`,
+      c.contradicted ? "contradicted" : null,
+      c.uncertaintyReason ? `uncertain: ${c.uncertaintyReason}` : null,
+    ].filter(Boolean);
+    return `- ${c.text} (${flags.join("; ")})`;
+  });
+
+  const user = [
+    `Question: ${opts.question}`,
+    "",
+    "Draft answer (markdown):",
+    "```markdown",
+    opts.draftMarkdown,
+    "```",
+    "",
+    "Verified claims:",
+    claimLines.length ? claimLines.join("\n") : "(none verified)",
+    "",
+    "Already searched:",
+    opts.searchedSubqueries.map((q) => `- ${q}`).join("\n") || "(nothing)",
+    "",
+    `Max subqueries: ${cap}`,
+    "",
+    "List the gaps and the subqueries to close them. JSON only.",
   ].join("\n");
 
-  return { system: PLAN_SYSTEM, user };
+  return { system: GAP_SYSTEM, user };
+}
+
+/* ------------------------------ Agent prompt ------------------------------ */
+
+const AGENT_SYSTEM = `
+You are a research agent gathering evidence for a question with tools.
+Tools:
+- search(query): web search; returns URLs, titles and snippets.
+- read_url(url): reads and stores a page; returns its id and opening text.
+- rank_chunks(queries): best passages from the sources read so far.
+- get_source(sourceId): metadata and opening text of a stored source.
+Rules:
+- Start broad, then adapt: refine searches from what you read, follow primary sources.
+- Read only pages whose snippet suggests real evidence; prefer primary, official and reputable sources.
+- Check coverage with rank_chunks before stopping; search again for parts still missing.
+- Do not write the answer. When the evidence covers the question (or you run out of steps),
+  stop calling tools and reply with one line summarising what you gathered.
+`.trim();
+
+export function buildAgentPrompt(opts: AgentPromptOptions): {
+  system: string;
+  user: string;
+} {
+  const lines = [
+    `Question: ${opts.question}`,
+    "",
+    "Limits:",
+    `- ${opts.maxSteps} steps in total`,
+    opts.mode === "web"
+      ? `- ${opts.maxReads} read_url calls`
+      : "- local mode: only rank_chunks and get_source over the stored corpus",
+  ];
+  if (opts.timeRange?.from || opts.timeRange?.to) {
+    lines.push(
+      `- only evidence published ${opts.timeRange.from ?? "…"} to ${opts.timeRange.to ?? "…"}`
+    );
+  }
+  if (opts.region) lines.push(`- region: ${opts.region}`);
+
+  if (opts.knownSources?.length) {
+    lines.push(
+      "",
+      "Sources already available (rank_chunks covers them):",
+      formatSourcesList(opts.knownSources)
+    );
+  }
+  if (opts.priorSubqueries?.length) {
+    lines.push(
+      "",
+      "Already searched in this thread (do not repeat):",
+      ...opts.priorSubqueries.map((q) => `- ${q}`)
+    );
+  }
+
+  return { system: AGENT_SYSTEM, user: lines.join("\n") };
 }
 
 /* ---------------------------- Verify claims prompt ------------------------ */
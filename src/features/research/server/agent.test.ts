@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { readUrlRefusal } from "./agent";
+
+describe("readUrlRefusal", () => {
+  test("reads anything without domain rules", () => {
+    assert.equal(readUrlRefusal("https://example.com/a", {}), null);
+  });
+
+  test("refuses URLs outside the allow-list", () => {
+    const req = { allowedDomains: ["who.int", "https://nih.gov/"] };
+    assert.equal(readUrlRefusal("https://www.who.int/news", req), null);
+    assert.equal(readUrlRefusal("https://nih.gov/about", req), null);
+    assert.match(readUrlRefusal("https://blog.example.com/post", req) ?? "", /Only these domains/);
+    // A suffix that is not a subdomain does not count
+    assert.notEqual(readUrlRefusal("https://notwho.int/", req), null);
+  });
+
+  test("refuses excluded domains, even on the allow-list", () => {
+    const req = { allowedDomains: ["example.com"], disallowedDomains: ["spam.example.com"] };
+    assert.equal(readUrlRefusal("https://example.com/", req), null);
+    assert.match(readUrlRefusal("https://spam.example.com/x", req) ?? "", /excluded/);
+  });
+});
@@ -0,0 +1,380 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { asc, eq } from "drizzle-orm";
+import { stepCountIs, tool, type ModelMessage, type ToolSet } from "ai";
+import { z } from "zod";
+import { db } from "@/db";
+import { sources as sourcesTable, chunks as chunksTable } from "@/db/schema";
+import { env } from "@/lib/env";
+import { isWithinTimeRange } from "@/lib/dates";
+import { logger, logError, startSpan } from "@/lib/logger";
+import { buildAgentPrompt } from "../prompts";
+import type { ResearchRequest, SourceRef } from "../types";
+import type { DeepResearchEmitEvent, ProgressStage } from "./deepresearch";
+import { deepsearch, type SearchResult } from "./deepsearch";
+import { isAllowedUrl } from "./search/utils";
+import type { IngestedSource } from "./ingest";
+import { rankForQueries, type RankScope } from "./rank";
+import { streamCompletion } from "./groq";
+import { userText } from "./messages";
+import { normalizeQuery } from "./threads";
+
+/**
+ * Agent mode: instead of a fixed plan, the answer model browses with tools
+ * (search, read_url, rank_chunks, get_source) until it has enough evidence
+ * or runs out of steps. Every tool call and result is emitted as progress.
+ * The agent only gathers; the cited answer is drafted from what it read by
+ * the regular ranking and answer stages in deepresearch.ts.
+ */
+
+export type AgentBrowseArgs = {
+  req: ResearchRequest;
+  history: ModelMessage[];
+  knownSources: SourceRef[]; // seeds and the thread's earlier sources
+  priorQueries: string[];
+  // Ingest a URL (reader choice and retries are the caller's)
+  read: (url: string, hint: { title?: string | null; publishedAt?: string | null }) => Promise<IngestedSource>;
+  emit: (e: DeepResearchEmitEvent) => void;
+  signal?: AbortSignal;
+  maxSteps?: number; // default env.AGENT_MAX_STEPS
+};
+
+export type AgentBrowseResult = {
+  sources: SourceRef[]; // read by the agent, in read order, within the time range
+  queries: string[]; // searches and rank queries, for the final ranking
+  searches: { query: string; results: SearchResult[] }[];
+  steps: number;
+  stoppedEarly: boolean; // the model call failed; results are partial
+};
+
+const SEARCH_RESULTS = 6;
+const RANK_RESULTS = 6;
+const EXCERPT_CHARS = 1200;
+const SNIPPET_CHARS = 500;
+
+export async function browseWithTools(
+  args: AgentBrowseArgs
+): Promise<AgentBrowseResult> {
+  const { req, emit, signal } = args;
+  const log = logger.child({ mod: "agent" });
+  const span = startSpan(log, "agent");
+
+  const maxSteps = args.maxSteps ?? env.AGENT_MAX_STEPS;
+  const maxReads = env.MAX_SOURCES_INLINE;
+  const web = req.mode !== "local";
+
+  const read = new Map<string, SourceRef>(); // by source id
+  const searches: AgentBrowseResult["searches"] = [];
+  const queries: string[] = [];
+  const seen = new Set(args.priorQueries.map(normalizeQuery));
+  const urlMeta = new Map<string, { title?: string | null; publishedAt?: string | null }>();
+  let readCalls = 0;
+
+  const addQuery = (q: string) => {
+    const key = normalizeQuery(q);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    queries.push(q.trim());
+    return true;
+  };
+
+  // Ranking covers what the agent can cite: its reads plus known sources in
+  // web mode; the collection (or whole corpus) in local mode
+  const rankScope = (): RankScope | undefined =>
+    web
+      ? {
+          sourceIds: [...args.knownSources.map((s) => s.id), ...read.keys()],
+          collection: req.collection,
+        }
+      : req.collection
+      ? { collection: req.collection }
+      : undefined;
+
+  const tools: ToolSet = {
+    rank_chunks: tool({
+      description:
+        "Best passages for one or more queries from the sources read so far.",
+      inputSchema: z.object({
+        queries: z.array(z.string().min(2)).min(1).max(4),
+      }),
+      execute: async ({ queries: qs }) => {
+        const scope = rankScope();
+        if (web && !scope?.sourceIds?.length && !scope?.collection) {
+          return { error: "Nothing read yet; use search and read_url first." };
+        }
+        qs.forEach(addQuery);
+        const hits = await rankForQueries([req.question, ...qs], {
+          cap: RANK_RESULTS,
+          perQueryTake: RANK_RESULTS * 3,
+          diversifyBySource: true,
+          perSourceLimit: 2,
+          timeoutMs: env.REQUEST_TIMEOUT_MS,
+          scope,
+        });
+        return {
+          passages: hits.map((h) => ({
+            sourceId: h.sourceId,
+            chunkId: h.id,
+            text: clip(h.text, SNIPPET_CHARS),
+          })),
+        };
+      },
+    }),
+    get_source: tool({
+      description: "Metadata and opening text of a stored source, by id.",
+      inputSchema: z.object({ sourceId: z.string().min(1) }),
+      execute: async ({ sourceId }) => {
+        const found = await loadSource(sourceId);
+        return found ?? { error: `Unknown source: ${sourceId}` };
+      },
+    }),
+  };
+
+  if (web) {
+    tools.search = tool({
+      description: "Search the web. Returns URLs with titles and snippets.",
+      inputSchema: z.object({ query: z.string().min(2) }),
+      execute: async ({ query }) => {
+        if (!addQuery(query)) {
+          return { error: "Already searched; try a different query." };
+        }
+        const results = await deepsearch(query, {
+          size: SEARCH_RESULTS,
+          timeRange: req.timeRange,
+          allowedDomains: req.allowedDomains,
+          disallowedDomains: req.disallowedDomains,
+          region: req.region,
+          abortSignal: signal,
+        });
+        searches.push({ query, results });
+        for (const r of results) {
+          if (!urlMeta.has(r.url)) {
+            urlMeta.set(r.url, { title: r.title ?? null, publishedAt: r.publishedAt });
+          }
+        }
+        return {
+          results: results.map((r) => ({
+            url: r.url,
+            title: r.title ?? null,
+            snippet: clip(r.snippet ?? "", 200),
+            publishedAt: r.publishedAt ?? null,
+          })),
+        };
+      },
+    });
+    tools.read_url = tool({
+      description:
+        "Read a page and store it as a source. Returns its id and opening text.",
+      inputSchema: z.object({ url: z.string().url() }),
+      execute: async ({ url }) => {
+        const refusal = readUrlRefusal(url, req);
+        if (refusal) return { error: refusal };
+        if (readCalls >= maxReads) {
+          return { error: `Read limit (${maxReads}) reached; rank what you have.` };
+        }
+        readCalls++;
+        const s = await args.read(url, urlMeta.get(url) ?? {});
+        if (!isWithinTimeRange(s.publishedAt, req.timeRange)) {
+          return { error: "Published outside the requested time range; not used." };
+        }
+        read.set(s.sourceId, {
+          id: s.sourceId,
+          url: s.url,
+          title: s.title ?? null,
+          domain: s.domain ?? null,
+          publishedAt: s.publishedAt,
+        });
+        return (await loadSource(s.sourceId)) ?? { sourceId: s.sourceId };
+      },
+    });
+  }
+
+  const prompt = buildAgentPrompt({
+    question: req.question,
+    mode: web ? "web" : "local",
+    maxSteps,
+    maxReads,
+    timeRange: req.timeRange,
+    region: req.region,
+    knownSources: args.knownSources,
+    priorSubqueries: args.priorQueries,
+  });
+
+  let steps = 0;
+  let stoppedEarly = false;
+  try {
+    const result = streamCompletion({
+      model: "answer",
+      system: prompt.system,
+      messages: [...args.history, userText(prompt.user)],
+      temperature: 0.2,
+      maxOutputTokens: 600,
+      abortSignal: signal,
+      tools,
+      stopWhen: stepCountIs(maxSteps),
+    });
+
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "tool-call":
+          emit(toolProgress(part.toolName, steps + 1, maxSteps, { input: part.input }));
+          break;
+        case "tool-result":
+          emit(
+            toolProgress(part.toolName, steps + 1, maxSteps, {
+              input: part.input,
+              output: part.output,
+            })
+          );
+          break;
+        case "tool-error":
+          emit(
+            toolProgress(part.toolName, steps + 1, maxSteps, {
+              input: part.input,
+              error: String((part.error as any)?.message ?? part.error),
+            })
+          );
+          break;
+        case "finish-step":
+          steps++;
+          break;
+        case "error":
+          throw part.error;
+      }
+    }
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    // Whatever was read so far is still usable
+    logError(log, e, "agent browsing failed", { steps });
+    stoppedEarly = true;
+    emit({
+      event: "progress",
+      data: {
+        stage: "search",
+        message: "Agent stopped early; continuing with what it gathered",
+        meta: { steps, sources: read.size },
+      },
+    });
+  }
+
+  span.end({
+    steps,
+    searches: searches.length,
+    reads: readCalls,
+    sources: read.size,
+    stoppedEarly,
+  });
+  return {
+    sources: Array.from(read.values()),
+    queries,
+    searches,
+    steps,
+    stoppedEarly,
+  };
+}
+
+/* -------------------------------- Progress -------------------------------- */
+
+const TOOL_STAGE: Record<string, ProgressStage> = {
+  search: "search",
+  read_url: "read",
+  rank_chunks: "rank",
+  get_source: "read",
+};
+
+function toolProgress(
+  toolName: string,
+  step: number,
+  maxSteps: number,
+  call: { input: any; output?: any; error?: string }
+): DeepResearchEmitEvent {
+  const { input, output, error } = call;
+  const target =
+    toolName === "search"
+      ? `"${input?.query ?? ""}"`
+      : toolName === "read_url"
+      ? String(input?.url ?? "")
+      : toolName === "rank_chunks"
+      ? (input?.queries ?? []).map((q: string) => `"${q}"`).join(", ")
+      : String(input?.sourceId ?? "");
+
+  const failure = error ?? (typeof output?.error === "string" ? output.error : undefined);
+  const message =
+    failure !== undefined
+      ? `${toolName} ${target} failed: ${failure}`
+      : output === undefined
+      ? `Step ${step}/${maxSteps}: ${toolName} ${target}`
+      : toolName === "search"
+      ? `Found ${output.results?.length ?? 0} results for ${target}`
+      : toolName === "rank_chunks"
+      ? `Ranked ${output.passages?.length ?? 0} passages`
+      : `Read ${output.title ?? target}`;
+
+  return {
+    event: "progress",
+    data: {
+      stage: TOOL_STAGE[toolName] ?? "search",
+      message,
+      meta: {
+        agent: true,
+        tool: toolName,
+        step,
+        maxSteps,
+        input,
+        status: failure !== undefined ? "error" : output === undefined ? "call" : "result",
+        ...(failure !== undefined ? { error: failure } : {}),
+      },
+    },
+  };
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+async function loadSource(sourceId: string) {
+  const [s] = await db
+    .select({
+      id: sourcesTable.id,
+      url: sourcesTable.url,
+      title: sourcesTable.title,
+      domain: sourcesTable.domain,
+      publishedAt: sourcesTable.publishedAt,
+    })
+    .from(sourcesTable)
+    .where(eq(sourcesTable.id, sourceId))
+    .limit(1);
+  if (!s) return null;
+
+  const opening = await db
+    .select({ text: chunksTable.text })
+    .from(chunksTable)
+    .where(eq(chunksTable.sourceId, sourceId))
+    .orderBy(asc(chunksTable.pos))
+    .limit(2);
+  return {
+    sourceId: s.id,
+    url: s.url,
+    title: s.title,
+    domain: s.domain,
+    publishedAt: s.publishedAt,
+    excerpt: clip(opening.map((c) => c.text).join("\n"), EXCERPT_CHARS),
+  };
+}
+
+// Why read_url may not read this URL, if it may not: the same domain rules
+// the search results went through
+export function readUrlRefusal(
+  url: string,
+  req: Pick<ResearchRequest, "allowedDomains" | "disallowedDomains">
+): string | null {
+  if (!isAllowedUrl(url, { disallowed: req.disallowedDomains })) {
+    return "That domain is excluded for this question.";
+  }
+  if (!isAllowedUrl(url, { allowed: req.allowedDomains })) {
+    return `Only these domains may be read for this question: ${req.allowedDomains?.join(", ")}.`;
+  }
+  return null;
+}
+
+function clip(s: string, max: number): string {
+  return s.length > max ? s.slice(0, max).trimEnd() + "…" : s;
+}
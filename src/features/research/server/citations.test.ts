@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { db } from "@/db";
+import { chunks, sources } from "@/db/schema";
+import { migrateTestDb } from "@/test/db";
+import { parseCitationMarkers, resolveInlineCitations } from "./citations";
+
+describe("parseCitationMarkers", () => {
+  test("finds single, grouped and adjacent markers per sentence", () => {
+    const md =
+      "Solar output rose sharply [1]. Costs fell [2, 3]. Both held in 2024 [1][3].";
+    assert.deepEqual(parseCitationMarkers(md), [
+      { index: 1, sentence: "Solar output rose sharply." },
+      { index: 2, sentence: "Costs fell." },
+      { index: 3, sentence: "Costs fell." },
+      { index: 1, sentence: "Both held in 2024." },
+      { index: 3, sentence: "Both held in 2024." },
+    ]);
+  });
+
+  test("skips markdown links, zero and repeated indexes", () => {
+    const md = "See [1](https://example.com) and [0]. Twice [2] over [2].";
+    assert.deepEqual(parseCitationMarkers(md), [
+      { index: 2, sentence: "Twice over." },
+    ]);
+  });
+
+  test("leaves no space before punctuation where a marker was", () => {
+    assert.deepEqual(parseCitationMarkers("Prices [1], then volumes [2]; both rose [3]!"), [
+      { index: 1, sentence: "Prices, then volumes; both rose!" },
+      { index: 2, sentence: "Prices, then volumes; both rose!" },
+      { index: 3, sentence: "Prices, then volumes; both rose!" },
+    ]);
+  });
+
+  test("returns nothing for text without markers", () => {
+    assert.deepEqual(parseCitationMarkers(""), []);
+    assert.deepEqual(parseCitationMarkers("No sources here."), []);
+  });
+});
+
+describe("resolveInlineCitations", () => {
+  const chunkText =
+    "The plant opened in 2019 after years of delay. " +
+    "Its output reached 40 megawatts by the end of 2023. " +
+    "Local officials expect a second phase soon.";
+
+  before(async () => {
+    await migrateTestDb();
+    await db.insert(sources).values({
+      id: "src-a",
+      url: "https://example.com/plant",
+      domain: "example.com",
+    });
+    await db.insert(chunks).values({
+      id: "chunk-a",
+      sourceId: "src-a",
+      pos: 0,
+      charStart: 0,
+      charEnd: chunkText.length,
+      text: chunkText,
+      tokens: 30,
+    });
+  });
+
+  const refs = [
+    { id: "src-a", url: "https://example.com/plant", index: 1 },
+  ];
+
+  test("binds each marker to the best matching sentence of its source", async () => {
+    const { resolved, unresolved } = await resolveInlineCitations(
+      "By the end of 2023 the plant's output reached 40 megawatts [1].",
+      refs,
+      [{ sourceId: "src-a", chunkId: "chunk-a", text: chunkText }]
+    );
+    assert.deepEqual(unresolved, []);
+    assert.equal(resolved.length, 1);
+    const [c] = resolved;
+    assert.equal(c.index, 1);
+    assert.equal(c.sourceId, "src-a");
+    assert.equal(c.chunkId, "chunk-a");
+    assert.equal(c.quote, "Its output reached 40 megawatts by the end of 2023.");
+    assert.equal(chunkText.slice(c.charStart, c.charEnd), c.quote);
+    assert.ok(c.score > 0.5);
+  });
+
+  test("binds offsets against the stored text when the prompt was shrunk", async () => {
+    const shrunk = "Its output reached 40 megawatts by the end of 2023.";
+    const {
+      resolved: [c],
+    } = await resolveInlineCitations(
+      "Output reached 40 megawatts [1].",
+      refs,
+      [{ sourceId: "src-a", chunkId: "chunk-a", text: shrunk }]
+    );
+    assert.equal(c.charStart, chunkText.indexOf(shrunk));
+  });
+
+  test("leaves markers outside the SOURCES list unresolved", async () => {
+    const { resolved, unresolved } = await resolveInlineCitations(
+      "Output reached 40 megawatts [2].",
+      refs,
+      [{ sourceId: "src-a", chunkId: "chunk-a", text: chunkText }]
+    );
+    assert.deepEqual(resolved, []);
+    assert.deepEqual(unresolved, [{ index: 2, sentence: "Output reached 40 megawatts." }]);
+  });
+
+  test("leaves markers unresolved when nothing in the source supports them", async () => {
+    const { resolved, unresolved } = await resolveInlineCitations(
+      "Wind turbines dominate coastal Denmark [1].",
+      refs,
+      [{ sourceId: "src-a", chunkId: "chunk-a", text: chunkText }]
+    );
+    assert.deepEqual(resolved, []);
+    assert.deepEqual(
+      unresolved.map((m) => m.index),
+      [1]
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import "server-only";
+import { inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  chunks as chunksTable,
+  citations as citationsTable,
+  type NewCitation,
+} from "@/db/schema";
+import { id as newId } from "@/lib/id";
+import { logger } from "@/lib/logger";
+import { findQuoteOffsets, splitSentences, stripMarkdown } from "@/lib/text";
+import type { ContextChunk, SourceRef } from "../types";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type InlineMarker = {
+  index: number; // the n in [n]
+  sentence: string; // answer sentence carrying the marker (markers stripped)
+};
+
+export type ResolvedCitation = {
+  index: number;
+  sourceId: string;
+  chunkId: string;
+  quote: string;
+  charStart: number; // chunk-relative, like claim_evidence
+  charEnd: number;
+  score: number; // 0..1 term overlap between answer sentence and quote
+};
+
+export type InlineCitations = {
+  resolved: ResolvedCitation[];
+  // Markers with no source, or nothing in its chunks that supports the sentence
+  unresolved: InlineMarker[];
+};
+
+// Below this share of the sentence's terms a quote does not back it up
+const MIN_OVERLAP = 0.2;
+
+/* ------------------------------- Main entry -------------------------------- */
+
+/**
+ * Resolve the [n] markers of an answer to quotes from the chunks that were in
+ * its prompt and persist them as `citations` rows for the message.
+ * `sources` must be the list the prompt was built from (SourceRef.index = n).
+ */
+export async function persistInlineCitations(args: {
+  messageId: string;
+  answerMarkdown: string;
+  sources: SourceRef[];
+  chunks: ContextChunk[];
+}): Promise<InlineCitations> {
+  const result = await resolveInlineCitations(
+    args.answerMarkdown,
+    args.sources,
+    args.chunks
+  );
+  const { resolved, unresolved } = result;
+  if (unresolved.length > 0) {
+    logger.child({ mod: "citations" }).warn(
+      { messageId: args.messageId, markers: unresolved.map((m) => m.index) },
+      "Inline citations without supporting text"
+    );
+  }
+  if (resolved.length === 0) return result;
+
+  const rows: NewCitation[] = resolved.map((c) => ({
+    id: newId(),
+    messageId: args.messageId,
+    sourceId: c.sourceId,
+    chunkId: c.chunkId,
+    quote: c.quote,
+    charStart: c.charStart,
+    charEnd: c.charEnd,
+    rankScore: c.score,
+  }));
+  await db.insert(citationsTable).values(rows).run();
+  return result;
+}
+
+export async function resolveInlineCitations(
+  answerMarkdown: string,
+  sources: SourceRef[],
+  promptChunks: ContextChunk[]
+): Promise<InlineCitations> {
+  const markers = parseCitationMarkers(answerMarkdown);
+  if (markers.length === 0) return { resolved: [], unresolved: [] };
+
+  const sourceByIndex = new Map<number, SourceRef>();
+  sources.forEach((s, i) => sourceByIndex.set(s.index ?? i + 1, s));
+
+  const chunksBySource = new Map<string, ContextChunk[]>();
+  for (const c of promptChunks) {
+    if (!c.chunkId) continue;
+    const bag = chunksBySource.get(c.sourceId) ?? [];
+    bag.push(c);
+    chunksBySource.set(c.sourceId, bag);
+  }
+
+  // Offsets are bound against the stored chunk text (prompt text may be shrunk)
+  const chunkIds = promptChunks
+    .map((c) => c.chunkId)
+    .filter((x): x is string => typeof x === "string" && x.length > 0);
+  const fullText = new Map<string, string>();
+  if (chunkIds.length) {
+    const rows = await db
+      .select({ id: chunksTable.id, text: chunksTable.text })
+      .from(chunksTable)
+      .where(inArray(chunksTable.id, Array.from(new Set(chunkIds))));
+    for (const r of rows) fullText.set(r.id, r.text);
+  }
+
+  const out: ResolvedCitation[] = [];
+  const unresolved: InlineMarker[] = [];
+  const seen = new Set<string>();
+
+  for (const m of markers) {
+    const src = sourceByIndex.get(m.index);
+    if (!src) {
+      unresolved.push(m); // hallucinated or out-of-range [n]
+      continue;
+    }
+    const candidates = chunksBySource.get(src.id) ?? [];
+    const terms = termSet(m.sentence);
+
+    let best: { chunk: ContextChunk; quote: string; score: number } | null =
+      null;
+    for (const c of candidates) {
+      for (const q of promptSentences(c.text)) {
+        const score = overlap(terms, termSet(q));
+        if (!best || score > best.score) best = { chunk: c, quote: q, score };
+      }
+    }
+    if (!best || best.score < MIN_OVERLAP || !best.chunk.chunkId) {
+      unresolved.push(m);
+      continue;
+    }
+
+    const hay = fullText.get(best.chunk.chunkId);
+    if (!hay) {
+      unresolved.push(m);
+      continue;
+    }
+    const offsets = findQuoteOffsets(hay, best.quote, {
+      ignoreCase: true,
+      ignoreWhitespace: true,
+      normalizeDashes: true,
+      normalizeQuotes: true,
+    });
+    if (!offsets) {
+      unresolved.push(m);
+      continue;
+    }
+
+    const key = `${m.index}:${best.chunk.chunkId}:${offsets.start}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    out.push({
+      index: m.index,
+      sourceId: src.id,
+      chunkId: best.chunk.chunkId,
+      quote: hay.slice(offsets.start, offsets.end),
+      charStart: offsets.start,
+      charEnd: offsets.end,
+      score: Number(best.score.toFixed(4)),
+    });
+  }
+
+  return { resolved: out, unresolved };
+}
+
+/* -------------------------------- Parsing ---------------------------------- */
+
+/**
+ * Find [n] markers (also [n, m] and [n][m]) per answer sentence.
+ * Markdown links like [1](…) are not citations and are skipped.
+ */
+export function parseCitationMarkers(md: string): InlineMarker[] {
+  const out: InlineMarker[] = [];
+  if (!md) return out;
+  const re = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?!\()/g;
+
+  for (const s of splitSentences(md)) {
+    const indexes: number[] = [];
+    let m: RegExpExecArray | null;
+    re.lastIndex = 0;
+    while ((m = re.exec(s.text))) {
+      for (const part of m[1].split(",")) {
+        const n = Number(part.trim());
+        if (Number.isInteger(n) && n > 0 && !indexes.includes(n)) {
+          indexes.push(n);
+        }
+      }
+    }
+    if (indexes.length === 0) continue;
+
+    const sentence = stripMarkdown(s.text.replace(re, " "))
+      .replace(/\s+/g, " ")
+      .replace(/ ([.,;:!?])/g, "$1")
+      .trim();
+    for (const index of indexes) out.push({ index, sentence });
+  }
+  return out;
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+const STOPWORDS = new Set([
+  "the", "a", "an", "and", "or", "of", "to", "in", "on", "for", "with",
+  "by", "at", "from", "as", "is", "are", "was", "were", "be", "been", "it",
+  "this", "that", "these", "those", "which", "its", "their", "has", "have",
+  "had", "not", "but", "than", "also", "such", "into", "about",
+]);
+
+function termSet(s: string): Set<string> {
+  const out = new Set<string>();
+  for (const t of s.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (t.length < 2 || STOPWORDS.has(t)) continue;
+    out.add(t);
+  }
+  return out;
+}
+
+// Share of the answer sentence's terms found in the candidate quote
+function overlap(answerTerms: Set<string>, quoteTerms: Set<string>): number {
+  if (answerTerms.size === 0 || quoteTerms.size === 0) return 0;
+  let hit = 0;
+  for (const t of answerTerms) if (quoteTerms.has(t)) hit++;
+  return hit / answerTerms.size;
+}
+
+// Sentences of the prompt text, skipping the "…" seam left by chunk shrinking
+function promptSentences(text: string): string[] {
+  const out: string[] = [];
+  for (const piece of text.split(/\n…\n/)) {
+    for (const s of splitSentences(piece)) {
+      const t = s.text.trim();
+      if (t.length >= 20) out.push(t);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,105 @@
+import "server-only";
+import { asc, count, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { collections, collectionSources } from "@/db/schema";
+import { id as newId } from "@/lib/id";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type CollectionSummary = {
+  id: string;
+  name: string;
+  sources: number;
+  createdAt: string | null;
+};
+
+/* -------------------------------- Writing ---------------------------------- */
+
+export function normalizeCollectionName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/** Id of the named collection, created on first use. */
+export async function ensureCollection(name: string): Promise<string> {
+  const key = normalizeCollectionName(name);
+  if (!key) throw new Error("Collection name is empty");
+
+  await db
+    .insert(collections)
+    .values({ id: newId(), name: key })
+    .onConflictDoNothing({ target: collections.name })
+    .run();
+
+  // Re-read: a concurrent insert may have won the name
+  const rows = await db
+    .select({ id: collections.id })
+    .from(collections)
+    .where(eq(collections.name, key))
+    .limit(1);
+  if (!rows[0]) throw new Error(`Collection not created: ${key}`);
+  return rows[0].id;
+}
+
+/** File sources under a collection (idempotent). Returns the collection id. */
+export async function addToCollection(
+  name: string,
+  sourceIds: string[]
+): Promise<string> {
+  const collectionId = await ensureCollection(name);
+  const ids = Array.from(new Set(sourceIds.filter(Boolean)));
+  if (ids.length > 0) {
+    await db
+      .insert(collectionSources)
+      .values(ids.map((sourceId) => ({ id: newId(), collectionId, sourceId })))
+      .onConflictDoNothing({
+        target: [collectionSources.collectionId, collectionSources.sourceId],
+      })
+      .run();
+  }
+  return collectionId;
+}
+
+/* -------------------------------- Reading ---------------------------------- */
+
+/** Source ids in the named collection; null when no such collection exists. */
+export async function collectionSourceIds(
+  name: string
+): Promise<string[] | null> {
+  const key = normalizeCollectionName(name);
+  const found = await db
+    .select({ id: collections.id })
+    .from(collections)
+    .where(eq(collections.name, key))
+    .limit(1);
+  if (!found[0]) return null;
+
+  const rows = await db
+    .select({ sourceId: collectionSources.sourceId })
+    .from(collectionSources)
+    .where(eq(collectionSources.collectionId, found[0].id));
+  return rows.map((r) => r.sourceId);
+}
+
+export async function listCollections(): Promise<CollectionSummary[]> {
+  const rows = await db
+    .select({
+      id: collections.id,
+      name: collections.name,
+      createdAt: collections.createdAt,
+      sources: count(collectionSources.id),
+    })
+    .from(collections)
+    .leftJoin(
+      collectionSources,
+      eq(collectionSources.collectionId, collections.id)
+    )
+    .groupBy(collections.id)
+    .orderBy(asc(collections.name));
+
+  return rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    sources: Number(r.sources ?? 0),
+    createdAt: r.createdAt ? new Date(r.createdAt).toISOString() : null,
+  }));
+}
@@ -1,45 +1,81 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import "server-only";
-import { inArray, eq } from "drizzle-orm";
+import { and, inArray, eq } from "drizzle-orm";
+import type { ModelMessage } from "ai";
 import { env } from "@/lib/env";
 import { logger, startSpan, logError } from "@/lib/logger";
 import { id as newId } from "@/lib/id";
-import {
-  estimateTokens,
-  splitIntoWindows,
-  findQuoteOffsets,
-  sanitizeText,
-} from "@/lib/text";
-import { db, client } from "@/db";
+import { isWithinTimeRange } from "@/lib/dates";
+import { estimateTokens, findQuoteOffsets } from "@/lib/text";
+import { db } from "@/db";
 import {
   threads,
   messages,
   sources as sourcesTable,
-  sourceContent,
   chunks as chunksTable,
   claims as claimsTable,
   claimEvidence as claimEvidenceTable,
+  searchEvents,
+  threadSources,
+  messageContexts,
 } from "@/db/schema";
 import {
   ResearchRequest,
   ResearchRequestSchema,
+  AnswerStyle,
   Depth,
   SourceRef,
   ContextChunk,
   PlanResponseSchema,
+  PlanReviewEvent,
   VerifyClaimsResponse,
   VerifyClaimsResponseSchema,
+  VerifySkipReason,
+  GapAnalysis,
+  UsageSummary,
 } from "../types";
 import { deepsearch } from "./deepsearch";
 import type { SearchResult } from "./deepsearch";
-import { readUrl } from "./reader";
+import { ingestUrl, type IngestedSource } from "./ingest";
 import {
   buildPlanPrompt,
   buildAnswerPrompt,
   buildVerifyClaimsPrompt,
 } from "../prompts";
 import { streamCompletion, generateCompletion } from "./groq";
-import { rankForQueries } from "./rank";
+import { rankForQueries, type RankOptions, type RankedChunk } from "./rank";
+import { ensureFtsReady } from "./fts";
+import { awaitPlanReview, PlanReviewCancelled } from "./plan-review";
+import {
+  clusterIdsFor,
+  collapseDuplicateRefs,
+  countOriginsInPlace,
+} from "./duplicates";
+import {
+  assessSourceTrust,
+  weighClaimsByTrustInPlace,
+  withTrust,
+  type SourceTrust,
+} from "./trust";
+import { backfillChunkEmbeddings } from "./embeddings";
+import { userText } from "./messages";
+import { browseWithTools } from "./agent";
+import {
+  verifyClaims,
+  verifyPromptBudget,
+  VERIFY_MAX_OUTPUT_TOKENS,
+} from "./verify";
+import { isRateLimitError, tokenBudget } from "./scheduler";
+import { analyseGaps } from "./gaps";
+import { persistInlineCitations } from "./citations";
+import {
+  loadThreadContext,
+  toHistoryMessages,
+  estimateHistoryTokens,
+  normalizeQuery,
+  nextVersionOf,
+  type ThreadContext,
+} from "./threads";
 
 export type DeepResearchEmitEvent =
   | {
@@ -51,17 +87,20 @@ export type DeepResearchEmitEvent =
       };
     }
   | { event: "token"; data: string }
+  | { event: "plan"; data: PlanReviewEvent }
   | { event: "sources"; data: SourceRef[] }
   | { event: "claims"; data: VerifyClaimsResponse }
   | { event: "error"; data: { message: string } }
-  | { event: "done"; data: { threadId: string } }
-  | { event: "answer"; data: { text: string } };
+  | { event: "done"; data: { threadId: string; messageId?: string } }
+  | { event: "answer"; data: { text: string } }
+  | { event: "usage"; data: UsageSummary };
 
 export type ProgressStage =
   | "plan"
   | "search"
   | "read"
   | "rank"
+  | "gaps"
   | "answer"
   | "verify"
   | "done";
@@ -73,6 +112,7 @@ export type DeepResearchOptions = {
   perQueryResults?: number;
   rankLimit?: number;
   limitPerSource?: number;
+  visitorId?: string | null; // stored on new threads
 };
 
 export type DeepResearchResult = {
@@ -92,174 +132,255 @@ export async function deepResearch(
   if (!parsed.success)
     throw new Error("Invalid ResearchRequest: " + parsed.error.message);
 
-  const req = parsed.data;
+  let req = parsed.data;
   const emit = opts.emit ?? (() => {});
   const abortSig = opts.signal;
   const log = logger.child({ mod: "deepresearch" });
 
-  const threadId = newId();
-  await db.insert(threads).values({ id: threadId, title: req.question }).run();
+  // Follow-ups reuse the thread: history, prior queries and prior sources
+  let threadId: string;
+  let threadCtx: ThreadContext | null = null;
+  if (req.threadId) {
+    threadCtx = await loadThreadContext(req.threadId);
+    if (!threadCtx) throw new Error(`Thread not found: ${req.threadId}`);
+    threadId = threadCtx.threadId;
+  } else {
+    threadId = newId();
+    await db
+      .insert(threads)
+      .values({ id: threadId, title: req.question, visitorId: opts.visitorId ?? null })
+      .run();
+  }
+  const history = threadCtx ? toHistoryMessages(threadCtx.messages) : [];
+  const priorQueries = threadCtx?.priorQueries ?? [];
+  const priorSources = threadCtx?.priorSources ?? [];
 
   emit({
     event: "progress",
-    data: { stage: "plan", message: "Planning subqueries" },
+    data: {
+      stage: "plan",
+      message: req.agent
+        ? "Agent mode: the model picks its own searches"
+        : "Planning subqueries",
+    },
   });
 
+  // Agent runs have no fixed plan; their subqueries are what the agent ran
   const planSpan = startSpan(log, "plan");
-  const plan = await planSubqueries(req).catch((e) => {
-    logError(log, e, "plan failed - falling back to naive plan");
-    return {
-      intent: req.question,
-      subqueries: [req.question],
-      focus: [],
-      constraints: {
-        timeRange: req.timeRange ?? null,
-        region: req.region ?? null,
-        allowedDomains: req.allowedDomains ?? null,
-        disallowedDomains: req.disallowedDomains ?? null,
-      },
-    };
-  });
-  planSpan.end({ subqueries: plan.subqueries.length });
-
-  emit({
-    event: "progress",
-    data: { stage: "search", message: "Searching the web" },
-  });
-  const searchSpan = startSpan(log, "search");
-
-  const perQuery =
-    opts.perQueryResults ??
-    (req.depth === "deep" ? 12 : req.depth === "quick" ? 4 : 8);
+  let plan = req.agent
+    ? naivePlan(req, [])
+    : await planSubqueries(req, {
+        history,
+        priorQueries,
+        priorSources,
+      }).catch((e) => {
+        logError(log, e, "plan failed - falling back to naive plan");
+        return naivePlan(req, [req.question]);
+      });
+  planSpan.end({ subqueries: plan.subqueries.length, agent: req.agent });
 
-  // Fetch results per subquery (titles preserved)
-  const allResults: SearchResult[][] = await mapLimit(plan.subqueries, 3, (q) =>
-    withRetry(
-      () =>
-        deepsearch(q, {
-          size: perQuery,
-          timeRange: req.timeRange,
-          allowedDomains: req.allowedDomains,
-          disallowedDomains: req.disallowedDomains,
-          region: req.region,
-          abortSignal: abortSig,
+  // Nothing is searched until the user has seen (and maybe edited) the plan
+  if (req.reviewPlan && !req.agent) {
+    emit({
+      event: "progress",
+      data: { stage: "plan", message: "Waiting for plan review" },
+    });
+    const proposed = plan;
+    const decision = await awaitPlanReview(
+      (reviewId, expiresAt) =>
+        emit({
+          event: "plan",
+          data: {
+            reviewId,
+            threadId,
+            intent: proposed.intent,
+            subqueries: proposed.subqueries,
+            focus: proposed.focus ?? [],
+            constraints: proposed.constraints ?? {},
+            expiresAt,
+          },
         }),
-      { retries: 2, baseDelay: 400, signal: abortSig }
-    )
-  );
-
-  const searchResults = allResults.flat();
+      { signal: abortSig }
+    ).catch((e) => {
+      if (e instanceof PlanReviewCancelled) return e;
+      throw e;
+    });
+    if (decision instanceof PlanReviewCancelled) {
+      log.info({ threadId, reason: decision.message }, "plan review ended the run");
+      return finishWithoutSources(
+        threadId,
+        req.question,
+        `Research stopped before searching: ${decision.message.toLowerCase()}.`,
+        emit
+      );
+    }
 
-  // Keep first-seen title per URL
-  const urlMeta = new Map<string, { title?: string | null }>();
-  for (const r of searchResults) {
-    if (!urlMeta.has(r.url)) urlMeta.set(r.url, { title: r.title ?? null });
+    plan = {
+      ...plan,
+      subqueries: dedupeQueries(decision.subqueries ?? plan.subqueries),
+      constraints: decision.constraints ?? plan.constraints,
+    };
+    // Reviewed constraints replace the request's for the rest of the run
+    if (decision.constraints) {
+      const c = decision.constraints;
+      req = {
+        ...req,
+        timeRange: c.timeRange ?? undefined,
+        region: c.region ?? undefined,
+        allowedDomains: c.allowedDomains ?? undefined,
+        disallowedDomains: c.disallowedDomains ?? undefined,
+      };
+    }
+    emit({
+      event: "progress",
+      data: {
+        stage: "plan",
+        message: `Plan approved with ${plan.subqueries.length} subqueries`,
+        meta: {
+          subqueries: plan.subqueries,
+          edited: Boolean(decision.subqueries || decision.constraints),
+        },
+      },
+    });
   }
 
-  const deduped = dedupeUrls(searchResults.map((r) => r.url));
-  searchSpan.end({ urls: deduped.length });
-  emit({
-    event: "progress",
-    data: {
-      stage: "search",
-      message: `Found ${deduped.length} unique URLs`,
-      meta: { unique: deduped.length },
-    },
-  });
-
-  if (deduped.length === 0) {
-    const assistantText =
-      "I could not find suitable sources to answer this yet. Try adding specifics (timeframe, entities) or different keywords.";
-
-    const userMsgId = newId();
-    const assistantMsgId = newId();
-    await db
-      .insert(messages)
-      .values([
-        { id: userMsgId, threadId, role: "user", contentMd: req.question },
-        {
-          id: assistantMsgId,
-          threadId,
-          role: "assistant",
-          contentMd: assistantText,
+  // User-supplied sources come first and are kept whatever the ranking says
+  const seedRefs = await gatherSeedSources({ req, emit, opts });
+
+  // Agent mode browses with tools; ranking then covers what it ran and read
+  let agentRefs: SourceRef[] | null = null;
+  if (req.agent) {
+    const browsed = await browseWithTools({
+      req,
+      history,
+      knownSources: [...seedRefs, ...priorSources],
+      priorQueries,
+      read: (u, hint) =>
+        withRetry(
+          () =>
+            ingestUrl(u, {
+              title: hint.title ?? undefined,
+              publishedAt: hint.publishedAt,
+              prefer: chooseReaderPrefer(u),
+              signal: abortSig,
+            }),
+          { retries: 1, baseDelay: 500, signal: abortSig }
+        ),
+      emit,
+      signal: abortSig,
+    });
+    await recordSearchEvents(
+      threadId,
+      browsed.searches.map((x) => x.query),
+      browsed.searches.map((x) => x.results)
+    ).catch((e) => logError(log, e, "search_events insert failed"));
+    plan = { ...plan, subqueries: browsed.queries };
+    // An agent that read nothing falls back to a plain search below
+    if (browsed.sources.length > 0 || req.mode === "local") {
+      agentRefs = browsed.sources;
+    } else if (plan.subqueries.length === 0) {
+      plan = { ...plan, subqueries: [req.question] };
+    }
+    emit({
+      event: "progress",
+      data: {
+        stage: "read",
+        message: `Agent finished after ${browsed.steps} steps with ${browsed.sources.length} sources`,
+        meta: {
+          agent: true,
+          steps: browsed.steps,
+          sources: browsed.sources.length,
+          queries: browsed.queries,
+          stoppedEarly: browsed.stoppedEarly,
         },
-      ])
-      .run();
-
-    emit({ event: "sources", data: [] });
-    emit({ event: "claims", data: { claims: [] } });
-    emit({ event: "done", data: { threadId } });
+      },
+    });
+  }
 
-    return {
+  // Local mode never searches the web: rank over what is already ingested
+  let sourceRefs: SourceRef[];
+  if (agentRefs) {
+    const seedIds = new Set(seedRefs.map((s) => s.id));
+    sourceRefs = [
+      ...seedRefs,
+      ...agentRefs.filter((s) => !seedIds.has(s.id)),
+    ].map((s, i) => ({ ...s, index: i + 1 }));
+  } else if (req.mode === "local") {
+    sourceRefs = seedRefs;
+    emit({
+      event: "progress",
+      data: {
+        stage: "search",
+        message: req.collection
+          ? `Local mode: using collection "${req.collection}"`
+          : "Local mode: using the ingested corpus",
+        meta: {
+          mode: "local",
+          collection: req.collection ?? null,
+          priorSources: priorSources.length,
+        },
+      },
+    });
+  } else {
+    const webRefs = await gatherWebSources({
+      req,
       threadId,
-      question: req.question,
-      sources: [],
-      context: { sources: [], chunks: [] },
-      answerMarkdown: assistantText,
-      verified: { claims: [] },
-    };
+      subqueries: plan.subqueries,
+      priorQueries,
+      priorSources,
+      seedRefs,
+      emit,
+      opts,
+    });
+    if (!webRefs) {
+      return finishWithoutSources(
+        threadId,
+        req.question,
+        "I could not find suitable sources to answer this yet. Try adding specifics (timeframe, entities) or different keywords.",
+        emit
+      );
+    }
+    const seedIds = new Set(seedRefs.map((s) => s.id));
+    sourceRefs = [
+      ...seedRefs,
+      ...webRefs.filter((s) => !seedIds.has(s.id)),
+    ].map((s, i) => ({ ...s, index: i + 1 }));
   }
 
-  emit({
-    event: "progress",
-    data: { stage: "read", message: `Reading ${deduped.length} sources` },
-  });
-  const readSpan = startSpan(log, "read");
-
-  const inlineCap = Math.min(
-    Math.max(1, opts.maxSourcesInline ?? env.MAX_SOURCES_INLINE),
-    deduped.length
-  );
-  const urlsInline = deduped.slice(0, inlineCap);
-
-  // Read concurrency (tunable via READER_CONCURRENCY; default 2)
-  const readConc = Math.max(
-    1,
-    Math.min(4, Number(process.env.READER_CONCURRENCY ?? 2))
-  );
+  // Carry over sources collected by earlier turns (already ingested)
+  const freshIds = new Set(sourceRefs.map((s) => s.id));
+  for (const p of priorSources) {
+    if (freshIds.has(p.id)) continue;
+    sourceRefs.push({ ...p, index: sourceRefs.length + 1 });
+  }
 
-  // Ingest with small progress updates
-  let readDone = 0;
-  const ingested = await mapLimit(urlsInline, readConc, async (u) => {
-    const res = await withRetry(
-      () =>
-        ingestUrl(
-          u,
-          { title: urlMeta.get(u)?.title ?? undefined },
-          chooseReaderPrefer(u)
-        ),
-      {
-        retries: 1,
-        baseDelay: 500,
-        signal: abortSig,
-      }
-    );
-    readDone++;
-    if (readDone === urlsInline.length || readDone % 2 === 0) {
-      emit({
-        event: "progress",
-        data: {
-          stage: "read",
-          message: `Read ${readDone}/${urlsInline.length}`,
-          meta: { done: readDone, total: urlsInline.length },
-        },
-      });
-    }
-    return res;
+  // Syndicated copies of one story are one source, not corroboration
+  const deduped = await collapseDuplicateRefs(sourceRefs).catch((e) => {
+    logError(log, e, "duplicate collapse failed");
+    return { refs: sourceRefs, collapsed: 0 };
   });
+  sourceRefs = deduped.refs;
+  // Seeds folded into another seed's cluster are not pinned separately
+  const seedIds = new Set(seedRefs.map((s) => s.id));
+  const pinnedIds = sourceRefs
+    .filter((s) => seedIds.has(s.id))
+    .map((s) => s.id);
+  if (deduped.collapsed > 0) {
+    emit({
+      event: "progress",
+      data: {
+        stage: "read",
+        message: `Merged ${deduped.collapsed} near-duplicate sources`,
+        meta: { collapsed: deduped.collapsed },
+      },
+    });
+  }
 
-  const okIngests = ingested.filter(
-    (x): x is IngestResult & { ok: true } => x.ok
-  );
-  readSpan.end({ sources: okIngests.length });
-
-  const sourceRefs: SourceRef[] = okIngests.map((s, idx) => ({
-    id: s.sourceId,
-    url: s.url,
-    title: s.title ?? null,
-    domain: s.domain ?? null,
-    index: idx + 1,
-  }));
+  // Judged before ranking so fresh LLM verdicts are cached for the trust signal
+  if (sourceRefs.length > 0) {
+    const trust = await assessSourceTrust(sourceRefs, { abortSignal: abortSig });
+    sourceRefs = withTrust(sourceRefs, trust);
+  }
 
   emit({ event: "sources", data: sourceRefs });
 
@@ -271,82 +392,299 @@ export async function deepResearch(
   });
   const rankSpan = startSpan(log, "rank");
 
-  // Ensure FTS exists and rebuild so existing chunks are indexed
-  await ensureFts5();
+  // Index and triggers come from migrations; this only checks they exist
+  await ensureFtsReady().catch((e) => logError(log, e, "FTS check failed"));
+
+  // The local corpus may predate embeddings; vectorize a batch of it
+  if (req.mode === "local") {
+    await backfillChunkEmbeddings().catch((e) =>
+      logError(log, e, "embedding backfill failed")
+    );
+  }
 
   const rankLimit = opts.rankLimit ?? 24;
   const limitPerSource = Math.max(1, Math.min(opts.limitPerSource ?? 3, 8));
 
-  // Voyage rerank enabled via ENABLE_RERANK + VOYAGE_API_KEY in env
-  let ranked = await rankForQueries([req.question, ...plan.subqueries], {
+  // Rank over this run's sources (plus an opted-in collection); local mode
+  // without a collection keeps ranking the whole corpus
+  let rankOpts: RankOptions = {
     cap: rankLimit,
     perQueryTake: rankLimit * 3,
     diversifyBySource: true,
     perSourceLimit: limitPerSource,
     enableRerank: true,
     timeoutMs: env.REQUEST_TIMEOUT_MS,
-  });
+    scope: rankScope(req, sourceRefs),
+    reuse: req.reuseWeight > 0 ? { weight: req.reuseWeight } : undefined,
+    // Freshness matters a lot for "latest"-style questions, a little otherwise
+    recency: isTimeSensitive(req)
+      ? { weight: 0.35, halfLifeDays: 180 }
+      : { weight: 0.1, halfLifeDays: 730 },
+    trust: { weight: 0.3 },
+    collapseDuplicates: true,
+  };
 
-  // Fallbacks if FTS index was empty or rank failed to find anything
-  if (ranked.length === 0) {
-    // Try to force a backfill if the FTS index is empty
-    await backfillFtsFromChunks();
-    // Debug: Log FTS count post-backfill
-    const cntFtsPost = await client.execute({
-      sql: `SELECT COUNT(1) AS c FROM chunks_fts;`,
-      args: [],
-    });
-    const cFtsPost = Number((cntFtsPost.rows?.[0] as any)?.c ?? 0);
-    log.info({ ftsCountPostBackfill: cFtsPost, recentChunks: sourceRefs.length },
-      "Post-backfill FTS check");
-
-    ranked = await rankForQueries([req.question, ...plan.subqueries], {
-      cap: rankLimit,
-      perQueryTake: rankLimit * 3,
-      diversifyBySource: true,
-      perSourceLimit: limitPerSource,
-      enableRerank: true,
-      timeoutMs: env.REQUEST_TIMEOUT_MS,
-    });
-  }
+  // Seed sources the ranking passes over still get their best snippets
+  const rankWithPins = async (queries: string[]) => {
+    // Voyage rerank enabled via ENABLE_RERANK + VOYAGE_API_KEY in env
+    const hits = await rankForQueries(queries, rankOpts);
+    const unranked = pinnedIds.filter(
+      (id) => !hits.some((h) => h.sourceId === id)
+    );
+    if (unranked.length > 0) {
+      const pinnedHits = await hitsForPinnedSources(
+        queries,
+        unranked,
+        rankOpts
+      ).catch((e) => {
+        logError(log, e, "pinned source ranking failed");
+        return [] as RankedChunk[];
+      });
+      hits.push(...pinnedHits);
+    }
+    return { hits, unranked: unranked.length };
+  };
+
+  const ranked = await rankWithPins([req.question, ...plan.subqueries]);
+  let hitsForContext = ranked.hits;
 
-  // Last-resort fallback using LIKE over recently ingested sources
-  let hitsForContext: Array<{ id: string; sourceId: string; text: string }> =
-    ranked;
+  rankSpan.end({
+    selected: hitsForContext.length,
+    pinned: pinnedIds.length,
+    pinnedUnranked: ranked.unranked,
+  });
 
-  if (hitsForContext.length === 0) {
-    const likeHits = await likeFallbackRank(
-      [req.question, ...plan.subqueries],
-      sourceRefs.map((s) => s.id),
-      Math.min(rankLimit * 2, 48) // Cap fallback harder (48 max, not 72)
+  if (hitsForContext.length === 0 && req.mode === "local") {
+    return finishWithoutSources(
+      threadId,
+      req.question,
+      "Nothing in the ingested documents matches this question. Ingest relevant sources first, or run it as a web search.",
+      emit
     );
-    hitsForContext = likeHits;
-    emit({
-      event: "progress",
-      data: {
-        stage: "rank",
-        message: `Fallback ranking (LIKE) selected ${hitsForContext.length} snippets`,
-        meta: { selected: hitsForContext.length, fallback: "like" },
-      },
-    });
   }
 
-  rankSpan.end({ selected: hitsForContext.length });
   emit({
     event: "progress",
     data: {
       stage: "rank",
       message: `Selected ${hitsForContext.length} snippets`,
-      meta: { selected: hitsForContext.length },
+      meta: {
+        selected: hitsForContext.length,
+        reused: hitsForContext.filter((r) => r.reused).length,
+        pinned: pinnedIds.length,
+      },
     },
   });
 
+  let context = await buildContext(hitsForContext, {
+    sourceRefs,
+    pinnedIds,
+    limitPerSource,
+    signal: abortSig,
+  });
+
+  /* --------------------------- Gap filling (deep) ------------------------- */
+
+  // Deep runs draft and verify an answer first, then search again for what
+  // the draft could not support; only the last round's context is answered
+  const maxRounds = req.depth === "deep" && !req.agent ? env.DEEP_MAX_ROUNDS : 0;
+  const searched = [...priorQueries, ...plan.subqueries];
+  const roundQueries = [...plan.subqueries];
+
+  for (let round = 1; round <= maxRounds; round++) {
+    emit({
+      event: "progress",
+      data: {
+        stage: "gaps",
+        message: `Round ${round}/${maxRounds}: checking a draft answer for gaps`,
+        meta: { round, maxRounds },
+      },
+    });
+    const gapSpan = startSpan(log, "gap-round");
+
+    const analysis = await findGaps({
+      question: req.question,
+      depth: req.depth,
+      history,
+      context,
+      searched,
+      signal: abortSig,
+    }).catch((e) => {
+      if (abortSig?.aborted) throw e;
+      // Gap filling only improves the answer; never let it sink the run
+      logError(log, e, "gap analysis failed", { round });
+      return null;
+    });
+
+    const followUps = analysis?.subqueries ?? [];
+    emit({
+      event: "progress",
+      data: {
+        stage: "gaps",
+        message: !analysis
+          ? `Round ${round}: gap check failed; answering with what we have`
+          : followUps.length === 0
+          ? `Round ${round}: no gaps worth another search`
+          : `Round ${round}: ${analysis.gaps.length} gaps; searching ${followUps.length} follow-ups`,
+        meta: {
+          round,
+          maxRounds,
+          gaps: analysis?.gaps ?? [],
+          subqueries: followUps,
+          claims: analysis?.claims ?? 0,
+        },
+      },
+    });
+    if (!analysis || analysis.sufficient || followUps.length === 0) {
+      gapSpan.end({ round, gaps: analysis?.gaps.length ?? 0, stopped: true });
+      break;
+    }
+    searched.push(...followUps);
+    roundQueries.push(...followUps);
+
+    if (req.mode !== "local") {
+      const newRefs = await gatherWebSources({
+        req,
+        threadId,
+        subqueries: followUps,
+        priorQueries: [],
+        priorSources: sourceRefs,
+        seedRefs: sourceRefs,
+        emit,
+        opts,
+      });
+      const known = new Set(sourceRefs.map((s) => s.id));
+      const added = (newRefs ?? []).filter((s) => !known.has(s.id));
+      if (added.length > 0) {
+        // Follow-up searches find copies of stories already held, too
+        const merged = [...sourceRefs, ...added];
+        const deduped = await collapseDuplicateRefs(merged).catch((e) => {
+          logError(log, e, "duplicate collapse failed", { round });
+          return {
+            refs: merged.map((s, i) => ({ ...s, index: i + 1 })),
+            collapsed: 0,
+          };
+        });
+        if (deduped.collapsed > 0) {
+          emit({
+            event: "progress",
+            data: {
+              stage: "read",
+              message: `Round ${round}: merged ${deduped.collapsed} near-duplicate sources`,
+              meta: { collapsed: deduped.collapsed, round },
+            },
+          });
+        }
+        const fresh = deduped.refs.filter((s) => !known.has(s.id));
+        const trust = fresh.length
+          ? await assessSourceTrust(fresh, { abortSignal: abortSig })
+          : new Map();
+        sourceRefs = withTrust(deduped.refs, trust);
+        rankOpts = { ...rankOpts, scope: rankScope(req, sourceRefs) };
+        emit({ event: "sources", data: sourceRefs });
+      }
+    }
+
+    emit({
+      event: "progress",
+      data: { stage: "rank", message: `Round ${round}: re-ranking snippets` },
+    });
+    hitsForContext = (
+      await rankWithPins([req.question, ...roundQueries])
+    ).hits;
+    context = await buildContext(hitsForContext, {
+      sourceRefs,
+      pinnedIds,
+      limitPerSource,
+      signal: abortSig,
+    });
+    gapSpan.end({
+      round,
+      gaps: analysis.gaps.length,
+      followUps: followUps.length,
+      sources: sourceRefs.length,
+      selected: hitsForContext.length,
+    });
+  }
+
+  const {
+    sources: usedSourceRefs,
+    chunks: contextChunks,
+    sourceTrust,
+  } = context;
+
+  const answer = await answerFromContext(
+    {
+      threadId,
+      question: req.question,
+      depth: req.depth,
+      history,
+      sources: usedSourceRefs,
+      chunks: contextChunks,
+      sourceTrust,
+      readSources: sourceRefs,
+    },
+    { emit, signal: abortSig }
+  );
+
+  emit({ event: "done", data: { threadId, messageId: answer.messageId } });
+
+  return {
+    threadId,
+    question: req.question,
+    sources: usedSourceRefs,
+    context: { sources: usedSourceRefs, chunks: contextChunks },
+    answerMarkdown: answer.answerMarkdown,
+    verified: answer.verified,
+  };
+}
+
+/* --------------------------------- Context --------------------------------- */
+
+// Web runs rank over their own sources (plus an opted-in collection); local
+// mode without a collection ranks the whole corpus
+function rankScope(req: ResearchRequest, sourceRefs: SourceRef[]): RankOptions["scope"] {
+  return req.mode === "local"
+    ? req.collection
+      ? { collection: req.collection }
+      : undefined
+    : {
+        sourceIds: sourceRefs.map((s) => s.id),
+        collection: req.collection,
+      };
+}
+
+type BuiltContext = {
+  sources: SourceRef[]; // [n] order, trust attached
+  chunks: ContextChunk[]; // grouped by source, in source order
+  sourceTrust: Map<string, SourceTrust>;
+};
+
+/**
+ * Group ranked hits by source into the numbered context the answer sees.
+ * Pinned sources lead so budget trimming cuts others first.
+ */
+async function buildContext(
+  hits: RankedChunk[],
+  args: {
+    sourceRefs: SourceRef[];
+    pinnedIds: string[];
+    limitPerSource: number;
+    signal?: AbortSignal;
+  }
+): Promise<BuiltContext> {
+  const { sourceRefs, pinnedIds, limitPerSource } = args;
+
+  const pinned = new Set(pinnedIds);
   const selectedSourceIds: string[] = Array.from(
-    new Set(hitsForContext.map((h) => h.sourceId))
+    new Set([
+      ...hits.filter((h) => pinned.has(h.sourceId)).map((h) => h.sourceId),
+      ...hits.map((h) => h.sourceId),
+    ])
   );
 
   const perSourceBags = new Map<string, ContextChunk[]>();
-  for (const h of hitsForContext) {
+  for (const h of hits) {
     const bag = perSourceBags.get(h.sourceId) ?? [];
     if (bag.length < limitPerSource) {
       bag.push({ sourceId: h.sourceId, chunkId: h.id, text: h.text });
@@ -354,7 +692,7 @@ export async function deepResearch(
     }
   }
 
-  const usedSourceRefs: SourceRef[] = [];
+  let usedSourceRefs: SourceRef[] = [];
   let n = 1;
   for (const sid of selectedSourceIds) {
     const found = sourceRefs.find((s) => s.id === sid);
@@ -373,6 +711,7 @@ export async function deepResearch(
           url: s.url,
           title: s.title ?? null,
           domain: s.domain ?? null,
+          publishedAt: s.publishedAt ?? null,
           index: n,
         });
       }
@@ -380,33 +719,89 @@ export async function deepResearch(
     n++;
   }
 
+  // Local mode and carried-over sources are judged here (mostly cache hits)
+  const sourceTrust: Map<string, SourceTrust> = await assessSourceTrust(
+    usedSourceRefs,
+    {
+      abortSignal: args.signal,
+      snippets: new Map(
+        Array.from(perSourceBags, ([id, bag]) => [id, bag[0]?.text ?? ""])
+      ),
+    }
+  );
+  usedSourceRefs = withTrust(usedSourceRefs, sourceTrust);
+
   const contextChunks: ContextChunk[] = [];
   for (const sref of usedSourceRefs) {
     const bag = perSourceBags.get(sref.id) ?? [];
     for (const c of bag) contextChunks.push(c);
   }
 
-   /* ------------------------------ Answer ---------------------------------- */
+  return { sources: usedSourceRefs, chunks: contextChunks, sourceTrust };
+}
+
+/* ---------------------------------- Answer --------------------------------- */
+
+export type AnswerContext = {
+  threadId: string;
+  question: string;
+  depth: Depth;
+  style?: AnswerStyle; // default: concise for quick runs, neutral otherwise
+  guidance?: string; // extra tone/emphasis instructions from the user
+  history: ModelMessage[];
+  sources: SourceRef[]; // [n] order, trust attached
+  chunks: ContextChunk[]; // grouped by source, in source order
+  sourceTrust: Map<string, SourceTrust>;
+  // Everything the run read; the uncited ones are linked without an [n] so
+  // follow-ups can reuse them too
+  readSources?: SourceRef[];
+  // Store the answer as another version of this turn instead of a new turn;
+  // its number is taken when the row is written
+  versionOf?: { messageId: string };
+};
+
+export type AnswerResult = {
+  messageId: string;
+  answerMarkdown: string;
+  sources: SourceRef[]; // the ones the prompt listed
+  verified: VerifyClaimsResponse;
+};
+
+/**
+ * Draft, persist and verify an answer from a ranked context. Shared by full
+ * runs and regeneration (regenerate.ts), which skips everything before this.
+ */
+export async function answerFromContext(
+  ctx: AnswerContext,
+  opts: Pick<DeepResearchOptions, "emit" | "signal"> = {}
+): Promise<AnswerResult> {
+  const {
+    threadId,
+    question,
+    depth,
+    style,
+    guidance,
+    history,
+    sources: usedSourceRefs,
+    chunks: contextChunks,
+    sourceTrust,
+    readSources = [],
+  } = ctx;
+  const emit = opts.emit ?? (() => {});
+  const abortSig = opts.signal;
+  const log = logger.child({ mod: "deepresearch" });
+
 
   emit({
     event: "progress",
     data: { stage: "answer", message: "Drafting answer" },
   });
 
-  // Limit the input to avoid Groq on_demand 6k TPM spikes.
-  // You can tune these via env if needed.
-  const INPUT_BUDGET_TOKENS = Math.max(
-    1200,
-    Number(process.env.ANSWER_INPUT_BUDGET_TOKENS ?? 3200) // tighter default
-  );
-  const PROMPT_OVERHEAD_TOKENS = Math.max(
-    400,
-    Number(process.env.ANSWER_PROMPT_OVERHEAD_TOKENS ?? 800)
-  );
-  const MAX_CHARS_PER_CHUNK = Math.max(
-    400,
-    Number(process.env.ANSWER_MAX_CHARS_PER_CHUNK ?? 900)
-  );
+  const {
+    inputTokens: INPUT_BUDGET_TOKENS,
+    overheadTokens: PROMPT_OVERHEAD_TOKENS,
+    maxCharsPerChunk: MAX_CHARS_PER_CHUNK,
+  } = answerBudget();
 
   // Only include sources actually referenced by the selected chunks
   const ctxSourceIds = new Set(contextChunks.map((c) => c.sourceId));
@@ -419,27 +814,38 @@ export async function deepResearch(
     ...c,
     text: shrinkChunkText(c.text, MAX_CHARS_PER_CHUNK),
   }));
+  // Thread history shares the same input budget as the context chunks
+  const historyTokens = estimateHistoryTokens(history);
   const budgetedChunks = trimChunksToBudget(
     shrunkChunks,
     INPUT_BUDGET_TOKENS,
-    PROMPT_OVERHEAD_TOKENS
+    PROMPT_OVERHEAD_TOKENS + historyTokens
   );
 
+  // The [n] numbering the model sees; the client needs the same indexes
+  emit({ event: "sources", data: minimalSourceRefs });
+
+  // Chunks of the prompt that produced the final answer (for inline citations)
+  let answerChunks: ContextChunk[] = [];
+  let streamedAny = false;
+
   const buildAndStream = async (chunksForPrompt: ContextChunk[]) => {
+    answerChunks = chunksForPrompt;
     const { system: answerSystem, user: answerUser } = buildAnswerPrompt({
-      question: req.question,
+      question: question,
       sources: minimalSourceRefs, // use minimal refs to save tokens
       chunks: chunksForPrompt,
-      style: req.depth === "quick" ? "concise" : "neutral",
+      style: style ?? (depth === "quick" ? "concise" : "neutral"),
+      guidance,
     });
 
     const answerSpan = startSpan(log, "answer");
     const answerResult = await streamCompletion({
       model: "answer",
       system: answerSystem,
-      prompt: answerUser,
+      messages: [...history, userText(answerUser)],
       temperature: 0.2,
-      maxOutputTokens: 900, // keep completion capped too
+      maxOutputTokens: ANSWER_MAX_OUTPUT_TOKENS,
       abortSignal: abortSig,
     });
 
@@ -449,6 +855,7 @@ export async function deepResearch(
     for await (const delta of answerResult.textStream) {
       if (delta && delta.length) {
         streamedChunks++;
+        streamedAny = true;
         answerBuffer += delta;
         emit({ event: "token", data: delta });
       }
@@ -468,57 +875,103 @@ export async function deepResearch(
     return full;
   };
 
-  let answerMarkdown = "";
-  let skipVerifyForBudget = false;
-
-  try {
-    // First attempt with budgeted chunks
-    answerMarkdown = await buildAndStream(budgetedChunks);
-  } catch (e: any) {
-    const msg = String(e?.message || "").toLowerCase();
-    const isTPM =
-      msg.includes("tokens per minute") ||
-      msg.includes("tpm") ||
-      msg.includes("request too large");
-
-    if (isTPM) {
-      // Retry once with half the budget (smaller context)
-      const smallerBudget = Math.max(1000, Math.floor(INPUT_BUDGET_TOKENS / 2));
-      const smaller = trimChunksToBudget(
-        shrunkChunks,
-        smallerBudget,
-        PROMPT_OVERHEAD_TOKENS
-      );
+  // The scheduler queues the call until the answer model has quota for it
+  // and retries 429s before anything streams. Past its retries: once more
+  // with half the context, then the turn is kept without an answer. Its
+  // sources and context are stored either way, so it can be regenerated.
+  const limitedBeforeStreaming = (e: unknown) =>
+    isRateLimitError(e) && !abortSig?.aborted && !streamedAny;
+  let rateLimited = false;
+  const answerMarkdown = await buildAndStream(budgetedChunks)
+    .catch((e) => {
+      if (!limitedBeforeStreaming(e) || budgetedChunks.length < 2) throw e;
+      log.warn({ error: e, chunks: budgetedChunks.length }, "Answer rate limited; retrying with half the context");
       emit({
         event: "progress",
-        data: {
-          stage: "answer",
-          message: "Context too large; retrying with smaller context",
-          meta: { budgetTokens: smallerBudget },
-        },
+        data: { stage: "answer", message: "Answer model is rate limited; retrying with less context" },
       });
-      answerMarkdown = await buildAndStream(smaller);
-      skipVerifyForBudget = String(process.env.SKIP_VERIFY_ON_TPM ?? "1") !== "0";
-    } else {
-      throw e;
-    }
-  }
+      return buildAndStream(budgetedChunks.slice(0, Math.ceil(budgetedChunks.length / 2)));
+    })
+    .catch((e) => {
+      if (!limitedBeforeStreaming(e)) throw e;
+      log.warn({ error: e }, "Answer rate limited; keeping the turn without an answer");
+      rateLimited = true;
+      answerChunks = [];
+      emit({ event: "token", data: RATE_LIMITED_ANSWER });
+      emit({ event: "answer", data: { text: RATE_LIMITED_ANSWER } });
+      return RATE_LIMITED_ANSWER;
+    });
 
-  // Persist conversation
+  const {
+    snippets: verifySnippetsBudgeted,
+    overheadTokens: VERIFY_OVERHEAD_TOKENS,
+  } = verifySnippetsFor(shrunkChunks);
+
+  // Persist the turn (a regeneration only adds the new answer version), and
+  // the context it was answered from so it can be regenerated in turn. The
+  // verify snippets go with it: a skipped verify can run on them later.
+  // Ids in this order: rows of one turn tie on created_at, so readers fall
+  // back to the (monotonic) id to put the question first.
   const userMsgId = newId();
   const assistantMsgId = newId();
-  await db
-    .insert(messages)
-    .values([
-      { id: userMsgId, threadId, role: "user", contentMd: req.question },
+  await db.batch([
+    db.insert(messages).values([
+      ...(ctx.versionOf
+        ? []
+        : [{ id: userMsgId, threadId, role: "user" as const, contentMd: question }]),
       {
         id: assistantMsgId,
         threadId,
         role: "assistant",
         contentMd: answerMarkdown,
+        versionOf: ctx.versionOf?.messageId,
+        version: ctx.versionOf ? nextVersionOf(ctx.versionOf.messageId) : 1,
       },
-    ])
-    .run();
+    ]),
+    db.insert(messageContexts).values({
+      id: newId(),
+      messageId: assistantMsgId,
+      question,
+      depth,
+      sourcesJson: JSON.stringify(usedSourceRefs),
+      chunksJson: JSON.stringify(contextChunks),
+      verifySnippetsJson: JSON.stringify(verifySnippetsBudgeted),
+    }),
+  ]);
+
+  // Remember which sources this turn cited ([n] = index in its SOURCES list)
+  // and which it read without citing (no index)
+  const citedIds = new Set(minimalSourceRefs.map((s) => s.id));
+  const linkedSources = [
+    ...minimalSourceRefs.map((s) => ({ id: s.id, idx: s.index ?? null })),
+    ...readSources
+      .filter((s) => !citedIds.has(s.id))
+      .map((s) => ({ id: s.id, idx: null })),
+  ];
+  if (linkedSources.length > 0) {
+    await db
+      .insert(threadSources)
+      .values(
+        linkedSources.map((s) => ({
+          id: newId(),
+          threadId,
+          sourceId: s.id,
+          messageId: assistantMsgId,
+          idx: s.idx,
+        }))
+      )
+      .onConflictDoNothing()
+      .run();
+  }
+
+  // Inline [n] markers -> citations rows (independent of verify)
+  await persistInlineCitations({
+    messageId: assistantMsgId,
+    answerMarkdown,
+    sources: minimalSourceRefs,
+    chunks: answerChunks,
+  }).catch((e) => logError(log, e, "citation persist failed"));
+
   /* ------------------------------ Verify ---------------------------------- */
 
   emit({
@@ -527,53 +980,31 @@ export async function deepResearch(
   });
   const verifySpan = startSpan(log, "verify");
 
-  // Reuse answer's budget logic for verify (tighter, since non-streaming)
-  const VERIFY_INPUT_BUDGET_TOKENS = Math.max(
-    800,
-    Number(process.env.VERIFY_INPUT_BUDGET_TOKENS ?? 1500) // Even tighter
-  );
-  const VERIFY_OVERHEAD_TOKENS = Math.max(
-    300,
-    Number(process.env.VERIFY_PROMPT_OVERHEAD_TOKENS ?? 500)
-  );
-
-  // For verify, shrink and trim snippets directly (reuse answer logic)
-  const verifyShrunkSnippets: { sourceId: string; chunkId?: string; text: string }[] = shrunkChunks.map((c) => ({
-    sourceId: c.sourceId,
-    chunkId: c.chunkId,
-    text: shrinkChunkText(c.text, 400), // Tighter for verify
-  }));
-
-  // Trim to budget (treat as ContextChunk for reuse)
-  const verifySnippetsBudgeted = trimChunksToBudget(
-    verifyShrunkSnippets.map(s => ({ sourceId: s.sourceId, chunkId: s.chunkId, text: s.text } as ContextChunk)),
-    VERIFY_INPUT_BUDGET_TOKENS,
-    VERIFY_OVERHEAD_TOKENS
-  ).map(c => ({
-    sourceId: c.sourceId,
-    chunkId: c.chunkId,
-    text: c.text
-  } as { sourceId: string; chunkId?: string; text: string }));
-
   // If no ranked context, skip verification entirely
   let verified: VerifyClaimsResponse = { claims: [] };
-  let skipVerify = contextChunks.length === 0 || usedSourceRefs.length === 0 || skipVerifyForBudget;
+  const hasContext = contextChunks.length > 0 && usedSourceRefs.length > 0;
+  // A stand-in answer has nothing to verify; its regeneration gets verified
+  let skipVerify = !hasContext || rateLimited;
+  // Budget and rate-limit skips can be verified later from the stored snippets
+  let skipReason: VerifySkipReason | undefined;
+  let estVerifyTokens = 0;
 
   if (!skipVerify) {
     // Budget check: Est. tokens for verify prompt
     const snippetsEst = verifySnippetsBudgeted.reduce((sum, s) => sum + estimateTokens(s.text), 0);
-    const estVerifyTokens = estimateTokens(answerMarkdown) + snippetsEst + VERIFY_OVERHEAD_TOKENS;
+    estVerifyTokens = estimateTokens(answerMarkdown) + snippetsEst + VERIFY_OVERHEAD_TOKENS;
 
-    if (estVerifyTokens > 5000) { // Hard cap before Groq call
+    if (estVerifyTokens > verifyPromptBudget()) {
       log.warn({ estTokens: estVerifyTokens, snippets: verifySnippetsBudgeted.length },
         "Verify prompt too large; skipping");
       skipVerify = true;
+      skipReason = "budget";
       verified = { claims: [] };
     } else {
       const verifyPrompt = buildVerifyClaimsPrompt({
         answerMarkdown,
         snippets: verifySnippetsBudgeted,
-        maxClaims: req.depth === "quick" ? 6 : req.depth === "deep" ? 18 : 12,
+        maxClaims: maxClaimsFor(depth),
       });
 
       const verifyRes = await generateCompletion({
@@ -581,14 +1012,13 @@ export async function deepResearch(
         system: verifyPrompt.system,
         prompt: verifyPrompt.user,
         temperature: 0,
-        maxOutputTokens: 1200,
+        maxOutputTokens: VERIFY_MAX_OUTPUT_TOKENS,
         abortSignal: abortSig,
       }).catch((e: any) => {
-        const msg = String(e?.message || "").toLowerCase();
-        const isTPM = msg.includes("tokens per minute") || msg.includes("tpm") || msg.includes("request too large");
-        if (isTPM) {
-          log.warn({ error: e }, "Verify TPM error; skipping");
+        if (isRateLimitError(e) && !abortSig?.aborted) {
+          log.warn({ error: e }, "Verify rate limited; skipping");
           skipVerify = true;
+          skipReason = "rate_limit";
           return { text: '{}' }; // Mock empty JSON
         }
         throw e;
@@ -615,6 +1045,14 @@ export async function deepResearch(
       );
       // Bind offsets only for valid chunk-backed evidence
       await bindOffsetsForEvidence(verified);
+      weighClaimsByTrustInPlace(verified, sourceTrust);
+      countOriginsInPlace(
+        verified,
+        await clusterIdsFor(Array.from(allowedSourceIds)).catch((e) => {
+          logError(log, e, "cluster lookup failed");
+          return new Map<string, string>();
+        })
+      );
     }
   }
 
@@ -622,29 +1060,113 @@ export async function deepResearch(
   if (!skipVerify) {
     await persistClaims(threadId, assistantMsgId, verified);
   }
+  if (skipReason) {
+    verified = { claims: [], skipped: skipReason };
+    await db
+      .update(messageContexts)
+      .set({ verifySkipped: skipReason })
+      .where(eq(messageContexts.messageId, assistantMsgId))
+      .run();
+  }
 
   emit({ event: "claims", data: verified });
   verifySpan.end({ 
     claimCount: verified.claims.length,
-    estInputTokens: estVerifyTokens ?? 0, // Add for monitoring
+    estInputTokens: estVerifyTokens, // Add for monitoring
     snippetCount: verifySnippetsBudgeted.length 
   });
 
-  emit({ event: "done", data: { threadId } });
-
   return {
-    threadId,
-    question: req.question,
-    sources: usedSourceRefs,
-    context: { sources: usedSourceRefs, chunks: contextChunks },
+    messageId: assistantMsgId,
     answerMarkdown,
+    sources: minimalSourceRefs,
     verified,
   };
 }
 
+/* ------------------------------- Gap filling ------------------------------- */
+
+type GapCheckArgs = {
+  question: string;
+  depth: Depth;
+  history: ModelMessage[];
+  context: BuiltContext;
+  searched: string[];
+  signal?: AbortSignal;
+};
+
+/**
+ * One round's check for deep runs: draft an answer from the current context
+ * (neither streamed nor stored), verify it, and ask what is still missing.
+ */
+async function findGaps({
+  question,
+  depth,
+  history,
+  context,
+  searched,
+  signal,
+}: GapCheckArgs): Promise<GapAnalysis & { claims: number }> {
+  const { inputTokens, overheadTokens, maxCharsPerChunk } = answerBudget();
+  const shrunk: ContextChunk[] = context.chunks.map((c) => ({
+    ...c,
+    text: shrinkChunkText(c.text, maxCharsPerChunk),
+  }));
+  const chunks = trimChunksToBudget(
+    shrunk,
+    inputTokens,
+    overheadTokens + estimateHistoryTokens(history)
+  );
+  const inPrompt = new Set(chunks.map((c) => c.sourceId));
+
+  const prompt = buildAnswerPrompt({
+    question,
+    sources: context.sources.filter((s) => inPrompt.has(s.id)),
+    chunks,
+    style: "concise",
+  });
+  const draft = await generateCompletion({
+    model: "answer",
+    system: prompt.system,
+    messages: [...history, userText(prompt.user)],
+    temperature: 0.2,
+    maxOutputTokens: 700,
+    abortSignal: signal,
+  });
+  const draftMarkdown = draft.text.trim();
+
+  const { snippets } = verifySnippetsFor(shrunk);
+  const verified: VerifyClaimsResponse =
+    snippets.length > 0 && draftMarkdown
+      ? await verifyClaims(
+          { answerMarkdown: draftMarkdown, snippets },
+          { maxClaims: maxClaimsFor(depth), abortSignal: signal, bindOffsets: false }
+        )
+      : { claims: [] };
+
+  const analysis = await analyseGaps(
+    {
+      question,
+      draftMarkdown: draftMarkdown || "(no draft: the context did not answer the question)",
+      verified,
+      searched,
+      maxSubqueries: 3,
+    },
+    { abortSignal: signal }
+  );
+  return { ...analysis, claims: verified.claims.length };
+}
+
 /* --------------------------------- Planning -------------------------------- */
 
-async function planSubqueries(req: ResearchRequest) {
+async function planSubqueries(
+  req: ResearchRequest,
+  thread: {
+    history: ModelMessage[];
+    priorQueries: string[];
+    priorSources: SourceRef[];
+  }
+) {
   const prompt = buildPlanPrompt({
     question: req.question,
     depth: req.depth as Depth,
@@ -653,12 +1175,14 @@ async function planSubqueries(req: ResearchRequest) {
     allowedDomains: req.allowedDomains,
     disallowedDomains: req.disallowedDomains,
     maxSubqueries: req.depth === "deep" ? 6 : req.depth === "quick" ? 3 : 4,
+    priorSubqueries: thread.priorQueries,
+    priorSources: thread.priorSources,
   });
 
   const res = await generateCompletion({
     model: "plan",
     system: prompt.system,
-    prompt: prompt.user,
+    messages: [...thread.history, userText(prompt.user)],
     temperature: 0,
     maxOutputTokens: 600,
   });
@@ -683,286 +1207,412 @@ async function planSubqueries(req: ResearchRequest) {
   }
 
   const out = PlanResponseSchema.safeParse(raw);
-  if (!out.success) {
-    // Fallback to naive plan
-    return {
-      intent: req.question,
-      subqueries: [req.question],
-      focus: [],
-      constraints: {
-        timeRange: req.timeRange ?? null,
-        region: req.region ?? null,
-        allowedDomains: req.allowedDomains ?? null,
-        disallowedDomains: req.disallowedDomains ?? null,
-      },
-    };
-  }
+  if (!out.success) return naivePlan(req, [req.question]);
   if (!out.data.subqueries?.length) out.data.subqueries = [req.question];
   return out.data;
 }
 
-/* -------------------------------- Ingestion -------------------------------- */
+// The request's own constraints, with the given subqueries
+function naivePlan(req: ResearchRequest, subqueries: string[]) {
+  return {
+    intent: req.question,
+    subqueries,
+    focus: [] as string[],
+    constraints: {
+      timeRange: req.timeRange ?? null,
+      region: req.region ?? null,
+      allowedDomains: req.allowedDomains ?? null,
+      disallowedDomains: req.disallowedDomains ?? null,
+    },
+  };
+}
 
-type IngestResult =
-  | {
-      ok: true;
-      sourceId: string;
-      url: string;
-      domain: string;
-      title?: string | null;
+async function recordSearchEvents(
+  threadId: string,
+  queries: string[],
+  results: SearchResult[][]
+) {
+  if (queries.length === 0) return;
+  await db
+    .insert(searchEvents)
+    .values(
+      queries.map((q, i) => ({
+        id: newId(),
+        threadId,
+        query: q,
+        resultsJson: JSON.stringify(results[i] ?? []),
+      }))
+    )
+    .run();
+}
+
+/* ------------------------------ Web sources ------------------------------- */
+
+type WebSourcesArgs = {
+  req: ResearchRequest;
+  threadId: string;
+  subqueries: string[];
+  priorQueries: string[];
+  priorSources: SourceRef[];
+  seedRefs: SourceRef[]; // already read; not searched for again
+  emit: (e: DeepResearchEmitEvent) => void;
+  opts: DeepResearchOptions;
+};
+
+/**
+ * Search the web for the plan's subqueries and ingest the top hits.
+ * Returns null when nothing was found and the run has no seed or thread
+ * sources to fall back on.
+ */
+async function gatherWebSources({
+  req,
+  threadId,
+  subqueries,
+  priorQueries,
+  priorSources,
+  seedRefs,
+  emit,
+  opts,
+}: WebSourcesArgs): Promise<SourceRef[] | null> {
+  const abortSig = opts.signal;
+  const log = logger.child({ mod: "deepresearch" });
+
+  emit({
+    event: "progress",
+    data: { stage: "search", message: "Searching the web" },
+  });
+  const searchSpan = startSpan(log, "search");
+
+  const perQuery =
+    opts.perQueryResults ??
+    (req.depth === "deep" ? 12 : req.depth === "quick" ? 4 : 8);
+
+  // Subqueries this thread already searched are not repeated; their sources
+  // come back through priorSources instead.
+  const priorQueryKeys = new Set(priorQueries.map(normalizeQuery));
+  const toSearch = subqueries.filter(
+    (q) => !priorQueryKeys.has(normalizeQuery(q))
+  );
+  const reusedQueries = subqueries.length - toSearch.length;
+
+  // Fetch results per subquery (titles preserved)
+  const allResults: SearchResult[][] = await mapLimit(toSearch, 3, (q) =>
+    withRetry(
+      () =>
+        deepsearch(q, {
+          size: perQuery,
+          timeRange: req.timeRange,
+          allowedDomains: req.allowedDomains,
+          disallowedDomains: req.disallowedDomains,
+          region: req.region,
+          abortSignal: abortSig,
+        }),
+      { retries: 2, baseDelay: 400, signal: abortSig }
+    )
+  );
+
+  await recordSearchEvents(threadId, toSearch, allResults).catch((e) =>
+    logError(log, e, "search_events insert failed")
+  );
+
+  const searchResults = allResults.flat();
+
+  // Keep first-seen title (and any provider date) per URL
+  const urlMeta = new Map<
+    string,
+    { title?: string | null; publishedAt?: string | null }
+  >();
+  for (const r of searchResults) {
+    const prev = urlMeta.get(r.url);
+    if (!prev) {
+      urlMeta.set(r.url, { title: r.title ?? null, publishedAt: r.publishedAt });
+    } else if (!prev.publishedAt && r.publishedAt) {
+      prev.publishedAt = r.publishedAt;
     }
-  | { ok: false; url: string; error: string };
+  }
 
-async function ingestUrl(
-  url: string,
-  meta?: { title?: string },
-  prefer?: "jina" | "raw"
-): Promise<IngestResult> {
-  try {
-    const existing = await db
-      .select()
-      .from(sourcesTable)
-      .where(eq(sourcesTable.url, url))
-      .limit(1);
-    const title: string | null | undefined =
-      meta?.title ?? existing[0]?.title ?? null;
-
-    let sourceId: string;
-    if (existing.length > 0) {
-      sourceId = existing[0].id!;
-    } else {
-      const content = await readUrl(url, {
-        prefer: prefer ?? chooseReaderPrefer(url),
-      });
-      const text = sanitizeText(content.text, {
-        normalize: "NFKC",
-        removeControl: true,
-        collapseWhitespace: false,
-        preserveNewlines: true,
-        decodeEntities: true,
-      });
+  // Seeds are read already; the inline cap is for what search adds
+  const seedUrls = new Set([
+    ...(req.seedUrls ?? []),
+    ...seedRefs.map((s) => s.url),
+  ]);
+  const deduped = dedupeUrls(searchResults.map((r) => r.url)).filter(
+    (u) => !seedUrls.has(u)
+  );
+  searchSpan.end({ urls: deduped.length, reused: reusedQueries });
+  emit({
+    event: "progress",
+    data: {
+      stage: "search",
+      message:
+        reusedQueries > 0
+          ? `Found ${deduped.length} unique URLs (${reusedQueries} subqueries reused from thread)`
+          : `Found ${deduped.length} unique URLs`,
+      meta: {
+        unique: deduped.length,
+        reused: reusedQueries,
+        priorSources: priorSources.length,
+      },
+    },
+  });
 
-      sourceId = newId();
-      const domain = tryDomain(url);
-      await db
-        .insert(sourcesTable)
-        .values({
-          id: sourceId,
-          url,
-          domain,
-          title: title ?? null,
-          status: "ok",
-        })
-        .onConflictDoNothing({ target: sourcesTable.url })
-        .run();
+  if (deduped.length === 0 && priorSources.length === 0 && seedRefs.length === 0)
+    return null;
 
-      await db
-        .insert(sourceContent)
-        .values({ sourceId, text, html: content.html ?? null })
-        .onConflictDoNothing({ target: sourceContent.sourceId })
-        .run();
+  emit({
+    event: "progress",
+    data: { stage: "read", message: `Reading ${deduped.length} sources` },
+  });
+  const readSpan = startSpan(log, "read");
 
-      const windows = splitIntoWindows(text, {
-        targetTokens: 1000,
-        overlapRatio: 0.15,
-        charsPerToken: 4,
-        respectParagraphs: true,
-      });
+  const inlineCap = Math.min(
+    Math.max(1, opts.maxSourcesInline ?? env.MAX_SOURCES_INLINE),
+    deduped.length
+  );
+  const urlsInline = deduped.slice(0, inlineCap);
 
-      let pos = 0;
-      for (const w of windows) {
-        await db
-          .insert(chunksTable)
-          .values({
-            id: newId(),
-            sourceId,
-            pos: pos++,
-            charStart: w.charStart,
-            charEnd: w.charEnd,
-            text: w.text,
-            tokens: w.approxTokens,
-          })
-          .run();
+  // Ingest with small progress updates
+  let readDone = 0;
+  const ingested = await mapLimit(urlsInline, readConcurrency(), async (u) => {
+    const res = await withRetry(
+      () =>
+        ingestUrl(u, {
+          title: urlMeta.get(u)?.title ?? undefined,
+          publishedAt: urlMeta.get(u)?.publishedAt,
+          prefer: chooseReaderPrefer(u),
+          signal: abortSig,
+        }),
+      {
+        retries: 1,
+        baseDelay: 500,
+        signal: abortSig,
       }
+    ).catch((e) => {
+      if (abortSig?.aborted) throw e;
+      // One unreadable page should not sink the run
+      logError(log, e, "ingest failed", { url: u });
+      return null;
+    });
+    readDone++;
+    if (readDone === urlsInline.length || readDone % 2 === 0) {
+      emit({
+        event: "progress",
+        data: {
+          stage: "read",
+          message: `Read ${readDone}/${urlsInline.length}`,
+          meta: { done: readDone, total: urlsInline.length },
+        },
+      });
     }
+    return res;
+  });
 
-    const row =
-      existing.length > 0
-        ? existing[0]
-        : (
-            await db
-              .select()
-              .from(sourcesTable)
-              .where(eq(sourcesTable.id, sourceId))
-              .limit(1)
-          )[0];
-
-    return {
-      ok: true,
-      sourceId,
-      url,
-      domain: row.domain!,
-      title: row.title ?? title ?? null,
-    };
-  } catch (e: any) {
-    return { ok: false, url, error: e?.message ?? "ingest failed" };
+  const readOk = ingested.filter((x): x is IngestedSource => x !== null);
+
+  // Providers apply timeRange loosely; enforce it on the dates we found
+  const okIngests = readOk.filter((s) =>
+    isWithinTimeRange(s.publishedAt, req.timeRange)
+  );
+  const outOfRange = readOk.length - okIngests.length;
+  readSpan.end({ sources: okIngests.length, outOfRange });
+  if (outOfRange > 0) {
+    emit({
+      event: "progress",
+      data: {
+        stage: "read",
+        message: `Dropped ${outOfRange} sources published outside the time range`,
+        meta: { dropped: outOfRange, timeRange: req.timeRange ?? null },
+      },
+    });
   }
+
+  return okIngests.map((s, idx) => ({
+    id: s.sourceId,
+    url: s.url,
+    title: s.title ?? null,
+    domain: s.domain ?? null,
+    publishedAt: s.publishedAt,
+    index: idx + 1,
+  }));
 }
 
-/* --------------------------------- Ranking --------------------------------- */
+/* ------------------------------ Seed sources ------------------------------ */
 
-async function ensureFts5(): Promise<void> {
-  // Create FTS table and triggers (external content)
-  await client.execute({
-    sql: `
-      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts
-      USING fts5(text, content='chunks', content_rowid='rowid');
-    `,
-    args: [],
-  });
+type SeedSourcesArgs = {
+  req: ResearchRequest;
+  emit: (e: DeepResearchEmitEvent) => void;
+  opts: DeepResearchOptions;
+};
 
-  await client.execute({
-    sql: `
-      CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
-        INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
-      END;
-    `,
-    args: [],
-  });
+/**
+ * Read the request's seed URLs and look up its source ids, in the order given.
+ * Exempt from MAX_SOURCES_INLINE and the time range: the user chose them.
+ */
+async function gatherSeedSources({
+  req,
+  emit,
+  opts,
+}: SeedSourcesArgs): Promise<SourceRef[]> {
+  const urls = dedupeUrls(req.seedUrls ?? []);
+  const ids = Array.from(new Set(req.sourceIds ?? []));
+  if (urls.length === 0 && ids.length === 0) return [];
 
-  await client.execute({
-    sql: `
-      CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
-        INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.rowid, old.text);
-      END;
-    `,
-    args: [],
-  });
+  const abortSig = opts.signal;
+  const log = logger.child({ mod: "deepresearch" });
 
-  await client.execute({
-    sql: `
-      CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
-        INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.rowid, old.text);
-        INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
-      END;
-    `,
-    args: [],
+  emit({
+    event: "progress",
+    data: {
+      stage: "read",
+      message: `Reading ${urls.length + ids.length} supplied sources`,
+      meta: { seedUrls: urls.length, sourceIds: ids.length },
+    },
   });
+  const seedSpan = startSpan(log, "seeds");
+
+  const known =
+    ids.length > 0
+      ? await db
+          .select({
+            id: sourcesTable.id,
+            url: sourcesTable.url,
+            title: sourcesTable.title,
+            domain: sourcesTable.domain,
+            publishedAt: sourcesTable.publishedAt,
+          })
+          .from(sourcesTable)
+          .where(inArray(sourcesTable.id, ids))
+      : [];
+  const byId = new Map(known.map((s) => [s.id, s]));
 
-  // Try rebuild; if still empty, backfill manually
-  try {
-    await client.execute({
-      sql: `INSERT INTO chunks_fts(chunks_fts) VALUES('rebuild');`,
-      args: [],
+  const read = await mapLimit(urls, readConcurrency(), (u) =>
+    withRetry(
+      () => ingestUrl(u, { prefer: chooseReaderPrefer(u), signal: abortSig }),
+      { retries: 1, baseDelay: 500, signal: abortSig }
+    ).catch((e) => {
+      if (abortSig?.aborted) throw e;
+      logError(log, e, "seed ingest failed", { url: u });
+      return null;
+    })
+  );
+
+  const refs = new Map<string, SourceRef>();
+  for (const s of read) {
+    if (!s || refs.has(s.sourceId)) continue;
+    refs.set(s.sourceId, {
+      id: s.sourceId,
+      url: s.url,
+      title: s.title ?? null,
+      domain: s.domain ?? null,
+      publishedAt: s.publishedAt,
+      index: refs.size + 1,
     });
-  } catch {
-    // ignore
   }
-}
-
-async function backfillFtsFromChunks() {
-  try {
-    const cntFts = await client.execute({
-      sql: `SELECT COUNT(1) AS c FROM chunks_fts;`,
-      args: [],
+  for (const id of ids) {
+    const s = byId.get(id);
+    if (!s || refs.has(id)) continue;
+    refs.set(id, {
+      id: s.id,
+      url: s.url,
+      title: s.title ?? null,
+      domain: s.domain ?? null,
+      publishedAt: s.publishedAt ?? null,
+      index: refs.size + 1,
     });
-    const cFts = Number((cntFts.rows?.[0] as any)?.c ?? 0);
+  }
 
-    if (cFts === 0) {
-      await client.execute({
-        sql: `INSERT INTO chunks_fts(rowid, text) SELECT rowid, text FROM chunks;`,
-        args: [],
-      });
-    }
-  } catch {
-    // ignore
+  const failedUrls = read.filter((s) => s === null).length;
+  const unknownIds = ids.filter((id) => !byId.has(id));
+  seedSpan.end({ sources: refs.size, failedUrls, unknownIds: unknownIds.length });
+  if (failedUrls + unknownIds.length > 0) {
+    emit({
+      event: "progress",
+      data: {
+        stage: "read",
+        message: `Could not load ${failedUrls + unknownIds.length} of the supplied sources`,
+        meta: { failedUrls, unknownIds },
+      },
+    });
   }
+
+  return Array.from(refs.values());
 }
 
-async function likeFallbackRank(
+/**
+ * Best snippets of sources that must be in the context but were outranked.
+ * Ranks within those sources only; a source nothing matches contributes its
+ * opening chunk.
+ */
+export async function hitsForPinnedSources(
   queries: string[],
   sourceIds: string[],
-  cap: number
-): Promise<Array<{ id: string; sourceId: string; text: string }>> {
-  if (sourceIds.length === 0) return [];
-  const tokens = extractQueryTerms(queries.join(" "));
-  if (tokens.length === 0) return [];
+  rankOpts: RankOptions
+): Promise<RankedChunk[]> {
+  const perSource = rankOpts.perSourceLimit ?? 3;
+  const ranked = await rankForQueries(queries, {
+    ...rankOpts,
+    cap: sourceIds.length * perSource,
+    scope: { sourceIds },
+    reuse: undefined,
+    collapseDuplicates: false,
+  });
 
-  const placeholders = sourceIds.map(() => "?").join(",");
-  const likeClauses = tokens.map(() => "text LIKE ?").join(" OR ");
-  const args = [...sourceIds, ...tokens.map((t) => `%${t}%`), cap];
+  const covered = new Set(ranked.map((h) => h.sourceId));
+  const uncovered = sourceIds.filter((id) => !covered.has(id));
+  if (uncovered.length === 0) return ranked;
 
-  try {
-    const res = await client.execute({
-      sql: `
-        SELECT id, source_id AS sourceId, text, tokens
-        FROM chunks
-        WHERE source_id IN (${placeholders})
-          AND (${likeClauses})
-        ORDER BY tokens DESC
-        LIMIT ?;
-      `,
-      args,
-    });
-    const rows = Array.isArray(res.rows) ? (res.rows as any[]) : [];
-    return rows.map((r) => ({
-      id: String(r.id),
-      sourceId: String(r.sourceId),
-      text: String(r.text ?? ""),
-    }));
-  } catch {
-    return [];
-  }
+  const openers = await db
+    .select({
+      id: chunksTable.id,
+      sourceId: chunksTable.sourceId,
+      text: chunksTable.text,
+    })
+    .from(chunksTable)
+    .where(and(inArray(chunksTable.sourceId, uncovered), eq(chunksTable.pos, 0)));
+  return [...ranked, ...openers.map((c) => ({ ...c, score: 0 }))];
 }
 
-function extractQueryTerms(q: string): string[] {
-  return (q || "")
-    .toLowerCase()
-    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
-    .split(/\s+/)
-    .filter((t) => t.length >= 3 && !STOPWORDS.has(t))
-    .slice(0, 8);
-}
+/* ------------------------------ No sources -------------------------------- */
+
+// Persist the turn with an explanatory reply and close the stream
+async function finishWithoutSources(
+  threadId: string,
+  question: string,
+  assistantText: string,
+  emit: (e: DeepResearchEmitEvent) => void
+): Promise<DeepResearchResult> {
+  const userMsgId = newId();
+  const assistantMsgId = newId();
+  await db
+    .insert(messages)
+    .values([
+      { id: userMsgId, threadId, role: "user", contentMd: question },
+      {
+        id: assistantMsgId,
+        threadId,
+        role: "assistant",
+        contentMd: assistantText,
+      },
+    ])
+    .run();
+
+  emit({ event: "sources", data: [] });
+  emit({ event: "claims", data: { claims: [] } });
+  emit({ event: "done", data: { threadId, messageId: assistantMsgId } });
 
-const STOPWORDS = new Set<string>([
-  "the",
-  "and",
-  "for",
-  "with",
-  "that",
-  "are",
-  "was",
-  "were",
-  "this",
-  "from",
-  "have",
-  "has",
-  "had",
-  "but",
-  "not",
-  "you",
-  "your",
-  "into",
-  "about",
-  "over",
-  "under",
-  "what",
-  "which",
-  "when",
-  "where",
-  "why",
-  "how",
-  "who",
-  "whom",
-  "can",
-  "could",
-  "would",
-  "should",
-]);
+  return {
+    threadId,
+    question,
+    sources: [],
+    context: { sources: [], chunks: [] },
+    answerMarkdown: assistantText,
+    verified: { claims: [] },
+  };
+}
 
 /* --------------------------------- Verify ---------------------------------- */
 
-function normalizeVerifiedClaims(
+export function normalizeVerifiedClaims(
   input: VerifyClaimsResponse,
   allowedSourceIds: Set<string>,
   allowedChunkIds: Set<string>
@@ -1022,7 +1672,7 @@ async function bindOffsetsForEvidence(verified: VerifyClaimsResponse) {
   }
 }
 
-async function persistClaims(
+export async function persistClaims(
   threadId: string,
   messageId: string,
   verified: VerifyClaimsResponse
@@ -1063,6 +1713,73 @@ async function persistClaims(
 
 /* --------------------------------- Utils ---------------------------------- */
 
+const ANSWER_MAX_OUTPUT_TOKENS = 900;
+
+const RATE_LIMITED_ANSWER =
+  "The answer model is over its rate limit right now, so no answer was drafted. " +
+  "The sources found for this question are kept; regenerate the answer in a minute.";
+
+// Answer input: 3200 tokens at the default answer limit, scaled with the
+// scheduler's configured or learned one (scheduler.ts), and never more than
+// one call may spend beside its reply
+function answerBudget() {
+  const budget = tokenBudget("answer");
+  return {
+    inputTokens: Math.max(
+      1200,
+      Math.min(
+        budget.perCall - ANSWER_MAX_OUTPUT_TOKENS,
+        Math.round(3200 * budget.scale)
+      )
+    ),
+    overheadTokens: Math.max(
+      400,
+      Number(process.env.ANSWER_PROMPT_OVERHEAD_TOKENS ?? 800)
+    ),
+    maxCharsPerChunk: Math.max(
+      400,
+      Number(process.env.ANSWER_MAX_CHARS_PER_CHUNK ?? 900)
+    ),
+  };
+}
+
+// Verify snippets: the answer's shrunk chunks, shrunk and trimmed again
+// (tighter, since verify is non-streaming). 1500 tokens at the default
+// verify limit, scaled like the answer's, and capped by what a verify prompt
+// has left beside the answer (at most a full reply).
+function verifySnippetsFor(shrunkChunks: ContextChunk[]): {
+  snippets: { sourceId: string; chunkId?: string; text: string }[];
+  overheadTokens: number;
+} {
+  const inputTokens = Math.max(
+    800,
+    Math.min(
+      verifyPromptBudget() - ANSWER_MAX_OUTPUT_TOKENS,
+      Math.round(1500 * tokenBudget("verify").scale)
+    )
+  );
+  const overheadTokens = Math.max(
+    300,
+    Number(process.env.VERIFY_PROMPT_OVERHEAD_TOKENS ?? 500)
+  );
+
+  const snippets = trimChunksToBudget(
+    shrunkChunks.map((c) => ({
+      sourceId: c.sourceId,
+      chunkId: c.chunkId,
+      text: shrinkChunkText(c.text, 400), // Tighter for verify
+    })),
+    inputTokens,
+    overheadTokens
+  ).map((c) => ({ sourceId: c.sourceId, chunkId: c.chunkId, text: c.text }));
+
+  return { snippets, overheadTokens };
+}
+
+function maxClaimsFor(depth: Depth): number {
+  return depth === "quick" ? 6 : depth === "deep" ? 18 : 12;
+}
+
 // Trim chunks to fit a rough input-token budget.
 // We use estimateTokens (chars/4) for a conservative approximation and reserve ~600 tokens for prompt overhead.
 function trimChunksToBudget(
@@ -1119,12 +1836,28 @@ function shrinkChunkText(text: string, maxChars: number): string {
 //   return out;
 // }
 
-function tryDomain(u: string): string {
-  try {
-    return new URL(u).hostname;
-  } catch {
-    return "unknown";
+// Read concurrency (tunable via READER_CONCURRENCY; default 2)
+function readConcurrency(): number {
+  return Math.max(1, Math.min(4, Number(process.env.READER_CONCURRENCY ?? 2)));
+}
+
+function isTimeSensitive(req: ResearchRequest): boolean {
+  if (req.timeRange?.from || req.timeRange?.to) return true;
+  return /\b(latest|recent(ly)?|current(ly)?|today|this (week|month|year)|news|upcoming|as of|20\d{2})\b/i.test(
+    req.question
+  );
+}
+
+function dedupeQueries(queries: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const q of queries) {
+    const key = normalizeQuery(q);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(q.trim());
   }
+  return out;
 }
 
 function dedupeUrls(urls: string[]): string[] {
@@ -1,18 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import "server-only";
-import { tavily } from "@tavily/core";
-import Firecrawl from "@mendable/firecrawl-js";
 import { env } from "@/lib/env";
 import { logger, logError, startSpan } from "@/lib/logger";
+import { resolveProviderChain, type ProviderChainEntry } from "./search/registry";
+import type { SearchResult, ProviderSearchOptions } from "./search/types";
+import { dedupeResults, loosenQuery, postFilter } from "./search/utils";
+import { recordUsage } from "./usage";
 
-export type SearchResult = {
-  url: string;
-  title?: string;
-  snippet?: string;
-  score?: number;
-  publishedAt?: string | null;
-  source?: "jina"; // keep literal for downstream compatibility
-};
+export type { SearchResult } from "./search/types";
 
 export type DeepsearchOptions = {
   size?: number;
@@ -22,6 +17,8 @@ export type DeepsearchOptions = {
   region?: string;
   abortSignal?: AbortSignal;
   timeoutMs?: number; // default ~45s
+  providers?: string[]; // overrides SEARCH_PROVIDERS for this call
+  mode?: "cascade" | "merge"; // overrides SEARCH_MODE
   chatTimeoutMs?: number; // kept for compat (unused)
   prewarm?: boolean; // no-op here
   disableChatFallback?: boolean; // no-op here
@@ -30,28 +27,15 @@ export type DeepsearchOptions = {
 // Defaults
 const DEFAULT_SEARCH_TIMEOUT = Math.max(10_000, env.REQUEST_TIMEOUT_MS ?? 45_000);
 
-/* ------------------------------- Singletons -------------------------------- */
-
-let tvlyClient: ReturnType<typeof tavily> | null = null;
-function getTavily() {
-  if (tvlyClient) return tvlyClient;
-  const apiKey = process.env.TAVILY_API_KEY || "";
-  if (!apiKey) return null;
-  tvlyClient = tavily({ apiKey });
-  return tvlyClient;
-}
-
-let firecrawlClient: Firecrawl | null = null;
-function getFirecrawl(): Firecrawl | null {
-  if (firecrawlClient) return firecrawlClient;
-  const apiKey = process.env.FIRECRAWL_API_KEY || "";
-  if (!apiKey) return null;
-  firecrawlClient = new Firecrawl({ apiKey });
-  return firecrawlClient;
-}
-
 /* --------------------------------- Entry ----------------------------------- */
 
+/**
+ * Search the configured provider chain.
+ * - cascade: providers in order, first non-empty wins; then one broadened pass
+ *   (loosened query, domain filters relaxed) over the same chain.
+ * - merge: all providers in parallel, fused by weighted reciprocal rank.
+ * Every result keeps the name of the provider that returned it in `source`.
+ */
 export async function deepsearch(
   query: string,
   opts: DeepsearchOptions = {}
@@ -60,50 +44,45 @@ export async function deepsearch(
   const span = startSpan(log, "deepsearch");
   if (!query || !query.trim()) return [];
 
-  const searchTimeout = opts.timeoutMs ?? DEFAULT_SEARCH_TIMEOUT;
+  const chain = resolveProviderChain(
+    opts.providers?.join(",") ?? env.SEARCH_PROVIDERS
+  );
+  if (chain.length === 0) {
+    log.warn({ providers: opts.providers ?? env.SEARCH_PROVIDERS }, "No configured search providers");
+    span.end({ count: 0, via: "none", error: true });
+    return [];
+  }
+
+  const mode = opts.mode ?? env.SEARCH_MODE;
+  const base: ProviderSearchOptions = {
+    size: Math.max(1, Math.min(50, opts.size ?? 8)),
+    timeRange: opts.timeRange,
+    allowedDomains: opts.allowedDomains,
+    disallowedDomains: opts.disallowedDomains,
+    region: opts.region,
+    abortSignal: opts.abortSignal,
+    timeoutMs: opts.timeoutMs ?? DEFAULT_SEARCH_TIMEOUT,
+  };
+  const run = mode === "merge" ? mergeSearch : cascadeSearch;
 
   try {
-    // 1) Tavily primary
-    const primary = await tavilySearch(query, opts, searchTimeout, {
-      widen: false,
-      relax: false,
-    });
-    if (primary.items.length > 0) {
-      span.end({ count: primary.items.length, via: "tavily", prewarm: false });
-      return primary.items;
+    // 1) Strict pass
+    const strict = await run(chain, query, base);
+    if (strict.items.length > 0) {
+      span.end({ count: strict.items.length, via: strict.via, mode });
+      return strict.items;
     }
 
-    // 2) Broaden-and-retry Tavily
-    const relaxedQuery = loosenQuery(query);
-    const broadened = await tavilySearch(relaxedQuery || query, opts, searchTimeout, {
-      widen: true,
-      relax: true,
+    // 2) Broadened pass
+    const relaxedQuery = loosenQuery(query) || query;
+    const broadened = await run(chain, relaxedQuery, { ...base, broaden: true });
+    span.end({
+      count: broadened.items.length,
+      via: broadened.items.length ? `${broadened.via}-broadened` : "empty",
+      mode,
+      error: broadened.items.length === 0,
     });
-    if (broadened.items.length > 0) {
-      span.end({
-        count: broadened.items.length,
-        via: "tavily-broadened",
-        prewarm: false,
-      });
-      return broadened.items;
-    }
-
-    // 3) Firecrawl fallback (if key present)
-    const hasFirecrawl = !!process.env.FIRECRAWL_API_KEY;
-    if (hasFirecrawl) {
-      const f = await firecrawlSearch(relaxedQuery || query, opts, searchTimeout);
-      if (f.length > 0) {
-        span.end({
-          count: f.length,
-          via: "firecrawl-fallback",
-          prewarm: false,
-        });
-        return f;
-      }
-    }
-
-    span.end({ count: 0, via: "tavily-empty", error: true, prewarm: false });
-    return [];
+    return broadened.items;
   } catch (e) {
     logError(log, e, "deepsearch failed", { query });
     span.end({ error: true });
@@ -122,354 +101,110 @@ export async function deepsearchBatch(
   return dedupeResults(all.flat());
 }
 
-/* ------------------------------ Tavily SDK --------------------------------- */
+/* -------------------------------- Strategies ------------------------------- */
 
-type TavilySearchDepth = "basic" | "advanced";
-type TavilyTopic = "general" | "news" | "finance";
+type PassResult = { items: SearchResult[]; via: string };
 
-async function tavilySearch(
+async function cascadeSearch(
+  chain: ProviderChainEntry[],
   query: string,
-  opts: DeepsearchOptions,
-  timeoutMs: number,
-  behavior: { widen: boolean; relax: boolean }
-): Promise<{ items: SearchResult[]; reason?: string }> {
-  const client = getTavily();
-  if (!client) return { items: [], reason: "missing_tavily_key" };
-
-  const baseTopK = Math.max(1, Math.min(50, opts.size ?? 8));
-  const max_results = behavior.widen ? Math.max(8, Math.min(20, baseTopK + 4)) : baseTopK;
-
-  // Depth & topic
-  const search_depth =
-    ((process.env.TAVILY_SEARCH_DEPTH as TavilySearchDepth) || "advanced") as TavilySearchDepth;
-
-  // Don’t force 'news' automatically; leave to env override
-  const topic = ((process.env.TAVILY_TOPIC as TavilyTopic) || "general") as TavilyTopic;
-
-  // Optional country boost (exact string name per docs); avoid mapping region automatically
-  const country = process.env.TAVILY_COUNTRY || undefined;
-
-  // Time constraints: prefer exact start/end; else coarse time_range
-  const start_date = toISODate(opts.timeRange?.from);
-  const end_date = toISODate(opts.timeRange?.to);
-  const time_range = !start_date && !end_date ? toTavilyTimeRange(opts.timeRange) : undefined;
-
-  // Domains (relaxed when broadening)
-  const include_domains =
-    behavior.relax ? undefined : (opts.allowedDomains?.length ? opts.allowedDomains : undefined);
-  const exclude_domains =
-    behavior.relax
-      ? undefined
-      : (opts.disallowedDomains?.length ? opts.disallowedDomains : undefined);
-
-  // Optional: auto_parameters (costs more credits)
-  const auto_params = ["1", "true", "yes"].includes(
-    String(process.env.TAVILY_AUTO_PARAMETERS || "").toLowerCase()
-  );
-
-  try {
-    const resp = await client.search(
-      {
-        query,
-        max_results,
-        search_depth,
-        topic,
-        include_answer: false,
-        include_raw_content: false,
-        include_images: false,
-        include_favicon: false,
-        ...(auto_params ? { auto_parameters: true } : {}),
-        ...(include_domains ? { include_domains } : {}),
-        ...(exclude_domains ? { exclude_domains } : {}),
-        ...(time_range ? { time_range } : {}),
-        ...(start_date ? { start_date } : {}),
-        ...(end_date ? { end_date } : {}),
-        ...(country ? { country } : {}),
-      } as any,
-      {
-        timeoutInSeconds: Math.max(1, Math.floor(timeoutMs / 1000)),
-        abortSignal: opts.abortSignal,
-      }
+  opts: ProviderSearchOptions
+): Promise<PassResult> {
+  for (const { provider, weight } of chain) {
+    const items = await runProvider(provider.name, () =>
+      provider.search(query, opts)
     );
-
-    const results = Array.isArray((resp as any)?.results) ? (resp as any).results : [];
-    const mapped: SearchResult[] = results
-      .map((it: any) => {
-        const url = typeof it?.url === "string" ? it.url : undefined;
-        if (!url) return null;
-        const canon = canonicalizeUrl(url);
-        if (!canon) return null;
-        const title =
-          typeof it?.title === "string"
-            ? it.title
-            : typeof it?.name === "string"
-            ? it.name
-            : undefined;
-        const snippet =
-          typeof it?.content === "string"
-            ? it.content
-            : typeof it?.description === "string"
-            ? it.description
-            : undefined;
-        const published =
-          typeof it?.published_date === "string"
-            ? it.published_date
-            : typeof it?.published_time === "string"
-            ? it.published_time
-            : typeof it?.date === "string"
-            ? it.date
-            : null;
-
-        return {
-          url: canon,
-          title,
-          snippet,
-          score: undefined,
-          publishedAt: published,
-          source: "jina",
-        } satisfies SearchResult;
-      })
-      .filter(Boolean) as SearchResult[];
-
-    const filtered = postFilter(mapped, {
-      allowed: behavior.relax ? undefined : opts.allowedDomains,
-      disallowed: behavior.relax ? undefined : opts.disallowedDomains,
-    });
-
-    return { items: dedupeResults(filtered) };
-  } catch (e: any) {
-    // Tavily SDK throws on non-2xx; treat as no results so fallback can run
-    return { items: [], reason: String(e?.message || "tavily_error") };
+    const filtered = filterForPass(items, opts);
+    if (filtered.length > 0) {
+      return {
+        items: dedupeResults(filtered)
+          .slice(0, opts.size + (opts.broaden ? 4 : 0))
+          .map((r) => weighted(r, weight)),
+        via: provider.name,
+      };
+    }
   }
+  return { items: [], via: "none" };
 }
 
-/* --------------------------- Firecrawl Search SDK -------------------------- */
-
-async function firecrawlSearch(
+async function mergeSearch(
+  chain: ProviderChainEntry[],
   query: string,
-  opts: DeepsearchOptions,
-  timeoutMs: number
-): Promise<SearchResult[]> {
-  const client = getFirecrawl();
-  if (!client) return [];
-
-  // Compute limit
-  const topK = Math.max(1, Math.min(20, opts.size ?? 8));
-
-  // Optional country/location
-  const location = process.env.FIRECRAWL_COUNTRY;
-
-  // Time window → tbs
-  const tbs = toFirecrawlTbs(opts.timeRange);
-
-  try {
-    const resp: any = await client.search(query, {
-      limit: topK,
-      ...(location ? { location } : {}),
-      ...(tbs ? { tbs } : {}),
-      // We are NOT scraping content here to keep it cheap and fast
-      // scrapeOptions: { formats: ['markdown'] }
-      timeout: Math.max(1, Math.floor(timeoutMs)), // ms
-    });
-
-    // SDK returns a data object. Gather URLs from web/news arrays if present.
-    const data = resp?.data ?? resp ?? {};
-    const web: any[] = Array.isArray(data.web) ? data.web : [];
-    const news: any[] = Array.isArray(data.news) ? data.news : [];
-    // Sometimes SDK returns an array directly when scraping content; guard:
-    const flat: any[] = Array.isArray(data) ? data : [];
-
-    const rows = [...web, ...news, ...flat].slice(0, topK);
-
-    const mapped: SearchResult[] = rows
-      .map((it: any) => {
-        const url = typeof it?.url === "string" ? it.url : undefined;
-        if (!url) return null;
-        const canon = canonicalizeUrl(url);
-        if (!canon) return null;
-        const title = typeof it?.title === "string" ? it.title : undefined;
-        const snippet =
-          typeof it?.description === "string"
-            ? it.description
-            : typeof it?.snippet === "string"
-            ? it.snippet
-            : undefined;
-        return { url: canon, title, snippet, source: "jina" } as SearchResult;
-      })
-      .filter(Boolean) as SearchResult[];
+  opts: ProviderSearchOptions
+): Promise<PassResult> {
+  const lists = await Promise.all(
+    chain.map(({ provider }) =>
+      runProvider(provider.name, () => provider.search(query, opts)).then(
+        (items) => dedupeResults(filterForPass(items, opts))
+      )
+    )
+  );
 
-    const filtered = postFilter(mapped, {
-      allowed: opts.allowedDomains,
-      disallowed: opts.disallowedDomains,
+  // Weighted RRF; the label goes to the provider contributing the most
+  const K = 60;
+  const fused = new Map<
+    string,
+    { item: SearchResult; score: number; best: number }
+  >();
+  lists.forEach((items, li) => {
+    const { weight } = chain[li];
+    items.forEach((item, rank) => {
+      const contrib = weight / (K + rank + 1);
+      const prev = fused.get(item.url);
+      if (!prev) {
+        fused.set(item.url, { item, score: contrib, best: contrib });
+        return;
+      }
+      prev.score += contrib;
+      if (contrib > prev.best) {
+        prev.best = contrib;
+        prev.item = { ...item, publishedAt: item.publishedAt ?? prev.item.publishedAt };
+      }
     });
+  });
 
-    return dedupeResults(filtered).slice(0, topK);
-  } catch {
-    return [];
-  }
-}
-
-/* ------------------------------ Helpers/utils ------------------------------ */
-
-// Loosen query (remove quotes/parentheses and collapse whitespace)
-function loosenQuery(q: string): string {
-  return (q || "")
-    .replace(/[“”"']/g, " ")
-    .replace(/[()]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function toISODate(x?: string) {
-  if (!x) return undefined;
-  const d = new Date(x);
-  if (Number.isNaN(d.getTime())) return undefined;
-  return d.toISOString().slice(0, 10);
-}
+  const items = Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.size + (opts.broaden ? 4 : 0))
+    .map(({ item, score }) => ({ ...item, score: Number(score.toFixed(6)) }));
 
-// Tavily coarse time_range mapper
-function toTavilyTimeRange(
-  tr?: { from?: string; to?: string }
-): "day" | "week" | "month" | "year" | undefined {
-  const norm = normalizeTimeRange(tr);
-  if (!norm?.from && !norm?.to) return undefined;
-  try {
-    const from = norm.from ? new Date(norm.from) : undefined;
-    const to = norm.to ? new Date(norm.to) : new Date();
-    const ms = (to?.getTime() ?? Date.now()) - (from?.getTime() ?? Date.now());
-    const days = Math.max(1, Math.round(ms / (24 * 3600 * 1000)));
-    if (days <= 7) return "week";
-    if (days <= 31) return "month";
-    return "year";
-  } catch {
-    return undefined;
-  }
+  const via = chain
+    .filter((_, i) => lists[i].length > 0)
+    .map((c) => c.provider.name)
+    .join("+");
+  return { items, via: via || "none" };
 }
 
-// Firecrawl tbs (time-based search): qdr:h/d/w/m/y or custom ranges
-function toFirecrawlTbs(tr?: { from?: string; to?: string }): string | undefined {
-  const norm = normalizeTimeRange(tr);
-  if (!norm?.from && !norm?.to) return undefined;
-  // If from is within last day/week/month/year choose qdr; otherwise custom CDR
+// Provider errors count as "no results" so the next provider can run
+async function runProvider(
+  name: string,
+  fn: () => Promise<SearchResult[]>
+): Promise<SearchResult[]> {
+  // Billed per request, results or not
+  recordUsage({ provider: name });
   try {
-    const from = norm.from ? new Date(norm.from) : undefined;
-    const to = norm.to ? new Date(norm.to) : new Date();
-    const ms = (to?.getTime() ?? Date.now()) - (from?.getTime() ?? Date.now());
-    const days = Math.max(1, Math.round(ms / (24 * 3600 * 1000)));
-    if (days <= 1) return "qdr:d";
-    if (days <= 7) return "qdr:w";
-    if (days <= 31) return "qdr:m";
-    if (days <= 365) return "qdr:y";
-    // Custom date range (US format per docs)
-    const cdMin = from ? toUsDate(from) : undefined;
-    const cdMax = to ? toUsDate(to) : undefined;
-    if (cdMin || cdMax) {
-      return `cdr:1${cdMin ? `,cd_min:${cdMin}` : ""}${cdMax ? `,cd_max:${cdMax}` : ""}`;
-    }
-    return undefined;
-  } catch {
-    return undefined;
+    const items = await fn();
+    return items.map((r) => ({ ...r, source: r.source ?? name }));
+  } catch (e: any) {
+    if (e?.name === "AbortError") throw e;
+    logger
+      .child({ mod: "deepsearch" })
+      .warn({ provider: name, err: String(e?.message ?? e) }, "search provider failed");
+    return [];
   }
 }
 
-function toUsDate(d: Date): string {
-  const mm = String(d.getMonth() + 1).padStart(1, "0");
-  const dd = String(d.getDate()).padStart(1, "0");
-  const yyyy = d.getFullYear();
-  return `${mm}/${dd}/${yyyy}`;
-}
-
-function normalizeTimeRange(tr?: { from?: string; to?: string }) {
-  if (!tr) return undefined;
-  const from = isoOrUndefined(tr.from);
-  const to = isoOrUndefined(tr.to);
-  if (!from && !to) return undefined;
-  return { from, to };
-}
-function isoOrUndefined(x?: string) {
-  if (!x) return undefined;
-  const d = new Date(x);
-  return Number.isNaN(d.getTime()) ? undefined : d.toISOString().slice(0, 10);
-}
-
-/* -------------------------------- Shared utils ----------------------------- */
-
-function postFilter(
-  items: SearchResult[],
-  opts: { allowed?: string[]; disallowed?: string[] }
-): SearchResult[] {
-  const allowed = normDomains(opts.allowed ?? []);
-  const disallowed = normDomains(opts.disallowed ?? []);
-  return items.filter((r) => {
-    let host = "";
-    try {
-      host = new URL(r.url).hostname.toLowerCase();
-    } catch {
-      return false;
-    }
-    if (allowed.length > 0 && !allowed.some((d) => host === d || host.endsWith("." + d)))
-      return false;
-    if (disallowed.length > 0 && disallowed.some((d) => host === d || host.endsWith("." + d)))
-      return false;
-    return true;
+function filterForPass(items: SearchResult[], opts: ProviderSearchOptions) {
+  return postFilter(items, {
+    allowed: opts.broaden ? undefined : opts.allowedDomains,
+    disallowed: opts.broaden ? undefined : opts.disallowedDomains,
   });
 }
 
-function dedupeResults(items: SearchResult[]): SearchResult[] {
-  const seen = new Set<string>();
-  const out: SearchResult[] = [];
-  for (const it of items) {
-    const key = it.url;
-    if (!key || seen.has(key)) continue;
-    seen.add(key);
-    out.push(it);
-  }
-  return out;
-}
-
-function normDomains(xs: string[]): string[] {
-  const out: string[] = [];
-  for (const x of xs) {
-    if (!x) continue;
-    const h = x.replace(/^https?:\/\//i, "").split("/")[0].toLowerCase();
-    if (h) out.push(h);
-  }
-  return out;
-}
-
-function canonicalizeUrl(u: string): string | null {
-  try {
-    const url = new URL(u);
-    url.hash = "";
-    const toDelete: string[] = [];
-    url.searchParams.forEach((_, k) => {
-      const lk = k.toLowerCase();
-      if (
-        lk.startsWith("utm_") ||
-        lk === "gclid" ||
-        lk === "fbclid" ||
-        lk === "mc_cid" ||
-        lk === "mc_eid" ||
-        lk === "ref" ||
-        lk === "ref_src"
-      ) {
-        toDelete.push(k);
-      }
-    });
-    toDelete.forEach((k) => url.searchParams.delete(k));
-    const entries = Array.from(url.searchParams.entries()).sort(([a], [b]) =>
-      a.localeCompare(b)
-    );
-    url.search = "";
-    for (const [k, v] of entries) url.searchParams.append(k, v);
-    if (url.pathname.endsWith("/") && url.pathname !== "/")
-      url.pathname = url.pathname.replace(/\/+$/, "");
-    url.protocol = url.protocol.toLowerCase();
-    url.hostname = url.hostname.toLowerCase();
-    return url.toString();
-  } catch {
-    return null;
-  }
+function weighted(r: SearchResult, weight: number): SearchResult {
+  return weight === 1 || typeof r.score !== "number"
+    ? r
+    : { ...r, score: r.score * weight };
 }
 
 /* --------------------------------- Timing ---------------------------------- */
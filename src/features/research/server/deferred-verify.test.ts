@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { estimateTokens } from "@/lib/text";
+import type { VerifiedClaim } from "../types";
+import { batchSnippets, mergeClaims } from "./deferred-verify";
+import type { Snippet } from "./verify";
+
+describe("batchSnippets", () => {
+  const text = "Installed capacity grew by a fifth over the year.";
+  const size = estimateTokens(text);
+  const snippets: Snippet[] = ["a", "b", "c", "d", "e"].map((id) => ({
+    sourceId: `src-${id}`,
+    chunkId: id,
+    text,
+  }));
+  const ids = (batches: Snippet[][]) => batches.map((b) => b.map((s) => s.chunkId));
+
+  test("splits greedily in stored order so each batch fits", () => {
+    assert.deepEqual(ids(batchSnippets(snippets, size * 2)), [
+      ["a", "b"],
+      ["c", "d"],
+      ["e"],
+    ]);
+    assert.deepEqual(ids(batchSnippets(snippets, size * 5)), [["a", "b", "c", "d", "e"]]);
+  });
+
+  test("gives a snippet larger than the budget a batch of its own", () => {
+    const big: Snippet = { sourceId: "src-big", chunkId: "big", text: text.repeat(10) };
+    assert.deepEqual(ids(batchSnippets([snippets[0], big, snippets[1]], size * 2)), [
+      ["a"],
+      ["big"],
+      ["b"],
+    ]);
+  });
+
+  test("returns no batches for no snippets", () => {
+    assert.deepEqual(batchSnippets([], 1000), []);
+  });
+});
+
+describe("mergeClaims", () => {
+  const claim = (over: Partial<VerifiedClaim>): VerifiedClaim => ({
+    text: "Capacity grew 20% in 2023.",
+    claimType: "quant",
+    supportScore: 0.5,
+    contradicted: false,
+    evidence: [],
+    ...over,
+  });
+  const quote = (chunkId: string) => ({ sourceId: `src-${chunkId}`, chunkId, quote: `quote ${chunkId}` });
+
+  test("merges the same claim across batches by normalized text", () => {
+    const merged = mergeClaims([
+      { claims: [claim({ supportScore: 0.4, uncertaintyReason: "weak", evidence: [quote("a")] })] },
+      {
+        claims: [
+          claim({
+            text: "  capacity grew 20%   in 2023. ",
+            supportScore: 0.9,
+            evidence: [quote("a"), quote("b")],
+          }),
+        ],
+      },
+    ]);
+    assert.equal(merged.length, 1);
+    const [c] = merged;
+    assert.equal(c.text, "Capacity grew 20% in 2023.");
+    assert.equal(c.supportScore, 0.9);
+    assert.equal(c.uncertaintyReason, undefined);
+    assert.deepEqual(c.evidence, [quote("a"), quote("b")]);
+  });
+
+  test("keeps the best support and any contradiction", () => {
+    const [c] = mergeClaims([
+      { claims: [claim({ supportScore: 0.8, contradicted: true })] },
+      { claims: [claim({ supportScore: 0.3, uncertaintyReason: "weak" })] },
+    ]);
+    assert.equal(c.supportScore, 0.8);
+    assert.equal(c.uncertaintyReason, undefined);
+    assert.equal(c.contradicted, true);
+  });
+
+  test("keeps distinct claims in first-seen order without touching the inputs", () => {
+    const first = claim({ evidence: [quote("a")] });
+    const parts = [
+      { claims: [first] },
+      { claims: [claim({ text: "Costs fell.", claimType: "causal" }), claim({ evidence: [quote("b")] })] },
+    ];
+    assert.deepEqual(
+      mergeClaims(parts).map((c) => c.text),
+      ["Capacity grew 20% in 2023.", "Costs fell."]
+    );
+    assert.deepEqual(first.evidence, [quote("a")]);
+  });
+});
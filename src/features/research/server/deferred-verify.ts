@@ -0,0 +1,262 @@
+import "server-only";
+import { eq, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import { logger, startSpan, logError } from "@/lib/logger";
+import { estimateTokens } from "@/lib/text";
+import {
+  chunks as chunksTable,
+  claims as claimsTable,
+  messageContexts,
+  messages,
+} from "@/db/schema";
+import {
+  SourceRefSchema,
+  type Depth,
+  type SourceRef,
+  type VerifiedClaim,
+  type VerifyClaimsResponse,
+} from "../types";
+import { verifyClaims, verifyPromptBudget, type Snippet } from "./verify";
+import { normalizeVerifiedClaims, persistClaims } from "./deepresearch";
+import { assessSourceTrust, weighClaimsByTrustInPlace } from "./trust";
+import { clusterIdsFor, countOriginsInPlace } from "./duplicates";
+
+/**
+ * Deferred verification: runs that skipped verify (token budget or rate
+ * limit) keep the exact snippets the verify step would have seen in
+ * message_contexts. This pass verifies the stored answer against them later,
+ * split across as many verify calls as the per-call budget needs.
+ */
+
+const VERIFY_OVERHEAD_TOKENS = Math.max(
+  300,
+  Number(process.env.VERIFY_PROMPT_OVERHEAD_TOKENS ?? 500)
+);
+
+export class DeferredVerifyError extends Error {
+  status: 404 | 409;
+  constructor(message: string, status: 404 | 409) {
+    super(message);
+    this.name = "DeferredVerifyError";
+    this.status = status;
+  }
+}
+
+export type DeferredVerifyResult = VerifyClaimsResponse & {
+  messageId: string;
+  batches: number;
+};
+
+// One pass per message at a time (double clicks, two tabs)
+declare global {
+  var __DEFERRED_VERIFY__: Set<string> | undefined;
+}
+const inFlight: Set<string> =
+  globalThis.__DEFERRED_VERIFY__ ?? (globalThis.__DEFERRED_VERIFY__ = new Set());
+
+export async function verifyStoredMessage(
+  threadId: string,
+  messageId: string,
+  opts: { signal?: AbortSignal } = {}
+): Promise<DeferredVerifyResult> {
+  const log = logger.child({ mod: "deferred-verify" });
+
+  const [row] = await db
+    .select({
+      threadId: messages.threadId,
+      answerMarkdown: messages.contentMd,
+      depth: messageContexts.depth,
+      sourcesJson: messageContexts.sourcesJson,
+      verifySnippetsJson: messageContexts.verifySnippetsJson,
+      verifySkipped: messageContexts.verifySkipped,
+    })
+    .from(messageContexts)
+    .innerJoin(messages, eq(messages.id, messageContexts.messageId))
+    .where(eq(messageContexts.messageId, messageId))
+    .limit(1);
+
+  const snippets = parseSnippets(row?.verifySnippetsJson ?? null);
+  if (!row || row.threadId !== threadId || snippets.length === 0) {
+    throw new DeferredVerifyError("No stored verify snippets for this message", 404);
+  }
+  if (!row.verifySkipped) {
+    throw new DeferredVerifyError("This answer was already verified", 409);
+  }
+  if (inFlight.has(messageId)) {
+    throw new DeferredVerifyError("Verification already running for this answer", 409);
+  }
+
+  inFlight.add(messageId);
+  try {
+    // A pass that persisted claims but failed to clear the flag
+    const [existing] = await db
+      .select({ id: claimsTable.id })
+      .from(claimsTable)
+      .where(eq(claimsTable.messageId, messageId))
+      .limit(1);
+    if (existing) {
+      await clearSkipped(messageId);
+      throw new DeferredVerifyError("This answer was already verified", 409);
+    }
+
+    const sources = parseSources(row.sourcesJson);
+    const batches = batchSnippets(
+      snippets,
+      verifyPromptBudget() - estimateTokens(row.answerMarkdown) - VERIFY_OVERHEAD_TOKENS
+    );
+    const span = startSpan(log, "verify");
+
+    const chunkText = await loadChunkTexts(snippets);
+    const maxClaims = maxClaimsFor(row.depth);
+
+    // Sequential on purpose: these runs already hit a budget once
+    const parts: VerifyClaimsResponse[] = [];
+    for (const batch of batches) {
+      if (opts.signal?.aborted) throw opts.signal.reason;
+      parts.push(
+        await verifyClaims(
+          { answerMarkdown: row.answerMarkdown, snippets: batch },
+          { maxClaims, abortSignal: opts.signal, chunkTextById: chunkText }
+        )
+      );
+    }
+
+    const verified = normalizeVerifiedClaims(
+      { claims: mergeClaims(parts).slice(0, maxClaims) },
+      new Set(sources.map((s) => s.id)),
+      new Set(snippets.map((s) => s.chunkId).filter((x): x is string => !!x))
+    );
+    weighClaimsByTrustInPlace(
+      verified,
+      await assessSourceTrust(sources, { abortSignal: opts.signal })
+    );
+    countOriginsInPlace(
+      verified,
+      await clusterIdsFor(sources.map((s) => s.id)).catch((e) => {
+        logError(log, e, "cluster lookup failed");
+        return new Map<string, string>();
+      })
+    );
+
+    span.end({
+      messageId,
+      snippets: snippets.length,
+      batches: batches.length,
+      claims: verified.claims.length,
+    });
+
+    // verifyClaims returns no claims on model errors; keep the message
+    // flagged so it can be retried
+    if (verified.claims.length === 0) {
+      return { ...verified, skipped: row.verifySkipped, messageId, batches: batches.length };
+    }
+
+    await persistClaims(threadId, messageId, verified);
+    await clearSkipped(messageId);
+    return { ...verified, messageId, batches: batches.length };
+  } finally {
+    inFlight.delete(messageId);
+  }
+}
+
+/* --------------------------------- Batching -------------------------------- */
+
+/**
+ * Greedy split in stored order so each call's snippets fit the budget. A
+ * snippet larger than the budget still gets a call of its own.
+ */
+export function batchSnippets(snippets: Snippet[], budgetTokens: number): Snippet[][] {
+  const out: Snippet[][] = [];
+  let cur: Snippet[] = [];
+  let used = 0;
+  for (const s of snippets) {
+    const t = estimateTokens(s.text);
+    if (cur.length > 0 && used + t > budgetTokens) {
+      out.push(cur);
+      cur = [];
+      used = 0;
+    }
+    cur.push(s);
+    used += t;
+  }
+  if (cur.length > 0) out.push(cur);
+  return out;
+}
+
+/**
+ * Every batch checks the whole answer, so the same claim can come back more
+ * than once. Merge by text: union the evidence, keep the best support.
+ */
+export function mergeClaims(parts: VerifyClaimsResponse[]): VerifiedClaim[] {
+  const byText = new Map<string, VerifiedClaim>();
+  for (const part of parts) {
+    for (const c of part.claims) {
+      const key = c.text.trim().toLowerCase().replace(/\s+/g, " ");
+      const prev = byText.get(key);
+      if (!prev) {
+        byText.set(key, { ...c, evidence: [...c.evidence] });
+        continue;
+      }
+      const seen = new Set(prev.evidence.map((e) => `${e.chunkId}|${e.quote}`));
+      for (const e of c.evidence) {
+        if (!seen.has(`${e.chunkId}|${e.quote}`)) prev.evidence.push(e);
+      }
+      if (c.supportScore > prev.supportScore) {
+        prev.supportScore = c.supportScore;
+        prev.uncertaintyReason = c.uncertaintyReason;
+      }
+      prev.contradicted = prev.contradicted || c.contradicted;
+    }
+  }
+  return Array.from(byText.values());
+}
+
+/* --------------------------------- Utils ----------------------------------- */
+
+async function loadChunkTexts(snippets: Snippet[]): Promise<Map<string, string>> {
+  const ids = Array.from(
+    new Set(snippets.map((s) => s.chunkId).filter((x): x is string => !!x))
+  );
+  if (ids.length === 0) return new Map();
+  const rows = await db
+    .select({ id: chunksTable.id, text: chunksTable.text })
+    .from(chunksTable)
+    .where(inArray(chunksTable.id, ids));
+  return new Map(rows.map((r) => [r.id, r.text]));
+}
+
+async function clearSkipped(messageId: string) {
+  await db
+    .update(messageContexts)
+    .set({ verifySkipped: null })
+    .where(eq(messageContexts.messageId, messageId))
+    .run();
+}
+
+function maxClaimsFor(depth: Depth): number {
+  return depth === "quick" ? 6 : depth === "deep" ? 18 : 12;
+}
+
+function parseSnippets(s: string | null): Snippet[] {
+  const raw = s ? parseJSON(s) : null;
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (x): x is Snippet =>
+      typeof x?.sourceId === "string" &&
+      typeof x?.text === "string" &&
+      (x.chunkId === undefined || typeof x.chunkId === "string")
+  );
+}
+
+function parseSources(s: string): SourceRef[] {
+  const parsed = SourceRefSchema.array().safeParse(parseJSON(s));
+  return parsed.success ? parsed.data : [];
+}
+
+function parseJSON(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,204 @@
+import "server-only";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+import { db } from "@/db";
+import { sources, sourceContent, sourceSimhashBands } from "@/db/schema";
+import {
+  NEAR_DUPLICATE_DISTANCE,
+  contentFingerprint,
+  hammingDistance,
+  simhash,
+  simhashBands,
+} from "@/lib/fingerprint";
+import { id as newId } from "@/lib/id";
+import type { SourceRef, VerifyClaimsResponse } from "../types";
+
+/**
+ * Near-duplicate clusters: every source carries a cluster id, the id of the
+ * first source stored with (nearly) the same text. Exact copies are refused
+ * at ingest (unique fingerprint, see ingest.ts); syndicated copies are stored
+ * but share the cluster id so they count as one origin.
+ */
+
+/* ------------------------------- Clustering -------------------------------- */
+
+export type NearDuplicate = {
+  sourceId: string;
+  clusterId: string;
+  distance: number;
+};
+
+/** Closest stored source within NEAR_DUPLICATE_DISTANCE bits, if any. */
+export async function findNearDuplicate(
+  hash: string
+): Promise<NearDuplicate | null> {
+  const bands = simhashBands(hash);
+  const candidates = await db
+    .selectDistinct({
+      id: sources.id,
+      simhash: sources.simhash,
+      clusterId: sources.clusterId,
+    })
+    .from(sourceSimhashBands)
+    .innerJoin(sources, eq(sources.id, sourceSimhashBands.sourceId))
+    .where(
+      or(
+        ...bands.map((value, band) =>
+          and(
+            eq(sourceSimhashBands.band, band),
+            eq(sourceSimhashBands.value, value)
+          )
+        )
+      )
+    );
+
+  let best: NearDuplicate | null = null;
+  for (const c of candidates) {
+    if (!c.simhash) continue;
+    const distance = hammingDistance(hash, c.simhash);
+    if (distance > NEAR_DUPLICATE_DISTANCE) continue;
+    if (!best || distance < best.distance) {
+      best = { sourceId: c.id, clusterId: c.clusterId ?? c.id, distance };
+    }
+  }
+  return best;
+}
+
+/** Band rows to insert alongside a new source. */
+export function simhashBandRows(sourceId: string, hash: string) {
+  return simhashBands(hash).map((value, band) => ({
+    id: newId(),
+    sourceId,
+    band,
+    value,
+  }));
+}
+
+/** Cluster id per source id (a source without one is its own cluster). */
+export async function clusterIdsFor(
+  sourceIds: string[]
+): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(sourceIds.filter(Boolean)));
+  const out = new Map(ids.map((id) => [id, id]));
+  if (ids.length === 0) return out;
+
+  const rows = await db
+    .select({ id: sources.id, clusterId: sources.clusterId })
+    .from(sources)
+    .where(inArray(sources.id, ids));
+  for (const r of rows) if (r.clusterId) out.set(r.id, r.clusterId);
+  return out;
+}
+
+/* -------------------------------- Collapsing -------------------------------- */
+
+/**
+ * Keep the first source of each cluster, in order; later members are folded
+ * into its `duplicateUrls`. Indexes are renumbered.
+ */
+export async function collapseDuplicateRefs(
+  refs: SourceRef[]
+): Promise<{ refs: SourceRef[]; collapsed: number }> {
+  const clusterOf = await clusterIdsFor(refs.map((r) => r.id));
+
+  const kept = new Map<string, SourceRef>();
+  let collapsed = 0;
+  for (const r of refs) {
+    const cluster = clusterOf.get(r.id) ?? r.id;
+    const head = kept.get(cluster);
+    if (!head) {
+      kept.set(cluster, { ...r });
+      continue;
+    }
+    if (head.id === r.id) continue;
+    head.duplicateUrls = [...(head.duplicateUrls ?? []), r.url];
+    collapsed++;
+  }
+
+  return {
+    refs: Array.from(kept.values()).map((r, i) => ({ ...r, index: i + 1 })),
+    collapsed,
+  };
+}
+
+/* ------------------------------- Corroboration ------------------------------ */
+
+/**
+ * Mutates claims in place: sets `origins` (independent clusters behind the
+ * evidence) and flags claims whose several sources are copies of one origin,
+ * since the model will have read them as corroboration.
+ */
+export function countOriginsInPlace(
+  verified: VerifyClaimsResponse,
+  clusterOf: Map<string, string>
+): void {
+  for (const claim of verified.claims) {
+    const sourceIds = new Set(claim.evidence.map((e) => e.sourceId));
+    const origins = new Set(
+      Array.from(sourceIds, (id) => clusterOf.get(id) ?? id)
+    );
+    claim.origins = origins.size;
+
+    if (sourceIds.size > 1 && origins.size === 1) {
+      claim.supportScore = Math.max(0, claim.supportScore - 0.1);
+      claim.uncertaintyReason ??=
+        "All supporting sources are copies of the same original report.";
+    }
+  }
+}
+
+/* -------------------------------- Backfill --------------------------------- */
+
+/**
+ * Fingerprint and cluster sources stored before fingerprints existed, oldest
+ * first. Returns how many were processed (0 when done).
+ */
+export async function backfillSourceFingerprints(limit = 200): Promise<number> {
+  const rows = await db
+    .select({
+      id: sources.id,
+      fingerprint: sources.fingerprint,
+      text: sourceContent.text,
+    })
+    .from(sources)
+    .innerJoin(sourceContent, eq(sourceContent.sourceId, sources.id))
+    .where(isNull(sources.clusterId))
+    .orderBy(sources.createdAt)
+    .limit(limit);
+
+  for (const r of rows) {
+    const hash = simhash(r.text);
+    const fingerprint =
+      r.fingerprint ?? (hash ? contentFingerprint(r.text) : null);
+    const taken =
+      r.fingerprint || !fingerprint
+        ? null
+        : await db
+            .select({ id: sources.id, clusterId: sources.clusterId })
+            .from(sources)
+            .where(eq(sources.fingerprint, fingerprint))
+            .limit(1)
+            .then((x) => x[0] ?? null);
+
+    const near = taken
+      ? { clusterId: taken.clusterId ?? taken.id }
+      : hash
+        ? await findNearDuplicate(hash)
+        : null;
+
+    await db.batch([
+      db
+        .update(sources)
+        .set({
+          // An exact copy keeps no fingerprint of its own (the column is unique)
+          fingerprint: taken ? null : fingerprint,
+          simhash: hash,
+          clusterId: near?.clusterId ?? r.id,
+        })
+        .where(eq(sources.id, r.id)),
+      ...(hash
+        ? [db.insert(sourceSimhashBands).values(simhashBandRows(r.id, hash))]
+        : []),
+    ]);
+  }
+  return rows.length;
+}
@@ -0,0 +1,304 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { VoyageAIClient } from "voyageai";
+import { db } from "@/db";
+import {
+  chunks as chunksTable,
+  chunkEmbeddings,
+  type NewChunkEmbedding,
+} from "@/db/schema";
+import { env } from "@/lib/env";
+import { id as newId } from "@/lib/id";
+import { logger, startSpan } from "@/lib/logger";
+import { recordUsage } from "./usage";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type EmbedInputType = "query" | "document";
+
+export interface EmbeddingBackend {
+  // Stored with every vector; vectors of different models are never compared
+  readonly model: string;
+  embed(texts: string[], inputType: EmbedInputType): Promise<Float32Array[]>;
+}
+
+export type VectorHit = {
+  id: string; // chunk id
+  sourceId: string;
+  text: string;
+  similarity: number; // cosine, -1..1
+};
+
+/* -------------------------------- Backends --------------------------------- */
+
+const VOYAGE_BATCH = 64; // API max is 128 inputs per call
+
+function voyageBackend(apiKey: string, model: string): EmbeddingBackend {
+  const client = new VoyageAIClient({ apiKey });
+  return {
+    model: `voyage:${model}`,
+    async embed(texts, inputType) {
+      const out: Float32Array[] = [];
+      for (let i = 0; i < texts.length; i += VOYAGE_BATCH) {
+        const batch = texts.slice(i, i + VOYAGE_BATCH);
+        const resp = await client.embed(
+          { input: batch, model, inputType, truncation: true },
+          {
+            timeoutInSeconds: Math.max(
+              1,
+              Math.floor(env.REQUEST_TIMEOUT_MS / 1000)
+            ),
+          }
+        );
+        recordUsage({
+          provider: "voyage",
+          model,
+          inputTokens: resp.usage?.totalTokens ?? 0,
+        });
+        const data = [...(resp.data ?? [])].sort(
+          (a, b) => (a.index ?? 0) - (b.index ?? 0)
+        );
+        if (data.length !== batch.length) {
+          throw new Error(
+            `Voyage embed returned ${data.length} vectors for ${batch.length} inputs`
+          );
+        }
+        for (const d of data) {
+          out.push(normalize(Float32Array.from(d.embedding ?? [])));
+        }
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Deterministic feature-hashing embedder (word unigrams/bigrams + char
+ * trigrams). No network and no model; meant for offline runs and tests, and
+ * only catches lexical overlap (no true paraphrase matching).
+ */
+export function localBackend(dims = env.LOCAL_EMBED_DIMS): EmbeddingBackend {
+  return {
+    model: `local:hash-${dims}`,
+    async embed(texts) {
+      return texts.map((t) => hashEmbed(t, dims));
+    },
+  };
+}
+
+let cached: EmbeddingBackend | null | undefined;
+
+/** The configured backend, or null when embeddings are off. */
+export function getEmbeddingBackend(): EmbeddingBackend | null {
+  if (cached !== undefined) return cached;
+  const choice =
+    env.EMBEDDINGS_BACKEND ?? (env.VOYAGE_API_KEY ? "voyage" : "off");
+  if (choice === "voyage" && env.VOYAGE_API_KEY) {
+    cached = voyageBackend(env.VOYAGE_API_KEY, env.VOYAGE_EMBED_MODEL);
+  } else if (choice === "local") {
+    cached = localBackend();
+  } else {
+    if (choice === "voyage") {
+      logger
+        .child({ mod: "embeddings" })
+        .warn("EMBEDDINGS_BACKEND=voyage without VOYAGE_API_KEY; embeddings off");
+    }
+    cached = null;
+  }
+  return cached;
+}
+
+/** Swap the backend (tests, scripts). Pass undefined to re-read env. */
+export function setEmbeddingBackend(b: EmbeddingBackend | null | undefined) {
+  cached = b;
+}
+
+/* --------------------------------- Storage --------------------------------- */
+
+/**
+ * Embed chunks and store their vectors for the active model.
+ * No-op when embeddings are off; existing (chunk, model) rows are kept.
+ */
+export async function embedChunks(
+  rows: Array<{ id: string; text: string }>
+): Promise<number> {
+  const backend = getEmbeddingBackend();
+  if (!backend || rows.length === 0) return 0;
+
+  const log = logger.child({ mod: "embeddings" });
+  const span = startSpan(log, "embedChunks");
+  try {
+    const vectors = await backend.embed(
+      rows.map((r) => r.text),
+      "document"
+    );
+    const values: NewChunkEmbedding[] = rows.map((r, i) => ({
+      id: newId(),
+      chunkId: r.id,
+      model: backend.model,
+      dims: vectors[i].length,
+      vector: toBuffer(vectors[i]),
+    }));
+    await db
+      .insert(chunkEmbeddings)
+      .values(values)
+      .onConflictDoNothing({
+        target: [chunkEmbeddings.chunkId, chunkEmbeddings.model],
+      })
+      .run();
+    span.end({ chunks: rows.length, model: backend.model });
+    return rows.length;
+  } catch (e) {
+    span.end({ error: true });
+    throw e;
+  }
+}
+
+/**
+ * Embed chunks that have no vector for the active model yet (oldest first).
+ * Lets corpora ingested before embeddings were enabled join vector retrieval.
+ */
+export async function backfillChunkEmbeddings(limit = 256): Promise<number> {
+  const backend = getEmbeddingBackend();
+  if (!backend) return 0;
+
+  const missing = await db
+    .select({ id: chunksTable.id, text: chunksTable.text })
+    .from(chunksTable)
+    .leftJoin(
+      chunkEmbeddings,
+      and(
+        eq(chunkEmbeddings.chunkId, chunksTable.id),
+        eq(chunkEmbeddings.model, backend.model)
+      )
+    )
+    .where(isNull(chunkEmbeddings.id))
+    .orderBy(chunksTable.createdAt)
+    .limit(limit);
+
+  return embedChunks(missing);
+}
+
+/* --------------------------------- Search ---------------------------------- */
+
+/**
+ * Nearest chunks to the query by cosine similarity.
+ * Brute force over the stored vectors of the active model, optionally scoped
+ * to some sources; fine for the corpus sizes this app keeps in libSQL.
+ * At most VECTOR_SEARCH_MAX_ROWS of the newest vectors are scored, which
+ * only bites unscoped (whole-corpus) searches; BM25 still sees everything.
+ */
+export async function vectorSearch(
+  query: string,
+  limit = 24,
+  opts: { sourceIds?: string[] } = {}
+): Promise<VectorHit[]> {
+  const backend = getEmbeddingBackend();
+  if (!backend || !query.trim()) return [];
+  if (opts.sourceIds && opts.sourceIds.length === 0) return [];
+
+  const [q] = await backend.embed([query], "query");
+  const maxRows = env.VECTOR_SEARCH_MAX_ROWS;
+
+  const where = opts.sourceIds
+    ? and(
+        eq(chunkEmbeddings.model, backend.model),
+        inArray(chunksTable.sourceId, opts.sourceIds)
+      )
+    : eq(chunkEmbeddings.model, backend.model);
+
+  const rows = await db
+    .select({
+      id: chunksTable.id,
+      sourceId: chunksTable.sourceId,
+      text: chunksTable.text,
+      vector: chunkEmbeddings.vector,
+    })
+    .from(chunkEmbeddings)
+    .innerJoin(chunksTable, eq(chunksTable.id, chunkEmbeddings.chunkId))
+    .where(where)
+    .orderBy(desc(chunkEmbeddings.createdAt), desc(chunkEmbeddings.id))
+    .limit(maxRows);
+  if (rows.length === maxRows) {
+    logger
+      .child({ mod: "embeddings" })
+      .warn({ maxRows }, "Vector search hit its row cap; older chunks skipped");
+  }
+
+  const scored: VectorHit[] = [];
+  for (const r of rows) {
+    const v = fromBuffer(r.vector as any);
+    if (v.length !== q.length) continue;
+    scored.push({
+      id: r.id,
+      sourceId: r.sourceId,
+      text: r.text,
+      similarity: dot(q, v), // both unit length
+    });
+  }
+  return scored.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+function hashEmbed(text: string, dims: number): Float32Array {
+  const v = new Float32Array(dims);
+  const words = (text || "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 1);
+
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    // Sign from a high bit keeps collisions from only adding up
+    v[h % dims] += h & 0x80000000 ? -weight : weight;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    add(`w:${w}`, 1);
+    if (i + 1 < words.length) add(`b:${w} ${words[i + 1]}`, 0.5);
+    const padded = ` ${w} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  }
+  return normalize(v);
+}
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(v: Float32Array): Float32Array {
+  let n = 0;
+  for (let i = 0; i < v.length; i++) n += v[i] * v[i];
+  n = Math.sqrt(n);
+  if (n === 0) return v;
+  for (let i = 0; i < v.length; i++) v[i] /= n;
+  return v;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+function toBuffer(v: Float32Array): Buffer {
+  return Buffer.from(v.buffer, v.byteOffset, v.byteLength);
+}
+
+function fromBuffer(b: Buffer | Uint8Array | ArrayBuffer): Float32Array {
+  const u8 = b instanceof ArrayBuffer ? new Uint8Array(b) : b;
+  // Copy: the driver's buffer may not be 4-byte aligned
+  const copy = new Uint8Array(u8.byteLength);
+  copy.set(u8);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
@@ -0,0 +1,338 @@
+import "server-only";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import { sanitizeText } from "@/lib/text";
+import { normalizeDate } from "@/lib/dates";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type DocumentKind = "pdf" | "docx" | "html" | "markdown" | "text";
+
+export type PageSpan = {
+  page: number; // 1-based
+  charStart: number; // offsets into ExtractedDocument.text
+  charEnd: number;
+};
+
+export type ExtractedDocument = {
+  kind: DocumentKind;
+  text: string; // sanitized; ready for splitIntoWindows
+  title: string | null;
+  lang: string | null;
+  publishedAt: string | null; // ISO; HTML meta/JSON-LD or PDF info
+  pages: PageSpan[]; // empty for formats without pages
+};
+
+// Pages are joined with a blank line so paragraph-aware chunking sees the break
+const PAGE_SEPARATOR = "\n\n";
+
+const SANITIZE = {
+  normalize: "NFKC",
+  removeControl: true,
+  collapseWhitespace: false,
+  preserveNewlines: true,
+  decodeEntities: true,
+} as const;
+
+/* ------------------------------- Main entry -------------------------------- */
+
+/**
+ * Extract plain text from an uploaded file, locally (no network).
+ * PDFs keep per-page offsets so chunks can be mapped back to pages.
+ */
+export async function extractDocument(file: {
+  bytes: Uint8Array;
+  filename: string;
+  contentType?: string | null;
+}): Promise<ExtractedDocument> {
+  const kind = detectDocumentKind(file.filename, file.contentType);
+  if (!kind) {
+    throw new Error(
+      `Unsupported file type: ${file.filename} (${file.contentType || "unknown"})`
+    );
+  }
+
+  switch (kind) {
+    case "pdf":
+      return extractPdf(file.bytes, file.filename);
+    case "docx": {
+      const res = await mammoth.extractRawText({
+        buffer: Buffer.from(file.bytes),
+      });
+      return {
+        kind,
+        text: sanitizeText(res.value, SANITIZE),
+        title: baseName(file.filename),
+        lang: null,
+        publishedAt: null,
+        pages: [],
+      };
+    }
+    case "html": {
+      const html = decodeUtf8(file.bytes);
+      const meta = extractMetaFromHtml(html);
+      return {
+        kind,
+        text: sanitizeText(htmlToText(html), SANITIZE),
+        title: meta.title || baseName(file.filename),
+        lang: meta.lang,
+        publishedAt: meta.publishedAt,
+        pages: [],
+      };
+    }
+    case "markdown": {
+      const md = decodeUtf8(file.bytes);
+      const heading = md.match(/^#\s+(.+)$/m)?.[1]?.trim();
+      return {
+        kind,
+        text: sanitizeText(md, SANITIZE),
+        title: heading || baseName(file.filename),
+        lang: null,
+        publishedAt: null,
+        pages: [],
+      };
+    }
+    case "text":
+      return {
+        kind,
+        text: sanitizeText(decodeUtf8(file.bytes), SANITIZE),
+        title: baseName(file.filename),
+        lang: null,
+        publishedAt: null,
+        pages: [],
+      };
+  }
+}
+
+export function detectDocumentKind(
+  filename: string,
+  contentType?: string | null
+): DocumentKind | null {
+  const ct = (contentType || "").toLowerCase().split(";")[0].trim();
+  const ext = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+
+  if (ct === "application/pdf" || ext === "pdf") return "pdf";
+  if (
+    ct ===
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    ext === "docx"
+  ) {
+    return "docx";
+  }
+  if (ct === "text/html" || ext === "html" || ext === "htm") return "html";
+  if (ct === "text/markdown" || ext === "md" || ext === "markdown") {
+    return "markdown";
+  }
+  if (ct === "text/plain" || ext === "txt") return "text";
+  return null;
+}
+
+/**
+ * Page range covered by [charStart, charEnd) of the extracted text.
+ * Returns nulls for documents without pages.
+ */
+export function pageRangeFor(
+  pages: PageSpan[],
+  charStart: number,
+  charEnd: number
+): { pageStart: number | null; pageEnd: number | null } {
+  if (pages.length === 0) return { pageStart: null, pageEnd: null };
+  const last = Math.max(charStart, charEnd - 1);
+  return {
+    pageStart: pageAt(pages, charStart),
+    pageEnd: pageAt(pages, last),
+  };
+}
+
+/* ---------------------------------- PDF ------------------------------------ */
+
+/**
+ * PDF text with per-page offsets; title from the document info when present.
+ * Shared by uploads and the URL reader.
+ */
+export async function extractPdf(
+  bytes: Uint8Array,
+  filename: string
+): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  const [{ text: pageTexts }, meta] = await Promise.all([
+    extractText(pdf, { mergePages: false }),
+    getMeta(pdf).catch(() => null),
+  ]);
+
+  // Sanitize per page so the recorded offsets match the stored text
+  const pages: PageSpan[] = [];
+  let text = "";
+  pageTexts.forEach((raw, i) => {
+    const clean = sanitizeText(raw, SANITIZE).trim();
+    if (!clean) return;
+    if (text) text += PAGE_SEPARATOR;
+    pages.push({
+      page: i + 1,
+      charStart: text.length,
+      charEnd: text.length + clean.length,
+    });
+    text += clean;
+  });
+
+  const title =
+    typeof meta?.info?.Title === "string" && meta.info.Title.trim()
+      ? meta.info.Title.trim()
+      : baseName(filename);
+  const lang =
+    typeof meta?.info?.Language === "string" ? meta.info.Language : null;
+  const publishedAt =
+    normalizeDate(meta?.info?.CreationDate) ?? normalizeDate(meta?.info?.ModDate);
+
+  return { kind: "pdf", text, title, lang, publishedAt, pages };
+}
+
+export function isPdfBytes(bytes: Uint8Array): boolean {
+  // "%PDF-" magic number
+  return (
+    bytes.length >= 5 &&
+    bytes[0] === 0x25 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x44 &&
+    bytes[3] === 0x46 &&
+    bytes[4] === 0x2d
+  );
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+// Last page starting at or before pos (separators belong to the previous page)
+function pageAt(pages: PageSpan[], pos: number): number {
+  let lo = 0;
+  let hi = pages.length - 1;
+  let ans = pages[0].page;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (pages[mid].charStart <= pos) {
+      ans = pages[mid].page;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return ans;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes).replace(/^\uFEFF/, "");
+}
+
+function baseName(filename: string): string {
+  const name = filename.split(/[\\/]/).pop() || filename;
+  return name.replace(/\.[a-z0-9]+$/i, "") || name;
+}
+
+/* ---------------------------------- HTML ----------------------------------- */
+
+export function extractMetaFromHtml(html: string): {
+  title: string | null;
+  lang: string | null;
+  publishedAt: string | null;
+} {
+  let title: string | null = null;
+  let lang: string | null = null;
+
+  try {
+    const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    title = m ? stripTags(m[1]).trim() : null;
+  } catch {
+    title = null;
+  }
+
+  try {
+    const lm = html.match(/<html[^>]*\blang=["']?([a-zA-Z-]{2,})["']?[^>]*>/i);
+    lang = lm ? lm[1].toLowerCase() : null;
+  } catch {
+    lang = null;
+  }
+
+  return { title, lang, publishedAt: extractPublishedAt(html) };
+}
+
+export function htmlToText(html: string): string {
+  let s = html.replace(/<script[\s\S]*?<\/script>/gi, "");
+  s = s.replace(/<style[\s\S]*?<\/style>/gi, "");
+  s = s.replace(/<(?:br|br\/|br\s*\/)>/gi, "\n");
+  s = s.replace(/<\/p>/gi, "\n\n");
+  s = stripTags(s);
+  s = s.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+  s = s.replace(/\n{3,}/g, "\n\n");
+  return s.trim();
+}
+
+// <meta> names/properties carrying a publication date, most specific first
+const DATE_META_KEYS = [
+  "article:published_time",
+  "og:published_time",
+  "datepublished",
+  "citation_publication_date",
+  "citation_date",
+  "dc.date.issued",
+  "dcterms.issued",
+  "dc.date",
+  "parsely-pub-date",
+  "sailthru.date",
+  "pubdate",
+  "publish-date",
+  "publish_date",
+  "date",
+];
+
+/** Publication date from JSON-LD, then <meta> tags; ISO or null. */
+export function extractPublishedAt(html: string): string | null {
+  for (const m of html.matchAll(
+    /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  )) {
+    try {
+      const found = findJsonLdDate(JSON.parse(m[1].trim()));
+      const iso = normalizeDate(found);
+      if (iso) return iso;
+    } catch {
+      // malformed JSON-LD is common; try the next block
+    }
+  }
+
+  const metas = new Map<string, string>();
+  for (const m of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const tag = m[0];
+    const key = attr(tag, "property") ?? attr(tag, "name") ?? attr(tag, "itemprop");
+    const content = attr(tag, "content");
+    if (key && content && !metas.has(key.toLowerCase())) {
+      metas.set(key.toLowerCase(), content);
+    }
+  }
+  for (const key of DATE_META_KEYS) {
+    const iso = normalizeDate(metas.get(key));
+    if (iso) return iso;
+  }
+  return null;
+}
+
+function findJsonLdDate(node: unknown, depth = 0): string | null {
+  if (!node || typeof node !== "object" || depth > 4) return null;
+  if (Array.isArray(node)) {
+    for (const n of node) {
+      const d = findJsonLdDate(n, depth + 1);
+      if (d) return d;
+    }
+    return null;
+  }
+  const obj = node as Record<string, unknown>;
+  if (typeof obj.datePublished === "string") return obj.datePublished;
+  if (typeof obj.dateCreated === "string") return obj.dateCreated;
+  return findJsonLdDate(obj["@graph"], depth + 1);
+}
+
+function attr(tag: string, name: string): string | null {
+  const m = tag.match(new RegExp(`\\b${name}\\s*=\\s*(["'])([\\s\\S]*?)\\1`, "i"));
+  return m ? m[2].trim() : null;
+}
+
+function stripTags(s: string): string {
+  return s.replace(/<[^>]+>/g, "");
+}
@@ -0,0 +1,98 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { client } from "@/db";
+import { logger } from "@/lib/logger";
+
+/**
+ * chunks_fts is created once by migration (0006_chunks_fts) and kept in sync
+ * by triggers on `chunks`, so the request path never rebuilds it. The
+ * corpus-sized operations below are for src/scripts/fts-maintenance.ts.
+ */
+
+const FTS_OBJECTS = ["chunks_fts", "chunks_ai", "chunks_ad", "chunks_au"];
+
+export type FtsIntegrity = {
+  ok: boolean;
+  chunks: number;
+  error?: string;
+};
+
+/* ------------------------------ Request path ------------------------------- */
+
+let ready: Promise<boolean> | null = null;
+
+/**
+ * Cheap, once-per-process check that the index and its triggers exist
+ * (schema lookup only). Logs instead of throwing: ranking then degrades to
+ * vector hits only until migrations are applied.
+ */
+export function ensureFtsReady(): Promise<boolean> {
+  ready ??= missingFtsObjects()
+    .then((missing) => {
+      if (missing.length === 0) return true;
+      logger
+        .child({ mod: "fts" })
+        .error({ missing }, "FTS index missing; run migrations (bun run db:migrate)");
+      return false;
+    })
+    .catch((e) => {
+      ready = null; // transient DB error: check again next time
+      throw e;
+    });
+  return ready;
+}
+
+export async function missingFtsObjects(): Promise<string[]> {
+  const res = await client.execute({
+    sql: `SELECT name FROM sqlite_master WHERE name IN (${FTS_OBJECTS.map(() => "?").join(",")});`,
+    args: FTS_OBJECTS,
+  });
+  const found = new Set(
+    (Array.isArray(res.rows) ? (res.rows as any[]) : []).map((r) => String(r.name))
+  );
+  return FTS_OBJECTS.filter((n) => !found.has(n));
+}
+
+/* ------------------------------- Maintenance ------------------------------- */
+
+/**
+ * FTS5 integrity-check against the content table: fails when the index and
+ * `chunks` disagree (e.g. rows written while the triggers were missing).
+ */
+export async function checkFtsIntegrity(): Promise<FtsIntegrity> {
+  const chunks = await countChunks();
+  try {
+    await client.execute({
+      sql: `INSERT INTO chunks_fts(chunks_fts, rank) VALUES('integrity-check', 1);`,
+      args: [],
+    });
+    return { ok: true, chunks };
+  } catch (e: any) {
+    return { ok: false, chunks, error: String(e?.message ?? e) };
+  }
+}
+
+/** Re-index every chunk from the content table. */
+export async function rebuildFts(): Promise<number> {
+  await client.execute({
+    sql: `INSERT INTO chunks_fts(chunks_fts) VALUES('rebuild');`,
+    args: [],
+  });
+  return countChunks();
+}
+
+/** Merge index segments; worth running after large ingests. */
+export async function optimizeFts(): Promise<void> {
+  await client.execute({
+    sql: `INSERT INTO chunks_fts(chunks_fts) VALUES('optimize');`,
+    args: [],
+  });
+}
+
+async function countChunks(): Promise<number> {
+  const res = await client.execute({
+    sql: `SELECT COUNT(1) AS c FROM chunks;`,
+    args: [],
+  });
+  return Number((res.rows?.[0] as any)?.c ?? 0);
+}
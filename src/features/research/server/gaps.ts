@@ -0,0 +1,94 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { logger, startSpan } from "@/lib/logger";
+import { buildGapAnalysisPrompt } from "../prompts";
+import {
+  GapAnalysisSchema,
+  type GapAnalysis,
+  type VerifyClaimsResponse,
+} from "../types";
+import { generateCompletion } from "./groq";
+import { normalizeQuery } from "./threads";
+
+/**
+ * Gap analysis for deep runs: compare a draft answer with the claims its
+ * context verified, and turn what is unsupported, open or contradicted into
+ * follow-up subqueries. The loop itself lives in deepresearch.ts.
+ */
+
+export type GapAnalysisInput = {
+  question: string;
+  draftMarkdown: string;
+  verified: VerifyClaimsResponse;
+  searched: string[]; // subqueries the run already searched
+  maxSubqueries: number;
+};
+
+/**
+ * Returns the model's gaps with subqueries cleaned up: trimmed, deduplicated
+ * and minus anything already searched, capped at maxSubqueries.
+ */
+export async function analyseGaps(
+  input: GapAnalysisInput,
+  opts: { abortSignal?: AbortSignal } = {}
+): Promise<GapAnalysis> {
+  const log = logger.child({ mod: "gaps" });
+  const span = startSpan(log, "gaps");
+
+  const prompt = buildGapAnalysisPrompt({
+    question: input.question,
+    draftMarkdown: input.draftMarkdown,
+    claims: input.verified.claims,
+    searchedSubqueries: input.searched,
+    maxSubqueries: input.maxSubqueries,
+  });
+
+  const res = await generateCompletion({
+    model: "plan",
+    system: prompt.system,
+    prompt: prompt.user,
+    temperature: 0,
+    maxOutputTokens: 600,
+    abortSignal: opts.abortSignal,
+  });
+
+  const parsed = GapAnalysisSchema.safeParse(safeJson(res.text));
+  const analysis: GapAnalysis = parsed.success
+    ? parsed.data
+    : { gaps: [], subqueries: [], sufficient: false };
+
+  const seen = new Set(input.searched.map(normalizeQuery));
+  const subqueries: string[] = [];
+  for (const q of analysis.subqueries) {
+    const key = normalizeQuery(q);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    subqueries.push(q.trim());
+  }
+
+  const result = {
+    ...analysis,
+    subqueries: subqueries.slice(0, input.maxSubqueries),
+  };
+  span.end({
+    gaps: result.gaps.length,
+    subqueries: result.subqueries.length,
+    sufficient: result.sufficient,
+    parsed: parsed.success,
+  });
+  return result;
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+function safeJson(s: string): any {
+  try {
+    const t = (s ?? "").trim();
+    const unwrapped = t.startsWith("```")
+      ? t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "")
+      : t;
+    return JSON.parse(unwrapped);
+  } catch {
+    return {};
+  }
+}
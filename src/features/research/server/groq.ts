@@ -11,9 +11,13 @@ import {
   type ModelMessage,
   type ToolSet,
   type ToolChoice,
+  type StopCondition,
+  type LanguageModelUsage,
 } from "ai";
 import { env } from "@/lib/env";
 import { logger } from "@/lib/logger";
+import { recordUsage } from "./usage";
+import { rateLimitMiddleware } from "./scheduler";
 
 export const MODELS = {
   plan: "plan",
@@ -25,6 +29,14 @@ export const MODELS = {
 export type ModelAlias = keyof typeof MODELS;
 export type ModelName = (typeof MODELS)[ModelAlias] | string;
 
+// Provider model behind each alias
+const MODEL_IDS: Record<ModelAlias, string> = {
+  plan: "llama-3.1-8b-instant",
+  answer: "llama-3.3-70b-versatile",
+  verify: "llama-3.1-8b-instant",
+  reasoning: "deepseek-r1-distill-llama-70b",
+};
+
 export const groqProvider = createGroq({
   apiKey: env.GROQ_API_KEY,
 });
@@ -33,66 +45,78 @@ export const groqTools = groqProvider.tools;
 export const myGroq = customProvider({
   languageModels: {
     [MODELS.plan]: wrapLanguageModel({
-      model: groqProvider("llama-3.1-8b-instant"),
-      middleware: defaultSettingsMiddleware({
-        settings: {
-          temperature: 0,
-          providerOptions: {
-            groq: {
-              structuredOutputs: false,
-              parallelToolCalls: true,
-              serviceTier: "on_demand",
+      model: groqProvider(MODEL_IDS.plan),
+      middleware: [
+        defaultSettingsMiddleware({
+          settings: {
+            temperature: 0,
+            providerOptions: {
+              groq: {
+                structuredOutputs: false,
+                parallelToolCalls: true,
+                serviceTier: "on_demand",
+              },
             },
           },
-        },
-      }),
+        }),
+        rateLimitMiddleware("plan", MODEL_IDS.plan),
+      ],
     }),
     [MODELS.answer]: wrapLanguageModel({
-      model: groqProvider("llama-3.3-70b-versatile"),
-      middleware: defaultSettingsMiddleware({
-        settings: {
-          temperature: 0.2,
-          providerOptions: {
-            groq: {
-              structuredOutputs: false,
-              parallelToolCalls: true,
-              serviceTier: "on_demand",
+      model: groqProvider(MODEL_IDS.answer),
+      middleware: [
+        defaultSettingsMiddleware({
+          settings: {
+            temperature: 0.2,
+            providerOptions: {
+              groq: {
+                structuredOutputs: false,
+                parallelToolCalls: true,
+                serviceTier: "on_demand",
+              },
             },
           },
-        },
-      }),
+        }),
+        rateLimitMiddleware("answer", MODEL_IDS.answer),
+      ],
     }),
     [MODELS.verify]: wrapLanguageModel({
-      model: groqProvider("llama-3.1-8b-instant"),
-      middleware: defaultSettingsMiddleware({
-        settings: {
-          temperature: 0,
-          providerOptions: {
-            groq: {
-              structuredOutputs: true,
-              parallelToolCalls: true,
-              serviceTier: "on_demand",
+      model: groqProvider(MODEL_IDS.verify),
+      middleware: [
+        defaultSettingsMiddleware({
+          settings: {
+            temperature: 0,
+            providerOptions: {
+              groq: {
+                structuredOutputs: true,
+                parallelToolCalls: true,
+                serviceTier: "on_demand",
+              },
             },
           },
-        },
-      }),
+        }),
+        rateLimitMiddleware("verify", MODEL_IDS.verify),
+      ],
     }),
     [MODELS.reasoning]: wrapLanguageModel({
-      model: groqProvider("deepseek-r1-distill-llama-70b"),
-      middleware: defaultSettingsMiddleware({
-        settings: {
-          temperature: 0.2,
-          providerOptions: {
-            groq: {
-              reasoningFormat: "hidden",
-              reasoningEffort: "default",
-              structuredOutputs: false,
-              parallelToolCalls: true,
-              serviceTier: "on_demand",
+      model: groqProvider(MODEL_IDS.reasoning),
+      middleware: [
+        defaultSettingsMiddleware({
+          settings: {
+            temperature: 0.2,
+            providerOptions: {
+              groq: {
+                reasoningFormat: "hidden",
+                reasoningEffort: "default",
+                structuredOutputs: false,
+                parallelToolCalls: true,
+                serviceTier: "on_demand",
+              },
             },
           },
-        },
-      }),
+        }),
+        rateLimitMiddleware("reasoning", MODEL_IDS.reasoning),
+      ],
     }),
   },
   fallbackProvider: groqProvider,
@@ -124,6 +148,8 @@ type CommonCall = {
   groqOptions?: GroqProviderOptions;
   tools?: ToolSet;
   toolChoice?: ToolChoice<ToolSet>;
+  // Tool loops: keep stepping while the model calls tools (default: 1 step)
+  stopWhen?: StopCondition<ToolSet> | StopCondition<ToolSet>[];
 };
 
 type PromptCall = CommonCall & {
@@ -158,6 +184,7 @@ export function streamCompletion(opts: PromptCall | MessagesCall) {
     groqOptions,
     tools,
     toolChoice,
+    stopWhen,
   } = opts;
 
   const resolved = getModel(model, "answer");
@@ -169,9 +196,13 @@ export function streamCompletion(opts: PromptCall | MessagesCall) {
     abortSignal,
     tools,
     toolChoice,
+    stopWhen,
     providerOptions: sanitizeGroqOptions(groqOptions)
       ? { groq: sanitizeGroqOptions(groqOptions)! }
       : undefined,
+    // All steps of a tool loop together
+    onFinish: ({ totalUsage }: { totalUsage: LanguageModelUsage }) =>
+      recordModelUsage(resolved, totalUsage),
   };
 
   if (isPromptCall(opts)) {
@@ -240,6 +271,7 @@ export function generateCompletion(opts: PromptCall | MessagesCall) {
     groqOptions,
     tools,
     toolChoice,
+    stopWhen,
   } = opts;
 
   const resolved = getModel(model, "plan");
@@ -251,15 +283,19 @@ export function generateCompletion(opts: PromptCall | MessagesCall) {
     abortSignal,
     tools,
     toolChoice,
+    stopWhen,
     providerOptions: sanitizeGroqOptions(groqOptions)
       ? { groq: sanitizeGroqOptions(groqOptions)! }
       : undefined,
   };
 
-  if (isPromptCall(opts)) {
-    return generateText({ ...base, prompt: opts.prompt });
-  }
-  return generateText({ ...base, messages: opts.messages });
+  const call = isPromptCall(opts)
+    ? generateText({ ...base, prompt: opts.prompt })
+    : generateText({ ...base, messages: opts.messages });
+  return call.then((res) => {
+    recordModelUsage(resolved, res.totalUsage);
+    return res;
+  });
 }
 
 /* --------------------------------- Helpers -------------------------------- */
@@ -273,6 +309,16 @@ export function getModel(
   return input;
 }
 
+// Into the usage ledger (usage.ts), under the provider's model id
+function recordModelUsage(model: LanguageModel, usage: LanguageModelUsage) {
+  recordUsage({
+    provider: "groq",
+    model: typeof model === "string" ? model : model.modelId,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+  });
+}
+
 export function isAbortError(err: unknown): boolean {
   return (
     (err instanceof DOMException && err.name === "AbortError") ||
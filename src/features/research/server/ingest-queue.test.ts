@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { ingestQueue } from "@/db/schema";
+import { migrateTestDb } from "@/test/db";
+import { runIngestWorker } from "./ingest-queue";
+
+describe("runIngestWorker", () => {
+  before(migrateTestDb);
+
+  test("puts items back without spending an attempt when the pass is aborted", async () => {
+    await db
+      .insert(ingestQueue)
+      .values({ id: "q-abort", url: "https://example.com/a", attempts: 2 })
+      .run();
+    const ctrl = new AbortController();
+    ctrl.abort(new DOMException("Cancelled", "AbortError"));
+
+    const summary = await runIngestWorker({ signal: ctrl.signal });
+    assert.equal(summary.claimed, 1);
+    assert.equal(summary.dead, 0);
+    assert.equal(summary.requeued, 1);
+
+    const [row] = await db.select().from(ingestQueue).where(eq(ingestQueue.id, "q-abort"));
+    assert.equal(row.status, "queued");
+    assert.equal(row.attempts, 2);
+    assert.equal(row.nextAttemptAt, null);
+  });
+});
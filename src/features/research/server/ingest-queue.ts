@@ -0,0 +1,345 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { logger, logError, startSpan } from "@/lib/logger";
+import { env } from "@/lib/env";
+import { db } from "@/db";
+import { ingestQueue } from "@/db/schema";
+import { ingestUrl } from "./ingest";
+import { addToCollection } from "./collections";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type IngestWorkerOptions = {
+  limit?: number; // items claimed per run (default 10)
+  concurrency?: number; // default 4
+  reviveStaleSec?: number; // 'processing' older than this goes back to queued
+  dryRun?: boolean;
+  signal?: AbortSignal;
+};
+
+export type QueueItemResult =
+  | { id: string; url: string; status: "ok"; sourceId: string }
+  | { id: string; url: string; status: "exists"; sourceId: string }
+  | {
+      id: string;
+      url: string;
+      status: "requeued";
+      attempts: number;
+      nextAttemptAt: string;
+      error: string;
+    }
+  | { id: string; url: string; status: "dead"; attempts: number; error: string }
+  | { id: string; url: string; status: "error"; error: string };
+
+export type IngestWorkerSummary = {
+  revived: number;
+  claimed: number;
+  processed: number;
+  ok: number;
+  exists: number;
+  requeued: number;
+  dead: number;
+  errors: number;
+  remaining: number; // queued, including items still backing off
+  results: QueueItemResult[];
+};
+
+/* ------------------------------- Main entry -------------------------------- */
+
+/**
+ * One worker pass over ingest_queue: revive stuck items, claim the due ones,
+ * read + chunk + embed them. Failures back off exponentially
+ * (INGEST_BACKOFF_BASE_MS * 2^(attempts-1), capped at 6h) and land in 'dead'
+ * after INGEST_MAX_ATTEMPTS.
+ */
+export async function runIngestWorker(
+  opts: IngestWorkerOptions = {}
+): Promise<IngestWorkerSummary> {
+  const log = logger.child({ mod: "ingest-worker" });
+  const span = startSpan(log, "runIngestWorker");
+
+  const limit = Math.max(1, Math.min(50, opts.limit ?? 10));
+  const concurrency = Math.max(1, Math.min(8, opts.concurrency ?? 4));
+  const reviveStaleSec = Math.max(60, Math.min(3600, opts.reviveStaleSec ?? 300));
+
+  const revived = await reviveStaleProcessing(reviveStaleSec);
+  const claimed = opts.dryRun ? [] : await claimBatch(limit);
+
+  const results: QueueItemResult[] = await mapLimit(
+    claimed,
+    concurrency,
+    async (row): Promise<QueueItemResult> => {
+      try {
+        const res = await processQueueItem(row.id, row.url, opts.signal);
+        if (row.collection && (res.status === "ok" || res.status === "exists")) {
+          await addToCollection(row.collection, [res.sourceId]).catch((e) =>
+            logError(log, e, "collection filing failed", {
+              id: row.id,
+              collection: row.collection,
+            })
+          );
+        }
+        return res;
+      } catch (e: any) {
+        logError(log, e, "queue item crashed", { id: row.id, url: row.url });
+        return {
+          id: row.id,
+          url: row.url,
+          status: "error",
+          error: String(e?.message ?? e),
+        };
+      }
+    }
+  );
+
+  const remaining = await countQueued();
+  const count = (s: QueueItemResult["status"]) =>
+    results.filter((r) => r.status === s).length;
+
+  const summary: IngestWorkerSummary = {
+    revived,
+    claimed: claimed.length,
+    processed: results.length,
+    ok: count("ok"),
+    exists: count("exists"),
+    requeued: count("requeued"),
+    dead: count("dead"),
+    errors: count("error"),
+    remaining,
+    results,
+  };
+  span.end({
+    claimed: summary.claimed,
+    ok: summary.ok,
+    requeued: summary.requeued,
+    dead: summary.dead,
+    remaining,
+  });
+  return summary;
+}
+
+/* --------------------------------- Core ----------------------------------- */
+
+async function reviveStaleProcessing(staleSec: number): Promise<number> {
+  // Mark 'processing' rows that have been stuck as 'queued' again
+  const cutoffDate = new Date(Date.now() - staleSec * 1000);
+
+  // Select stale processing items
+  const stuck = await db
+    .select({ id: ingestQueue.id })
+    .from(ingestQueue)
+    .where(
+      and(
+        eq(ingestQueue.status, "processing"),
+        lt(ingestQueue.updatedAt, cutoffDate)
+      )
+    );
+
+  if (stuck.length === 0) return 0;
+
+  await db
+    .update(ingestQueue)
+    .set({ status: "queued", updatedAt: new Date() })
+    .where(
+      inArray(
+        ingestQueue.id,
+        stuck.map((r) => r.id)
+      )
+    )
+    .run();
+
+  return stuck.length;
+}
+
+async function claimBatch(limit: number) {
+  return await db.transaction(async (tx) => {
+    // Pick top N due items by priority DESC, attempts ASC, created_at ASC
+    const now = new Date();
+    const batch = await tx
+      .select({
+        id: ingestQueue.id,
+        url: ingestQueue.url,
+        collection: ingestQueue.collection,
+      })
+      .from(ingestQueue)
+      .where(
+        and(
+          eq(ingestQueue.status, "queued"),
+          or(isNull(ingestQueue.nextAttemptAt), lte(ingestQueue.nextAttemptAt, now))
+        )
+      )
+      .orderBy(
+        desc(ingestQueue.priority),
+        asc(ingestQueue.attempts),
+        asc(ingestQueue.createdAt)
+      )
+      .limit(limit);
+
+    const ids = batch.map((b) => b.id);
+    if (ids.length === 0) return [] as typeof batch;
+
+    // Claim them
+    await tx
+      .update(ingestQueue)
+      .set({ status: "processing", updatedAt: new Date() })
+      .where(
+        and(eq(ingestQueue.status, "queued"), inArray(ingestQueue.id, ids))
+      )
+      .run();
+
+    return batch;
+  });
+}
+
+async function processQueueItem(
+  id: string,
+  url: string,
+  abortSignal?: AbortSignal
+): Promise<QueueItemResult> {
+  try {
+    const res = await ingestUrl(url, { signal: abortSignal });
+
+    await db
+      .update(ingestQueue)
+      .set({ status: "done", nextAttemptAt: null, updatedAt: new Date() })
+      .where(eq(ingestQueue.id, id))
+      .run();
+
+    return { id, url, status: res.status, sourceId: res.sourceId };
+  } catch (e: any) {
+    // A cancelled pass says nothing about the URL; it costs no attempt
+    if (abortSignal?.aborted) return await release(id, url);
+    return await recordFailure(id, url, String(e?.message ?? "ingest failed"));
+  }
+}
+
+// Back to the queue as it was, due right away
+async function release(id: string, url: string): Promise<QueueItemResult> {
+  await db
+    .update(ingestQueue)
+    .set({ status: "queued", nextAttemptAt: null, updatedAt: new Date() })
+    .where(eq(ingestQueue.id, id))
+    .run();
+  const [row] = await db
+    .select({ attempts: ingestQueue.attempts })
+    .from(ingestQueue)
+    .where(eq(ingestQueue.id, id))
+    .limit(1);
+  return {
+    id,
+    url,
+    status: "requeued",
+    attempts: row?.attempts ?? 0,
+    nextAttemptAt: new Date().toISOString(),
+    error: "aborted",
+  };
+}
+
+async function recordFailure(
+  id: string,
+  url: string,
+  message: string
+): Promise<QueueItemResult> {
+  const row = await db
+    .select({ attempts: ingestQueue.attempts })
+    .from(ingestQueue)
+    .where(eq(ingestQueue.id, id))
+    .limit(1);
+  const attempts = (row[0]?.attempts ?? 0) + 1;
+  const error = truncate(message, 500);
+
+  // Dead letter: kept for inspection, never claimed again
+  if (attempts >= env.INGEST_MAX_ATTEMPTS) {
+    await db
+      .update(ingestQueue)
+      .set({
+        attempts,
+        status: "dead",
+        nextAttemptAt: null,
+        updatedAt: new Date(),
+        error,
+      })
+      .where(eq(ingestQueue.id, id))
+      .run();
+    return { id, url, status: "dead", attempts, error };
+  }
+
+  const nextAttemptAt = new Date(Date.now() + backoffMs(attempts));
+  await db
+    .update(ingestQueue)
+    .set({
+      attempts,
+      status: "queued",
+      nextAttemptAt,
+      updatedAt: new Date(),
+      error,
+    })
+    .where(eq(ingestQueue.id, id))
+    .run();
+  return {
+    id,
+    url,
+    status: "requeued",
+    attempts,
+    nextAttemptAt: nextAttemptAt.toISOString(),
+    error,
+  };
+}
+
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// base * 2^(attempts-1) with ±20% jitter so failed batches don't retry in lockstep
+function backoffMs(attempts: number): number {
+  const exp = env.INGEST_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = 0.8 + Math.random() * 0.4;
+  return Math.round(Math.min(MAX_BACKOFF_MS, exp) * jitter);
+}
+
+/* --------------------------------- Utils ---------------------------------- */
+
+function truncate(s: string, max = 500): string {
+  if (!s) return "";
+  return s.length <= max ? s : s.slice(0, max - 1) + "…";
+}
+
+/**
+ * Lightweight concurrency control
+ */
+async function mapLimit<T, R>(
+  arr: readonly T[],
+  limit: number,
+  fn: (item: T, idx: number) => Promise<R>
+): Promise<R[]> {
+  if (arr.length === 0) return [];
+  const results = new Array<R>(arr.length);
+  let i = 0;
+  let inFlight = 0;
+  return await new Promise<R[]>((resolve, reject) => {
+    const next = () => {
+      if (i >= arr.length && inFlight === 0) return resolve(results);
+      while (inFlight < limit && i < arr.length) {
+        const idx = i++;
+        inFlight++;
+        fn(arr[idx], idx)
+          .then((r) => {
+            results[idx] = r;
+            inFlight--;
+            next();
+          })
+          .catch(reject);
+      }
+    };
+    next();
+  });
+}
+
+async function countQueued(): Promise<number> {
+  const rows = await db
+    .select({ c: sql<number>`count(*)` })
+    .from(ingestQueue)
+    .where(eq(ingestQueue.status, "queued"));
+
+  const n = rows[0]?.c ?? 0;
+  return Number.isFinite(n) ? n : Number(n) || 0;
+}
@@ -0,0 +1,325 @@
+import "server-only";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  sources,
+  sourceContent,
+  sourceSimhashBands,
+  chunks,
+  type NewChunk,
+} from "@/db/schema";
+import { env } from "@/lib/env";
+import { normalizeDate } from "@/lib/dates";
+import { contentFingerprint, simhash } from "@/lib/fingerprint";
+import { id as newId } from "@/lib/id";
+import { logger, logError } from "@/lib/logger";
+import { sanitizeText, splitIntoWindows } from "@/lib/text";
+import { readUrl } from "./reader";
+import { pageRangeFor, type PageSpan } from "./extract";
+import { embedChunks } from "./embeddings";
+import { findNearDuplicate, simhashBandRows } from "./duplicates";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type IngestedSource = {
+  status: "ok" | "exists"; // exists: another ingest stored this source first
+  sourceId: string;
+  url: string;
+  domain: string;
+  title: string | null;
+  publishedAt: string | null;
+  chunks: number; // written by this call
+};
+
+export type IngestUrlOptions = {
+  title?: string | null; // e.g. from the search result; wins over the page title
+  publishedAt?: string | null; // search result date; page metadata wins
+  prefer?: "jina" | "raw";
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+export type SourceDocument = {
+  url: string;
+  domain: string;
+  title: string | null;
+  lang?: string | null;
+  publishedAt?: string | null;
+  httpStatus?: number | null;
+  fingerprint?: string | null; // default: contentFingerprint(text) for sketchable texts
+  text: string; // sanitized
+  html?: string | null;
+  pages?: PageSpan[];
+};
+
+// Rows per multi-row INSERT; keeps statements well under SQLite's variable cap
+const CHUNK_BATCH = 100;
+const BUSY_RETRIES = 5;
+
+/* ------------------------------- Main entry -------------------------------- */
+
+/**
+ * Read a URL and store it as a source with content and chunks.
+ * Returns the stored source when the URL is already known; throws when the
+ * page cannot be read.
+ */
+export async function ingestUrl(
+  url: string,
+  opts: IngestUrlOptions = {}
+): Promise<IngestedSource> {
+  const hintedDate = normalizeDate(opts.publishedAt);
+  const existing = await findSourceByUrl(url);
+  if (existing) {
+    if (!existing.publishedAt && hintedDate) {
+      await db
+        .update(sources)
+        .set({ publishedAt: hintedDate })
+        .where(and(eq(sources.id, existing.sourceId), isNull(sources.publishedAt)))
+        .run();
+      return { ...existing, publishedAt: hintedDate };
+    }
+    return existing;
+  }
+
+  const result = await readUrl(url, {
+    prefer: opts.prefer,
+    timeoutMs: opts.timeoutMs ?? env.REQUEST_TIMEOUT_MS,
+    signal: opts.signal,
+  });
+
+  // Locally read PDFs are already sanitized; their page offsets rely on it
+  const text = result.pages
+    ? result.text
+    : sanitizeText(result.text, {
+        normalize: "NFKC",
+        removeControl: true,
+        collapseWhitespace: false,
+        preserveNewlines: true,
+        decodeEntities: true,
+      });
+
+  return storeSource({
+    url,
+    domain: tryDomain(url),
+    title: opts.title ?? result.title ?? null,
+    lang: result.lang ?? null,
+    publishedAt: normalizeDate(result.publishedAt) ?? hintedDate,
+    httpStatus: result.httpStatus ?? null,
+    text,
+    html: result.html ?? null,
+    pages: result.pages ?? [],
+  });
+}
+
+/**
+ * Store source, content and chunks atomically. If the URL (or fingerprint)
+ * is already taken, e.g. by a concurrent ingest or an exact copy at another
+ * URL, nothing is written and the winning source is returned with status
+ * "exists". Near-duplicates are stored but join the cluster of the closest
+ * match (see duplicates.ts).
+ * Chunks are embedded after commit, best-effort.
+ */
+export async function storeSource(doc: SourceDocument): Promise<IngestedSource> {
+  const sourceId = newId();
+  const hash = simhash(doc.text);
+  // Texts too short to sketch ("Enable JavaScript") would collide across sites
+  const fingerprint =
+    doc.fingerprint ?? (hash ? contentFingerprint(doc.text) : null);
+  // Two near-duplicates stored at the same moment may both start a cluster
+  const near = hash ? await findNearDuplicate(hash) : null;
+
+  const windows = splitIntoWindows(doc.text, {
+    targetTokens: 1000,
+    overlapRatio: 0.15,
+    charsPerToken: 4,
+    respectParagraphs: true,
+  });
+  const rows: NewChunk[] = windows.map((w, pos) => ({
+    id: newId(),
+    sourceId,
+    pos,
+    charStart: w.charStart,
+    charEnd: w.charEnd,
+    ...pageRangeFor(doc.pages ?? [], w.charStart, w.charEnd),
+    text: w.text,
+    tokens: w.approxTokens,
+  }));
+
+  const created = await withBusyRetry(() =>
+    insertSource(
+      sourceId,
+      {
+        ...doc,
+        fingerprint,
+        simhash: hash,
+        clusterId: near?.clusterId ?? sourceId,
+      },
+      rows
+    )
+  );
+
+  if (!created) {
+    const winner =
+      (await findSourceByUrl(doc.url)) ??
+      (fingerprint ? await findSourceByFingerprint(fingerprint) : null);
+    if (!winner) {
+      throw new Error(`Source insert conflicted but not found: ${doc.url}`);
+    }
+    return winner;
+  }
+
+  await embedChunks(rows.map((r) => ({ id: r.id!, text: r.text }))).catch((e) =>
+    // Without vectors the chunks are still found through BM25
+    logError(logger.child({ mod: "ingest" }), e, "chunk embedding failed", {
+      sourceId,
+    })
+  );
+
+  return {
+    status: "ok",
+    sourceId,
+    url: doc.url,
+    domain: doc.domain,
+    title: doc.title,
+    publishedAt: doc.publishedAt ?? null,
+    chunks: rows.length,
+  };
+}
+
+/* --------------------------------- Lookup ---------------------------------- */
+
+export async function findSourceByUrl(
+  url: string
+): Promise<IngestedSource | null> {
+  const rows = await db
+    .select({
+      id: sources.id,
+      url: sources.url,
+      domain: sources.domain,
+      title: sources.title,
+      publishedAt: sources.publishedAt,
+    })
+    .from(sources)
+    .where(eq(sources.url, url))
+    .limit(1);
+  return rows[0] ? toExisting(rows[0]) : null;
+}
+
+export async function findSourceByFingerprint(
+  fingerprint: string
+): Promise<IngestedSource | null> {
+  const rows = await db
+    .select({
+      id: sources.id,
+      url: sources.url,
+      domain: sources.domain,
+      title: sources.title,
+      publishedAt: sources.publishedAt,
+    })
+    .from(sources)
+    .where(eq(sources.fingerprint, fingerprint))
+    .limit(1);
+  return rows[0] ? toExisting(rows[0]) : null;
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+function toExisting(r: {
+  id: string;
+  url: string;
+  domain: string;
+  title: string | null;
+  publishedAt: string | null;
+}): IngestedSource {
+  return {
+    status: "exists",
+    sourceId: r.id,
+    url: r.url,
+    domain: r.domain,
+    title: r.title,
+    publishedAt: r.publishedAt,
+    chunks: 0,
+  };
+}
+
+// One atomic batch (a single transaction, one round-trip). A unique
+// violation on the source row rolls everything back: returns false.
+async function insertSource(
+  sourceId: string,
+  doc: SourceDocument & { simhash: string | null; clusterId: string },
+  rows: NewChunk[]
+): Promise<boolean> {
+  const chunkInserts = [];
+  for (let i = 0; i < rows.length; i += CHUNK_BATCH) {
+    chunkInserts.push(db.insert(chunks).values(rows.slice(i, i + CHUNK_BATCH)));
+  }
+
+  try {
+    await db.batch([
+      db.insert(sources).values({
+        id: sourceId,
+        url: doc.url,
+        domain: doc.domain,
+        title: doc.title,
+        publishedAt: doc.publishedAt ?? null,
+        crawledAt: new Date().toISOString(),
+        lang: doc.lang ?? null,
+        fingerprint: doc.fingerprint ?? null,
+        simhash: doc.simhash,
+        clusterId: doc.clusterId,
+        wordCount: doc.text.split(/\s+/).filter(Boolean).length,
+        status: "ok",
+        httpStatus: doc.httpStatus ?? null,
+      }),
+      db
+        .insert(sourceContent)
+        .values({ sourceId, text: doc.text, html: doc.html ?? null }),
+      ...(doc.simhash
+        ? [db.insert(sourceSimhashBands).values(simhashBandRows(sourceId, doc.simhash))]
+        : []),
+      ...chunkInserts,
+    ]);
+    return true;
+  } catch (e) {
+    if (isUniqueViolation(e)) return false;
+    throw e;
+  }
+}
+
+// SQLite allows one writer; a batch racing another process's write can fail
+// fast with SQLITE_BUSY instead of waiting
+async function withBusyRetry<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= BUSY_RETRIES || !isBusyError(e)) throw e;
+      const delay = 50 * 2 ** attempt + Math.random() * 50;
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+}
+
+function isUniqueViolation(e: unknown): boolean {
+  const err = e as { code?: unknown; message?: unknown } | null;
+  return (
+    String(err?.code ?? "") === "SQLITE_CONSTRAINT_UNIQUE" ||
+    String(err?.message ?? "").includes("UNIQUE constraint failed")
+  );
+}
+
+function isBusyError(e: unknown): boolean {
+  const err = e as { code?: unknown; message?: unknown } | null;
+  return (
+    String(err?.code ?? "").startsWith("SQLITE_BUSY") ||
+    String(err?.message ?? "").includes("SQLITE_BUSY")
+  );
+}
+
+function tryDomain(u: string): string {
+  try {
+    return new URL(u).hostname;
+  } catch {
+    return "unknown";
+  }
+}
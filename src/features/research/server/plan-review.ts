@@ -0,0 +1,83 @@
+import "server-only";
+import { id as newId } from "@/lib/id";
+import type { PlanReviewDecision } from "../types";
+
+/**
+ * Paused runs waiting for the user to approve or edit their plan.
+ * deepResearch() parks here after emitting a `plan` event and the SSE stream
+ * stays open (heartbeats keep it alive); POST /api/research/plan resolves it.
+ * Held in process memory: the decision must reach the instance running the
+ * stream, which holds for the Node server this app deploys to.
+ */
+
+// Long enough to read and edit a plan; short enough not to pin streams forever
+export const PLAN_REVIEW_TIMEOUT_MS = 15 * 60_000;
+
+type Pending = { resolve: (d: PlanReviewDecision) => void };
+
+// Singleton guard for Next.js dev HMR (and route bundles that don't share modules)
+declare global {
+  var __PLAN_REVIEWS__: Map<string, Pending> | undefined;
+}
+const pending: Map<string, Pending> =
+  globalThis.__PLAN_REVIEWS__ ?? (globalThis.__PLAN_REVIEWS__ = new Map());
+
+export class PlanReviewCancelled extends Error {
+  constructor(reason = "Plan rejected by user") {
+    super(reason);
+    this.name = "PlanReviewCancelled";
+  }
+}
+
+/**
+ * Register a review and wait for the decision. `announce` receives the review
+ * id (to put in the `plan` event) before waiting starts. Rejects on timeout,
+ * abort or a "cancel" decision.
+ */
+export function awaitPlanReview(
+  announce: (reviewId: string, expiresAt: string) => void,
+  opts: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<PlanReviewDecision> {
+  const reviewId = newId();
+  const timeoutMs = opts.timeoutMs ?? PLAN_REVIEW_TIMEOUT_MS;
+
+  return new Promise<PlanReviewDecision>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      opts.signal?.removeEventListener("abort", onAbort);
+      pending.delete(reviewId);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(opts.signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new PlanReviewCancelled("Plan review timed out"));
+    }, timeoutMs);
+
+    if (opts.signal?.aborted) return onAbort();
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+    pending.set(reviewId, {
+      resolve: (d) => {
+        cleanup();
+        if (d.action === "cancel") reject(new PlanReviewCancelled());
+        else resolve(d);
+      },
+    });
+
+    announce(reviewId, new Date(Date.now() + timeoutMs).toISOString());
+  });
+}
+
+/**
+ * Deliver a decision. False when no run is waiting under this id (finished,
+ * timed out, or on another instance).
+ */
+export function submitPlanReview(decision: PlanReviewDecision): boolean {
+  const p = pending.get(decision.reviewId);
+  if (!p) return false;
+  p.resolve(decision);
+  return true;
+}
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { db } from "@/db";
+import { chunks, sources } from "@/db/schema";
+import { migrateTestDb } from "@/test/db";
+import { bm25Search, diversifyBySource, fuseByRrf, type RankedChunk } from "./rank";
+
+const chunk = (id: string, extra: Partial<RankedChunk> = {}): RankedChunk => ({
+  id,
+  sourceId: `src-${id}`,
+  text: id,
+  score: 0.5,
+  ...extra,
+});
+
+describe("fuseByRrf", () => {
+  test("passes a single non-empty list through unchanged", () => {
+    const list = [chunk("a", { score: 0.9 }), chunk("b", { score: 0.2 })];
+    assert.equal(fuseByRrf([list, []]), list);
+    assert.deepEqual(fuseByRrf([[], []]), []);
+  });
+
+  test("puts chunks found by both retrievers first", () => {
+    const bm25 = [chunk("a"), chunk("b"), chunk("c")];
+    const vector = [chunk("c"), chunk("a"), chunk("d")];
+    assert.deepEqual(
+      fuseByRrf([bm25, vector]).map((c) => c.id),
+      ["a", "c", "b", "d"]
+    );
+  });
+
+  test("scales scores so first in every list is 1", () => {
+    const fused = fuseByRrf([
+      [chunk("a"), chunk("b")],
+      [chunk("a"), chunk("c")],
+    ]);
+    assert.equal(fused[0].id, "a");
+    assert.equal(fused[0].score, 1);
+    for (const c of fused.slice(1)) {
+      assert.ok(c.score > 0 && c.score < 1);
+    }
+  });
+
+  test("keeps the signals of every retriever that found a chunk", () => {
+    const [a] = fuseByRrf([
+      [chunk("a", { bm25: 2.5, snippet: "…a…" })],
+      [chunk("a", { vector: 0.83 })],
+    ]);
+    assert.equal(a.bm25, 2.5);
+    assert.equal(a.snippet, "…a…");
+    assert.equal(a.vector, 0.83);
+  });
+});
+
+describe("diversifyBySource", () => {
+  // Best-first hits: three from "x", then one each from "y" and "z"
+  const hits = [
+    chunk("x1", { sourceId: "x", score: 0.9 }),
+    chunk("x2", { sourceId: "x", score: 0.8 }),
+    chunk("x3", { sourceId: "x", score: 0.7 }),
+    chunk("y1", { sourceId: "y", score: 0.6 }),
+    chunk("z1", { sourceId: "z", score: 0.5 }),
+  ];
+  const ids = (list: RankedChunk[]) => list.map((c) => c.id);
+
+  test("takes at most perSourceLimit chunks of a source while others remain", () => {
+    assert.deepEqual(ids(diversifyBySource(hits, 4, 1)), ["x1", "y1", "z1", "x2"]);
+    assert.deepEqual(ids(diversifyBySource(hits, 3, 2)), ["x1", "x2", "y1"]);
+  });
+
+  test("fills up to the cap from the best leftovers", () => {
+    assert.deepEqual(ids(diversifyBySource(hits, 5, 1)), ["x1", "y1", "z1", "x2", "x3"]);
+    assert.equal(diversifyBySource(hits, 10, 1).length, hits.length);
+  });
+
+  test("visits trusted sources first when trust is weighed", () => {
+    const trust = { bySource: new Map([["x", 0], ["z", 1]]), weight: 1 };
+    // y is unknown (0.5); x has no trust left at weight 1
+    assert.deepEqual(ids(diversifyBySource(hits, 2, 1, trust)), ["z1", "y1"]);
+    assert.deepEqual(ids(diversifyBySource(hits, 2, 1, { ...trust, weight: 0 })), ["x1", "y1"]);
+  });
+});
+
+describe("bm25Search", () => {
+  // Inserted weakest first: FTS rowid order is the opposite of relevance
+  const texts = [
+    "Grid operators expanded storage and transmission while solar grew slowly.",
+    "Solar farms, solar rooftops and solar tariffs drove the solar boom.",
+  ];
+
+  before(async () => {
+    await migrateTestDb();
+    await db.insert(sources).values([
+      { id: "bm-weak", url: "https://example.com/weak", domain: "example.com" },
+      { id: "bm-strong", url: "https://example.com/strong", domain: "example.com" },
+    ]);
+    await db.insert(chunks).values(
+      ["bm-weak", "bm-strong"].map((sourceId, i) => ({
+        id: `${sourceId}-0`,
+        sourceId,
+        pos: 0,
+        charStart: 0,
+        charEnd: texts[i].length,
+        text: texts[i],
+        tokens: 15,
+      }))
+    );
+  });
+
+  test("returns the best match first even when it was inserted last", async () => {
+    const hits = await bm25Search("solar", 10);
+    assert.deepEqual(
+      hits.map((h) => h.id),
+      ["bm-strong-0", "bm-weak-0"]
+    );
+    assert.ok(hits[0].score > hits[1].score);
+    assert.ok(hits.every((h) => h.score > 0 && h.score < 1));
+  });
+
+  test("cuts to the limit after ordering", async () => {
+    const [best, ...rest] = await bm25Search("solar", 1);
+    assert.equal(best.id, "bm-strong-0");
+    assert.deepEqual(rest, []);
+  });
+
+  test("orders within a source scope before the limit", async () => {
+    const [best] = await bm25Search("solar", 1, { sourceIds: ["bm-weak", "bm-strong"] });
+    assert.equal(best.id, "bm-strong-0");
+    const scoped = await bm25Search("solar", 10, { sourceIds: ["bm-weak"] });
+    assert.deepEqual(
+      scoped.map((h) => h.id),
+      ["bm-weak-0"]
+    );
+  });
+});
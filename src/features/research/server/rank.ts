@@ -1,8 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { client } from "@/db";
+import { inArray } from "drizzle-orm";
+import { client, db } from "@/db";
+import { sources as sourcesTable } from "@/db/schema";
 import { env } from "@/lib/env";
+import { recencyScore } from "@/lib/dates";
 import { logger, startSpan, logError } from "@/lib/logger";
 import { VoyageAIClient, VoyageAIError } from "voyageai";
+import { getEmbeddingBackend, vectorSearch } from "./embeddings";
+import { collectionSourceIds } from "./collections";
+import { sourceTrustScores } from "./trust";
+import { clusterIdsFor } from "./duplicates";
+import { recordUsage } from "./usage";
 
 export type RankedChunk = {
   id: string;
@@ -10,7 +18,16 @@ export type RankedChunk = {
   text: string;
   score: number;
   bm25?: number;
+  vector?: number; // cosine similarity when found by vector search
   snippet?: string | null;
+  reused?: boolean; // came from RankOptions.reuse, outside the primary scope
+  publishedAt?: string | null; // source date, set when recency is applied
+};
+
+// Which sources ranking may draw from (union of both); omit for the whole corpus
+export type RankScope = {
+  sourceIds?: string[];
+  collection?: string; // collection name, see collections.ts
 };
 
 export type RankOptions = {
@@ -19,7 +36,18 @@ export type RankOptions = {
   diversifyBySource?: boolean;
   perSourceLimit?: number;
   enableRerank?: boolean;
+  // BM25 + vector candidates fused by RRF; default on when embeddings are configured
+  hybrid?: boolean;
   timeoutMs?: number;
+  scope?: RankScope;
+  // Also draw from another scope (default: whole corpus) with scores scaled by weight
+  reuse?: { weight: number; scope?: RankScope };
+  // Blend in source freshness: score * (1 - weight + weight * recency)
+  recency?: { weight: number; halfLifeDays: number };
+  // Let source trust (cached/heuristic, see trust.ts) steer diversification order
+  trust?: { weight: number };
+  // Keep only the best-scoring source of each near-duplicate cluster
+  collapseDuplicates?: boolean;
 };
 
 export async function rankForQueries(
@@ -40,13 +68,42 @@ export async function rankForQueries(
   );
   const perQueryTake = Math.min(200, opts.perQueryTake ?? perQueryTakeBase);
 
-  const perQueryCandidates = await Promise.all(
-    queries.map((q) =>
-      bm25Search(q, perQueryTake).catch((e) => {
+  const hybrid = (opts.hybrid ?? true) && !!getEmbeddingBackend();
+
+  const scopeIds = await resolveRankScope(opts.scope);
+  // Reuse only means something when the primary scope is narrower than the corpus
+  const reuseWeight = scopeIds ? clamp01(opts.reuse?.weight ?? 0) : 0;
+  const reuseIds =
+    reuseWeight > 0 ? await resolveRankScope(opts.reuse?.scope) : [];
+  const scopeSet = new Set(scopeIds ?? []);
+
+  const retrieve = async (q: string, sourceIds: string[] | null) => {
+    const [lexical, semantic] = await Promise.all([
+      bm25Search(q, perQueryTake, { sourceIds }).catch((e) => {
         logError(log, e, "bm25Search failed", { query: q });
         return [] as RankedChunk[];
-      })
-    )
+      }),
+      hybrid
+        ? vectorCandidates(q, perQueryTake, sourceIds).catch((e) => {
+            logError(log, e, "vectorSearch failed", { query: q });
+            return [] as RankedChunk[];
+          })
+        : Promise.resolve([] as RankedChunk[]),
+    ]);
+    return hybrid ? fuseByRrf([lexical, semantic]) : lexical;
+  };
+
+  const perQueryCandidates = await Promise.all(
+    queries.map(async (q) => {
+      const [primary, extra] = await Promise.all([
+        retrieve(q, scopeIds),
+        reuseWeight > 0 ? retrieve(q, reuseIds) : Promise.resolve([]),
+      ]);
+      const reused = extra
+        .filter((c) => !scopeSet.has(c.sourceId))
+        .map((c) => ({ ...c, reused: true }));
+      return [...primary, ...reused];
+    })
   );
 
   const useRerank =
@@ -70,12 +127,31 @@ export async function rankForQueries(
     );
   } else {
     perQueryRanked = perQueryCandidates.map((cands) =>
-      cands
+      weighReused(cands, reuseWeight)
         .sort((a, b) => b.score - a.score)
         .slice(0, Math.min(cap, cands.length))
     );
   }
 
+  // Reranked scores are fresh, so reused chunks are down-weighted after the fact
+  if (useRerank && reuseWeight > 0) {
+    perQueryRanked = perQueryRanked.map((list) =>
+      weighReused(list, reuseWeight).sort((a, b) => b.score - a.score)
+    );
+  }
+
+  const recencyWeight = clamp01(opts.recency?.weight ?? 0);
+  if (recencyWeight > 0) {
+    perQueryRanked = await applyRecency(
+      perQueryRanked,
+      recencyWeight,
+      opts.recency!.halfLifeDays
+    ).catch((e) => {
+      logError(log, e, "recency lookup failed");
+      return perQueryRanked;
+    });
+  }
+
   const best = new Map<string, RankedChunk>();
   for (const list of perQueryRanked) {
     for (const item of list) {
@@ -84,9 +160,36 @@ export async function rankForQueries(
     }
   }
 
-  const merged = Array.from(best.values()).sort((a, b) => b.score - a.score);
+  let merged = Array.from(best.values()).sort((a, b) => b.score - a.score);
+
+  let collapsed = 0;
+  if (opts.collapseDuplicates && merged.length > 0) {
+    const before = merged.length;
+    merged = await collapseClusters(merged).catch((e) => {
+      logError(log, e, "cluster lookup failed");
+      return merged;
+    });
+    collapsed = before - merged.length;
+  }
+
+  const trustWeight = diversify ? clamp01(opts.trust?.weight ?? 0) : 0;
+  const trustBySource =
+    trustWeight > 0
+      ? await sourceTrustScores(merged.map((c) => c.sourceId))
+          .then((m) => new Map(Array.from(m, ([id, t]) => [id, t.score])))
+          .catch((e) => {
+            logError(log, e, "trust lookup failed");
+            return null;
+          })
+      : null;
+
   const final = diversify
-    ? diversifyBySource(merged, cap, perSourceLimit)
+    ? diversifyBySource(
+        merged,
+        cap,
+        perSourceLimit,
+        trustBySource ? { bySource: trustBySource, weight: trustWeight } : undefined
+      )
     : merged.slice(0, cap);
 
   span.end({
@@ -94,18 +197,48 @@ export async function rankForQueries(
     candidates: perQueryCandidates.flat().length,
     final: final.length,
     rerank: useRerank,
+    hybrid,
+    scoped: scopeIds ? scopeIds.length : "all",
+    reused: final.filter((c) => c.reused).length,
+    recency: recencyWeight,
+    trust: trustBySource ? trustWeight : 0,
+    collapsed,
   });
   return final;
 }
 
+/**
+ * Source ids a scope covers, or null for the whole corpus.
+ * An unknown collection covers nothing.
+ */
+export async function resolveRankScope(
+  scope?: RankScope
+): Promise<string[] | null> {
+  if (!scope || (!scope.sourceIds && !scope.collection)) return null;
+  const ids = new Set(scope.sourceIds ?? []);
+  if (scope.collection) {
+    for (const id of (await collectionSourceIds(scope.collection)) ?? []) {
+      ids.add(id);
+    }
+  }
+  return Array.from(ids);
+}
+
 export async function bm25Search(
   query: string,
-  limit = 24
+  limit = 24,
+  opts: { sourceIds?: string[] | null } = {}
 ): Promise<RankedChunk[]> {
   if (!query || !query.trim()) return [];
+  if (opts.sourceIds && opts.sourceIds.length === 0) return [];
   const q = toFtsMatchQuery(query);
   const opLog = logger.child({ mod: "rank", op: "bm25" });
 
+  const scope = opts.sourceIds
+    ? `AND c.source_id IN (${opts.sourceIds.map(() => "?").join(",")})`
+    : "";
+  const args = [q, ...(opts.sourceIds ?? []), limit];
+
   try {
     const res = await client.execute({
       sql: `
@@ -117,10 +250,11 @@ export async function bm25Search(
           snippet(chunks_fts, 0, '[[' , ']]', ' … ', 8) AS snippet
         FROM chunks_fts
         JOIN chunks c ON c.rowid = chunks_fts.rowid
-        WHERE chunks_fts MATCH ?
+        WHERE chunks_fts MATCH ? ${scope}
+        ORDER BY bm25(chunks_fts)
         LIMIT ?;
       `,
-      args: [q, limit],
+      args,
     });
     const rows = Array.isArray(res.rows) ? (res.rows as any[]) : [];
     return rows.map(normalizeBm25Row);
@@ -135,16 +269,108 @@ export async function bm25Search(
           bm25(chunks_fts) AS bm25
         FROM chunks_fts
         JOIN chunks c ON c.rowid = chunks_fts.rowid
-        WHERE chunks_fts MATCH ?
+        WHERE chunks_fts MATCH ? ${scope}
+        ORDER BY bm25(chunks_fts)
         LIMIT ?;
       `,
-      args: [q, limit],
+      args,
     });
     const rows = Array.isArray(res.rows) ? (res.rows as any[]) : [];
     return rows.map(normalizeBm25Row);
   }
 }
 
+async function vectorCandidates(
+  query: string,
+  limit: number,
+  sourceIds: string[] | null
+): Promise<RankedChunk[]> {
+  const hits = await vectorSearch(query, limit, {
+    sourceIds: sourceIds ?? undefined,
+  });
+  return hits.map((h) => ({
+    id: h.id,
+    sourceId: h.sourceId,
+    text: h.text,
+    vector: h.similarity,
+    score: Math.max(0, h.similarity),
+  }));
+}
+
+/**
+ * Reciprocal rank fusion of ranked lists (each best-first).
+ * Scores are scaled so a chunk ranked first in every list gets 1.
+ */
+export function fuseByRrf(lists: RankedChunk[][], k = 60): RankedChunk[] {
+  const active = lists.filter((l) => l.length > 0);
+  if (active.length <= 1) return active[0] ?? [];
+
+  const fused = new Map<string, RankedChunk & { rrf: number }>();
+  for (const list of active) {
+    list.forEach((item, rank) => {
+      const contrib = 1 / (k + rank + 1);
+      const prev = fused.get(item.id);
+      if (!prev) {
+        fused.set(item.id, { ...item, rrf: contrib });
+      } else {
+        // Keep signals from both retrievers (bm25, snippet, vector)
+        fused.set(item.id, { ...prev, ...item, rrf: prev.rrf + contrib });
+      }
+    });
+  }
+
+  const scale = (k + 1) / active.length;
+  return Array.from(fused.values())
+    .sort((a, b) => b.rrf - a.rrf)
+    .map(({ rrf, ...rest }) => ({ ...rest, score: clamp01(rrf * scale) }));
+}
+
+// Chunks of a source whose cluster already has a better-scoring source are dropped
+async function collapseClusters(sorted: RankedChunk[]): Promise<RankedChunk[]> {
+  const clusterOf = await clusterIdsFor(sorted.map((c) => c.sourceId));
+  const leader = new Map<string, string>();
+  return sorted.filter((c) => {
+    const cluster = clusterOf.get(c.sourceId) ?? c.sourceId;
+    const lead = leader.get(cluster);
+    if (!lead) leader.set(cluster, c.sourceId);
+    return !lead || lead === c.sourceId;
+  });
+}
+
+// Undated sources sit between fresh and stale rather than at either end
+const UNKNOWN_RECENCY = 0.5;
+
+async function applyRecency(
+  lists: RankedChunk[][],
+  weight: number,
+  halfLifeDays: number
+): Promise<RankedChunk[][]> {
+  const ids = Array.from(new Set(lists.flat().map((c) => c.sourceId)));
+  if (ids.length === 0) return lists;
+
+  const rows = await db
+    .select({ id: sourcesTable.id, publishedAt: sourcesTable.publishedAt })
+    .from(sourcesTable)
+    .where(inArray(sourcesTable.id, ids));
+  const dates = new Map(rows.map((r) => [r.id, r.publishedAt]));
+
+  const now = Date.now();
+  return lists.map((list) =>
+    list
+      .map((c) => {
+        const publishedAt = dates.get(c.sourceId) ?? null;
+        const r = recencyScore(publishedAt, halfLifeDays, now) ?? UNKNOWN_RECENCY;
+        return { ...c, publishedAt, score: c.score * (1 - weight + weight * r) };
+      })
+      .sort((a, b) => b.score - a.score)
+  );
+}
+
+function weighReused(list: RankedChunk[], weight: number): RankedChunk[] {
+  if (weight <= 0) return list;
+  return list.map((c) => (c.reused ? { ...c, score: c.score * weight } : c));
+}
+
 export async function rerankCandidates(
   query: string,
   candidates: RankedChunk[],
@@ -157,7 +383,8 @@ export async function rerankCandidates(
 
 function normalizeBm25Row(r: any): RankedChunk {
   const bm = typeof r.bm25 === "number" ? r.bm25 : Number(r.bm25 ?? 0);
-  const score = bm > 0 ? 1 / (1 + bm) : 0.5;
+  // FTS5's bm25() is negative, more negative = more relevant
+  const score = 1 - 1 / (1 + Math.max(0, -bm));
   return {
     id: String(r.id),
     sourceId: String(r.sourceId),
@@ -188,8 +415,16 @@ export function toFtsMatchQuery(input: string): string {
 export function diversifyBySource(
   hits: RankedChunk[],
   cap: number,
-  perSourceLimit: number
+  perSourceLimit: number,
+  // Visit hits by score * (1 - weight + weight * trust); unknown sources count as 0.5
+  trust?: { bySource: Map<string, number>; weight: number }
 ): RankedChunk[] {
+  if (trust && trust.weight > 0) {
+    const keyed = (h: RankedChunk) =>
+      h.score * (1 - trust.weight + trust.weight * (trust.bySource.get(h.sourceId) ?? 0.5));
+    hits = hits.slice().sort((a, b) => keyed(b) - keyed(a));
+  }
+
   const out: RankedChunk[] = [];
   const seenPerSource = new Map<string, number>();
 
@@ -259,6 +494,13 @@ async function voyageRerank(
       }
     );
 
+    recordUsage({
+      provider: "voyage",
+      model,
+      inputTokens:
+        (resp as any)?.usage?.totalTokens ?? (resp as any)?.usage?.total_tokens ?? 0,
+    });
+
     const results: Array<{ index: number; relevance_score: number }> =
       Array.isArray((resp as any)?.data) ? (resp as any).data : [];
 
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, mock, test } from "node:test";
+import { readUrl } from "./reader";
+
+describe("readUrl", () => {
+  const methods: string[] = [];
+
+  afterEach(() => {
+    methods.length = 0;
+    mock.restoreAll();
+  });
+
+  function serve(contentType: string) {
+    mock.method(globalThis, "fetch", async (_url: string, init?: RequestInit) => {
+      methods.push(init?.method ?? "GET");
+      return new Response("<html><title>Plant</title><p>Output rose.</p></html>", {
+        headers: { "content-type": contentType },
+      });
+    });
+  }
+
+  test("sends no HEAD request when the path has a file extension", async () => {
+    serve("text/html");
+    const res = await readUrl("https://example.com/news/plant.html");
+    assert.equal(res.title, "Plant");
+    assert.deepEqual(methods, ["GET"]);
+  });
+
+  test("probes extensionless paths once before reading", async () => {
+    serve("text/html");
+    await readUrl("https://example.com/news/plant");
+    assert.deepEqual(methods, ["HEAD", "GET"]);
+  });
+});
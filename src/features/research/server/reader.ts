@@ -4,6 +4,16 @@ import Firecrawl from "@mendable/firecrawl-js";
 import { env } from "@/lib/env";
 import { logger, logError, startSpan } from "@/lib/logger";
 import { sanitizeText } from "@/lib/text";
+import { normalizeDate } from "@/lib/dates";
+import {
+  extractMetaFromHtml,
+  extractPdf,
+  extractPublishedAt,
+  htmlToText,
+  isPdfBytes,
+  type PageSpan,
+} from "./extract";
+import { recordUsage } from "./usage";
 
 export type ReaderOptions = {
   timeoutMs?: number;
@@ -19,8 +29,10 @@ export type ReadResult = {
   finalUrl?: string;
   title?: string | null;
   lang?: string | null;
+  publishedAt?: string | null; // ISO, from page metadata
   contentType?: string | null;
   httpStatus?: number;
+  pages?: PageSpan[]; // PDFs read locally: per-page offsets into `text`
   from: "jina" | "raw";
 };
 
@@ -46,7 +58,15 @@ export async function readUrl(
 
   try {
     const paused = Date.now() < FIRECRAWL_PAUSED_UNTIL;
-    if (prefer === "jina" && !paused) {
+    // PDFs are read locally first so page offsets survive. A file extension
+    // in the path settles it; only extensionless paths cost a HEAD request
+    const pdf =
+      looksLikePdfUrl(normalized) ||
+      (prefer === "jina" &&
+        !paused &&
+        !hasFileExtension(normalized) &&
+        (await headIsPdf(normalized, options)));
+    if (prefer === "jina" && !paused && !pdf) {
       try {
         const res = await fetchViaFirecrawl(normalized, options);
         span.end({ from: "jina", bytes: res.text.length });
@@ -58,10 +78,23 @@ export async function readUrl(
       }
     }
 
-    const raw = await fetchRawHtml(normalized, options);
+    let raw: ReadResult;
+    try {
+      raw = await fetchRawHtml(normalized, options);
+    } catch (e) {
+      // A PDF skipped Firecrawl above; give it that chance now
+      if (prefer !== "jina" || paused || !pdf) throw e;
+      logError(log, e, "Local PDF read failed; trying Firecrawl", {
+        url: normalized,
+      });
+      const res = await fetchViaFirecrawl(normalized, options);
+      span.end({ from: "jina", bytes: res.text.length });
+      return res;
+    }
     span.end({
       from: "raw",
       bytes: (raw.html?.length ?? 0) + raw.text.length,
+      pages: raw.pages?.length,
     });
     return raw;
   } catch (e) {
@@ -120,6 +153,7 @@ async function fetchViaFirecrawl(
   const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT;
 
   let res: any;
+  recordUsage({ provider: "firecrawl", model: "scrape" });
   try {
     res = await withTimeout(client.scrape(url, scrapeOptions), timeoutMs, opts.signal);
   } catch (e: any) {
@@ -170,11 +204,18 @@ async function fetchViaFirecrawl(
     null;
   const httpStatus: number | undefined =
     typeof meta.statusCode === "number" ? meta.statusCode : undefined;
+  const providedPublished = normalizeDate(
+    meta.publishedTime ??
+      meta["article:published_time"] ??
+      meta.datePublished ??
+      meta.dcDate ??
+      meta.date
+  );
 
   const extracted =
     html && (!providedTitle || !providedLang)
       ? extractMetaFromHtml(html)
-      : { title: null, lang: null };
+      : { title: null, lang: null, publishedAt: null };
 
   const rawText = textCandidate ?? (html ? htmlToText(html) : "");
   const clean = sanitizeText(rawText, {
@@ -192,6 +233,7 @@ async function fetchViaFirecrawl(
     finalUrl,
     title: providedTitle ?? extracted.title,
     lang: (providedLang ? providedLang.toLowerCase() : null) ?? extracted.lang,
+    publishedAt: providedPublished ?? (html ? extractPublishedAt(html) : null),
     contentType,
     httpStatus,
     from: "jina", // keep literal for compatibility
@@ -214,7 +256,7 @@ async function fetchRawHtml(
       method: "GET",
       headers: {
         Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8,*/*;q=0.7",
+          "text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,text/plain;q=0.8,*/*;q=0.7",
         "User-Agent": opts.userAgent ?? UA_DEFAULT,
       },
       redirect: "follow",
@@ -228,6 +270,15 @@ async function fetchRawHtml(
     const finalUrl = (res as any).url || url;
     const contentType = res.headers.get("content-type") ?? null;
 
+    if (isPdfResponse(contentType, finalUrl)) {
+      return await readPdfResponse(res, {
+        url: finalUrl,
+        contentType,
+        httpStatus,
+        maxBytes: opts.maxBytes ?? DEFAULT_MAX_BYTES,
+      });
+    }
+
     if (contentType && isBinaryContent(contentType)) {
       throw new Error(`Unsupported content-type: ${contentType}`);
     }
@@ -237,7 +288,7 @@ async function fetchRawHtml(
       opts.maxBytes ?? DEFAULT_MAX_BYTES
     );
 
-    const { title, lang } = extractMetaFromHtml(html);
+    const { title, lang, publishedAt } = extractMetaFromHtml(html);
     const text = htmlToText(html);
 
     const clean = sanitizeText(text, {
@@ -255,6 +306,7 @@ async function fetchRawHtml(
       finalUrl,
       title,
       lang,
+      publishedAt,
       contentType,
       httpStatus,
       from: "raw",
@@ -264,6 +316,102 @@ async function fetchRawHtml(
   }
 }
 
+/* ---------------------------------- PDF ------------------------------------ */
+
+async function readPdfResponse(
+  res: Response,
+  meta: {
+    url: string;
+    contentType: string | null;
+    httpStatus: number;
+    maxBytes: number;
+  }
+): Promise<ReadResult> {
+  const bytes = await readBodyAsBytesWithLimit(res, meta.maxBytes);
+  if (!isPdfBytes(bytes)) {
+    throw new Error(`Not a PDF despite content-type: ${meta.contentType}`);
+  }
+
+  const doc = await extractPdf(bytes, pdfFilename(meta.url));
+  if (!doc.text.trim()) {
+    throw new Error("PDF has no extractable text (scanned?)");
+  }
+
+  return {
+    text: doc.text,
+    html: null,
+    finalUrl: meta.url,
+    title: doc.title,
+    lang: doc.lang,
+    publishedAt: doc.publishedAt,
+    contentType: meta.contentType,
+    httpStatus: meta.httpStatus,
+    pages: doc.pages,
+    from: "raw",
+  };
+}
+
+function isPdfResponse(ct: string | null, url: string): boolean {
+  const lower = (ct ?? "").toLowerCase();
+  if (lower.includes("pdf")) return true;
+  // Servers often send PDFs as octet-stream (or nothing); trust the path then
+  const generic = !lower || lower.includes("octet-stream");
+  return generic && looksLikePdfUrl(url);
+}
+
+const HEAD_TIMEOUT_MS = 5000;
+
+// Whether the server says the URL is a PDF. Best-effort: servers that refuse
+// HEAD (or time out) read as "no", leaving the raw fetch to notice later
+async function headIsPdf(url: string, opts: ReaderOptions): Promise<boolean> {
+  const { signal, cancel } = timeoutSignal(
+    Math.min(opts.timeoutMs ?? DEFAULT_TIMEOUT, HEAD_TIMEOUT_MS),
+    opts.signal
+  );
+  try {
+    const res = await fetch(url, {
+      method: "HEAD",
+      headers: { "User-Agent": opts.userAgent ?? UA_DEFAULT },
+      redirect: "follow",
+      signal,
+      cache: "no-store" as any,
+    });
+    const ct = (res.headers.get("content-type") ?? "").toLowerCase();
+    return res.ok && ct.includes("application/pdf");
+  } catch {
+    return false;
+  } finally {
+    cancel();
+  }
+}
+
+function looksLikePdfUrl(u: string): boolean {
+  try {
+    return new URL(u).pathname.toLowerCase().endsWith(".pdf");
+  } catch {
+    return false;
+  }
+}
+
+// "/report.html", "/index.php": the last path segment names a file type
+function hasFileExtension(u: string): boolean {
+  try {
+    const last = new URL(u).pathname.split("/").pop() ?? "";
+    return /\.[a-z0-9]{1,5}$/i.test(last);
+  } catch {
+    return false;
+  }
+}
+
+function pdfFilename(u: string): string {
+  try {
+    const last = new URL(u).pathname.split("/").filter(Boolean).pop();
+    return last ? decodeURIComponent(last) : "document.pdf";
+  } catch {
+    return "document.pdf";
+  }
+}
+
 /* -------------------------------- Utilities -------------------------------- */
 
 function normalizeUrl(input: string): string {
@@ -360,56 +508,59 @@ async function readBodyAsTextWithLimit(
   return out;
 }
 
+async function readBodyAsBytesWithLimit(
+  res: Response,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const len = parseInt(res.headers.get("content-length") || "0", 10);
+  if (Number.isFinite(len) && len > 0 && len > maxBytes) {
+    throw new Error(`Response too large: ${len} bytes (limit ${maxBytes})`);
+  }
+
+  const reader = (res as any).body?.getReader?.();
+  if (!reader) {
+    const buf = new Uint8Array(await res.arrayBuffer());
+    if (buf.byteLength > maxBytes)
+      throw new Error(`Response exceeded byte limit: > ${maxBytes} bytes`);
+    return buf;
+  }
+
+  const parts: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value) {
+      received += value.byteLength;
+      if (received > maxBytes) {
+        try {
+          reader.cancel();
+        } catch {}
+        throw new Error(`Response exceeded byte limit: > ${maxBytes} bytes`);
+      }
+      parts.push(value);
+    }
+  }
+
+  const out = new Uint8Array(received);
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.byteLength;
+  }
+  return out;
+}
+
 function byteLength(str: string): number {
   return new TextEncoder().encode(str).byteLength;
 }
 
 function isBinaryContent(ct: string): boolean {
   const lower = ct.toLowerCase();
-  if (lower.includes("pdf")) return true; // PDFs: consider routing to Firecrawl to control cost
+  if (lower.includes("pdf")) return true; // only reached when not read as PDF
   if (lower.startsWith("image/")) return true;
   if (lower.startsWith("video/")) return true;
   if (lower.startsWith("audio/")) return true;
   if (lower.includes("octet-stream")) return true;
   return false;
 }
-
-function extractMetaFromHtml(html: string): {
-  title: string | null;
-  lang: string | null;
-} {
-  let title: string | null = null;
-  let lang: string | null = null;
-
-  try {
-    const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
-    title = m ? stripTags(m[1]).trim() : null;
-  } catch {
-    title = null;
-  }
-
-  try {
-    const lm = html.match(/<html[^>]*\blang=["']?([a-zA-Z-]{2,})["']?[^>]*>/i);
-    lang = lm ? lm[1].toLowerCase() : null;
-  } catch {
-    lang = null;
-  }
-
-  return { title, lang };
-}
-
-function htmlToText(html: string): string {
-  let s = html.replace(/<script[\s\S]*?<\/script>/gi, "");
-  s = s.replace(/<style[\s\S]*?<\/style>/gi, "");
-  s = s.replace(/<(?:br|br\/|br\s*\/)>/gi, "\n");
-  s = s.replace(/<\/p>/gi, "\n\n");
-  s = stripTags(s);
-  s = s.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  s = s.replace(/\n{3,}/g, "\n\n");
-  return s.trim();
-}
-
-function stripTags(s: string): string {
-  return s.replace(/<[^>]+>/g, "");
-}
- 
\ No newline at end of file
@@ -0,0 +1,250 @@
+import "server-only";
+import { asc, eq, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import { env } from "@/lib/env";
+import { logger, startSpan } from "@/lib/logger";
+import {
+  messages,
+  messageContexts,
+  sources as sourcesTable,
+} from "@/db/schema";
+import {
+  ContextPackSchema,
+  type ContextChunk,
+  type ContextPack,
+  type Depth,
+  type RegenerateRequest,
+  type SourceRef,
+} from "../types";
+import {
+  answerFromContext,
+  hitsForPinnedSources,
+  type AnswerResult,
+  type DeepResearchOptions,
+} from "./deepresearch";
+import { assessSourceTrust, withTrust } from "./trust";
+import { latestVersions, toHistoryMessages } from "./threads";
+
+/**
+ * Regeneration: answer a turn again from the context pack stored with one of
+ * its answers (message_contexts), skipping plan, search, read and rank. The
+ * result is saved as the turn's next answer version.
+ */
+
+export type StoredContext = {
+  messageId: string; // the answer version the pack belongs to
+  rootId: string; // the turn's first answer; versions hang off it
+  threadId: string;
+  question: string;
+  depth: Depth;
+  pack: ContextPack;
+};
+
+export type RegenerateOptions = Pick<DeepResearchOptions, "emit" | "signal"> & {
+  context?: StoredContext; // already loaded (route preflight)
+};
+
+/**
+ * Context pack stored with an assistant message. Null when the message is
+ * unknown or predates stored contexts.
+ */
+export async function loadMessageContext(
+  messageId: string
+): Promise<StoredContext | null> {
+  const [row] = await db
+    .select({
+      messageId: messages.id,
+      threadId: messages.threadId,
+      versionOf: messages.versionOf,
+      question: messageContexts.question,
+      depth: messageContexts.depth,
+      sourcesJson: messageContexts.sourcesJson,
+      chunksJson: messageContexts.chunksJson,
+    })
+    .from(messageContexts)
+    .innerJoin(messages, eq(messages.id, messageContexts.messageId))
+    .where(eq(messageContexts.messageId, messageId))
+    .limit(1);
+  if (!row) return null;
+
+  const pack = ContextPackSchema.safeParse({
+    sources: parseJSON(row.sourcesJson),
+    chunks: parseJSON(row.chunksJson),
+  });
+  if (!pack.success) return null;
+
+  return {
+    messageId: row.messageId,
+    rootId: row.versionOf ?? row.messageId,
+    threadId: row.threadId,
+    question: row.question,
+    depth: row.depth,
+    pack: pack.data,
+  };
+}
+
+export async function regenerateAnswer(
+  input: RegenerateRequest,
+  opts: RegenerateOptions = {}
+): Promise<AnswerResult & { threadId: string }> {
+  const emit = opts.emit ?? (() => {});
+  const log = logger.child({ mod: "regenerate" });
+
+  const stored = opts.context ?? (await loadMessageContext(input.messageId));
+  if (!stored) throw new Error(`No stored context for message ${input.messageId}`);
+  const { threadId, question } = stored;
+
+  emit({
+    event: "progress",
+    data: { stage: "rank", message: "Reusing the earlier answer's sources" },
+  });
+  const span = startSpan(log, "context");
+
+  const { sources, chunks } = await adjustContext(stored, input);
+  if (sources.length === 0) {
+    throw new Error("Every source was excluded; nothing left to answer from");
+  }
+  const sourceTrust = await assessSourceTrust(sources, {
+    abortSignal: opts.signal,
+  });
+
+  const history = await historyBefore(threadId, stored.rootId);
+  span.end({ sources: sources.length, chunks: chunks.length });
+
+  emit({
+    event: "progress",
+    data: {
+      stage: "rank",
+      message: `Answering again from ${sources.length} sources`,
+      meta: {
+        sources: sources.length,
+        chunks: chunks.length,
+        excluded: input.excludeSourceIds?.length ?? 0,
+        pinned: input.pinSourceIds?.length ?? 0,
+      },
+    },
+  });
+
+  const answer = await answerFromContext(
+    {
+      threadId,
+      question,
+      depth: stored.depth,
+      style: input.style,
+      guidance: input.instructions,
+      history,
+      sources: withTrust(sources, sourceTrust),
+      chunks,
+      sourceTrust,
+      versionOf: { messageId: stored.rootId },
+    },
+    { emit, signal: opts.signal }
+  );
+
+  emit({ event: "done", data: { threadId, messageId: answer.messageId } });
+  return { ...answer, threadId };
+}
+
+/* --------------------------------- Context --------------------------------- */
+
+/**
+ * Apply exclusions and pins to the stored pack. Pinned sources move to the
+ * front (budget trimming cuts from the back); pinned sources the pack lacks
+ * are ranked within themselves for the question. Indexes are renumbered.
+ */
+async function adjustContext(
+  stored: StoredContext,
+  input: RegenerateRequest
+): Promise<{ sources: SourceRef[]; chunks: ContextChunk[] }> {
+  const excluded = new Set(input.excludeSourceIds ?? []);
+  const pins = (input.pinSourceIds ?? []).filter((id) => !excluded.has(id));
+
+  let sources = stored.pack.sources.filter((s) => !excluded.has(s.id));
+  let chunks = stored.pack.chunks.filter((c) => !excluded.has(c.sourceId));
+
+  const inPack = new Set(sources.map((s) => s.id));
+  const missing = pins.filter((id) => !inPack.has(id));
+  if (missing.length > 0) {
+    const [rows, hits] = await Promise.all([
+      db
+        .select({
+          id: sourcesTable.id,
+          url: sourcesTable.url,
+          title: sourcesTable.title,
+          domain: sourcesTable.domain,
+          publishedAt: sourcesTable.publishedAt,
+        })
+        .from(sourcesTable)
+        .where(inArray(sourcesTable.id, missing)),
+      hitsForPinnedSources([stored.question], missing, {
+        perSourceLimit: 3,
+        diversifyBySource: true,
+        enableRerank: false,
+        timeoutMs: env.REQUEST_TIMEOUT_MS,
+      }),
+    ]);
+    sources = [
+      ...sources,
+      ...rows.map((s) => ({
+        id: s.id,
+        url: s.url,
+        title: s.title ?? null,
+        domain: s.domain ?? null,
+        publishedAt: s.publishedAt ?? null,
+      })),
+    ];
+    chunks = [
+      ...chunks,
+      ...hits.map((h) => ({ sourceId: h.sourceId, chunkId: h.id, text: h.text })),
+    ];
+  }
+
+  const pinned = new Set(pins);
+  const ordered = [
+    ...sources.filter((s) => pinned.has(s.id)),
+    ...sources.filter((s) => !pinned.has(s.id)),
+  ];
+  const bySource = new Map<string, ContextChunk[]>();
+  for (const c of chunks) {
+    bySource.set(c.sourceId, [...(bySource.get(c.sourceId) ?? []), c]);
+  }
+
+  // Sources without a chunk could not be cited anyway
+  const kept = ordered.filter((s) => bySource.has(s.id));
+  return {
+    sources: kept.map((s, i) => ({ ...s, index: i + 1 })),
+    chunks: kept.flatMap((s) => bySource.get(s.id) ?? []),
+  };
+}
+
+/* --------------------------------- Thread ---------------------------------- */
+
+// Model history as the original answer saw it: the turns before this one
+async function historyBefore(threadId: string, rootId: string) {
+  const rows = await db
+    .select({
+      id: messages.id,
+      versionOf: messages.versionOf,
+      role: messages.role,
+      contentMd: messages.contentMd,
+    })
+    .from(messages)
+    .where(eq(messages.threadId, threadId))
+    .orderBy(asc(messages.createdAt), asc(messages.id));
+
+  const turnMsgs = latestVersions(rows);
+  // The turn's answer is preceded by its question, which the prompt repeats
+  const at = turnMsgs.findIndex((m) => m.id === rootId || m.versionOf === rootId);
+  const before = at > 0 ? turnMsgs.slice(0, at - 1) : [];
+  return toHistoryMessages(before);
+}
+
+/* --------------------------------- Utils ----------------------------------- */
+
+function parseJSON(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
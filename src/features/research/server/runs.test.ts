@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { runEvents, runs } from "@/db/schema";
+import { id as newId } from "@/lib/id";
+import { migrateTestDb } from "@/test/db";
+import { followRun, type RunEventRecord } from "./runs";
+
+async function collect(it: AsyncIterable<RunEventRecord>) {
+  const out: RunEventRecord[] = [];
+  for await (const e of it) out.push(e);
+  return out;
+}
+
+function storeEvent(runId: string, seq: number, event: string, data: unknown) {
+  return db
+    .insert(runEvents)
+    .values({ id: newId(), runId, seq, event, dataJson: JSON.stringify(data) })
+    .run();
+}
+
+// Runs of another process: none of them is in this process's memory
+describe("followRun for runs held elsewhere", () => {
+  before(migrateTestDb);
+
+  test("follows a live run through the database until it ends", async () => {
+    const runId = newId();
+    await db.insert(runs).values({ id: runId, question: "q", heartbeatAt: new Date() }).run();
+    await storeEvent(runId, 1, "progress", { stage: "plan" });
+
+    const events = collect(followRun(runId, 0));
+    setTimeout(async () => {
+      await storeEvent(runId, 2, "token", { text: "Hi" });
+      await storeEvent(runId, 3, "done", { threadId: "t" });
+      await db.update(runs).set({ status: "done" }).where(eq(runs.id, runId)).run();
+    }, 100);
+
+    assert.deepEqual(
+      (await events).map((e) => [e.seq, e.event]),
+      [
+        [1, "progress"],
+        [2, "token"],
+        [3, "done"],
+      ]
+    );
+    const [row] = await db.select().from(runs).where(eq(runs.id, runId));
+    assert.equal(row.status, "done");
+  });
+
+  test("declares a run with a stale heartbeat interrupted without writing to its log", async () => {
+    const runId = newId();
+    const stale = new Date(Date.now() - 10 * 60_000);
+    await db.insert(runs).values({ id: runId, question: "q", heartbeatAt: stale }).run();
+    await storeEvent(runId, 1, "progress", { stage: "plan" });
+    await storeEvent(runId, 2, "progress", { stage: "search" });
+
+    const events = await collect(followRun(runId, 1));
+    assert.deepEqual(
+      events.map((e) => [e.seq, e.event]),
+      [
+        [2, "progress"],
+        [3, "error"],
+      ]
+    );
+    assert.match(String((events[1].data as { message: string }).message), /interrupted/);
+
+    const [row] = await db.select().from(runs).where(eq(runs.id, runId));
+    assert.equal(row.status, "error");
+    const log = await db.select().from(runEvents).where(eq(runEvents.runId, runId));
+    assert.equal(log.length, 2);
+  });
+
+  test("stops following when the client detaches", async () => {
+    const runId = newId();
+    await db.insert(runs).values({ id: runId, question: "q", heartbeatAt: new Date() }).run();
+    const ctrl = new AbortController();
+    setTimeout(() => ctrl.abort(), 100);
+    assert.deepEqual(await collect(followRun(runId, 0, ctrl.signal)), []);
+    const [row] = await db.select().from(runs).where(eq(runs.id, runId));
+    assert.equal(row.status, "running");
+  });
+});
@@ -0,0 +1,443 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { and, asc, desc, eq, gt, isNull, lt, or } from "drizzle-orm";
+import { db } from "@/db";
+import { runs, runEvents } from "@/db/schema";
+import { id as newId } from "@/lib/id";
+import { logger, logError } from "@/lib/logger";
+import { createSSEStream, sseResponse } from "@/lib/sse";
+import type { ResearchRequest, RunStatus } from "../types";
+import { deepResearch, type DeepResearchEmitEvent } from "./deepresearch";
+import { UsageMeter, meteredEmit, persistUsage, withUsage } from "./usage";
+
+/**
+ * Detached research runs. A run executes independently of the request that
+ * started it; every event it emits gets a per-run sequence number and is
+ * written to run_events, so any number of clients can attach, detach and
+ * reattach (SSE Last-Event-ID = last seq seen) without losing events.
+ *
+ * Live runs are tracked in-process: their events are replayed from memory
+ * and followed live. Runs of other processes are followed through the
+ * database; the process running a run keeps its heartbeat fresh, and only a
+ * run whose heartbeat went stale is declared interrupted.
+ */
+
+export type RunEventRecord = {
+  seq: number;
+  event: DeepResearchEmitEvent["event"];
+  data: unknown;
+};
+
+export type RunInfo = {
+  id: string;
+  status: RunStatus;
+  threadId: string | null;
+};
+
+type ActiveRun = {
+  id: string;
+  status: RunStatus;
+  threadId: string | null;
+  visitorId: string | null;
+  controller: AbortController;
+  events: RunEventRecord[]; // full log while the run is in memory
+  listeners: Set<(e: RunEventRecord | null) => void>; // null = run ended
+  unsaved: RunEventRecord[];
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  heartbeat: ReturnType<typeof setInterval> | null;
+  writes: Promise<void>; // serializes event inserts
+};
+
+const FLUSH_MS = 250;
+const FLUSH_BATCH = 200;
+// Finished runs stay in memory briefly so late reattaches skip the database
+const RETAIN_MS = 60_000;
+const HEARTBEAT_MS = 15_000;
+// Well past a missed beat or two; heartbeat_at has second resolution
+const STALE_MS = 90_000;
+// How often a run of another process is checked for new events
+const POLL_MS = 1_000;
+
+declare global {
+  var __RESEARCH_RUNS__: Map<string, ActiveRun> | undefined;
+}
+const active: Map<string, ActiveRun> =
+  globalThis.__RESEARCH_RUNS__ ?? (globalThis.__RESEARCH_RUNS__ = new Map());
+
+const log = logger.child({ mod: "runs" });
+
+/* --------------------------------- Lifecycle -------------------------------- */
+
+/**
+ * Create a run and start it in the background. Resolves once the run row
+ * exists, with the run id; the run itself continues after the caller returns.
+ */
+export async function startRun(
+  req: ResearchRequest,
+  opts: { visitorId?: string | null } = {}
+): Promise<string> {
+  const id = newId();
+  await db
+    .insert(runs)
+    .values({ id, question: req.question, heartbeatAt: new Date() })
+    .run();
+
+  const run: ActiveRun = {
+    id,
+    status: "running",
+    threadId: req.threadId ?? null,
+    visitorId: opts.visitorId ?? null,
+    controller: new AbortController(),
+    events: [],
+    listeners: new Set(),
+    unsaved: [],
+    flushTimer: null,
+    heartbeat: null,
+    writes: Promise.resolve(),
+  };
+  active.set(id, run);
+
+  run.heartbeat = setInterval(() => {
+    db.update(runs)
+      .set({ heartbeatAt: new Date() })
+      .where(eq(runs.id, id))
+      .run()
+      .catch((e) => logError(log, e, "run heartbeat failed", { runId: id }));
+  }, HEARTBEAT_MS);
+  run.heartbeat.unref?.();
+
+  void execute(run, req);
+  return id;
+}
+
+/**
+ * Abort a live run. Returns false when the run is unknown here or finished.
+ */
+export function cancelRun(runId: string): boolean {
+  const run = active.get(runId);
+  if (!run || run.status !== "running") return false;
+  run.controller.abort(new DOMException("Run cancelled", "AbortError"));
+  return true;
+}
+
+export async function getRun(runId: string): Promise<RunInfo | null> {
+  const run = active.get(runId);
+  if (run) return { id: run.id, status: run.status, threadId: run.threadId };
+
+  const [row] = await db
+    .select({ id: runs.id, status: runs.status, threadId: runs.threadId })
+    .from(runs)
+    .where(eq(runs.id, runId))
+    .limit(1);
+  return row ?? null;
+}
+
+async function execute(run: ActiveRun, req: ResearchRequest) {
+  let error: string | null = null;
+  const meter = new UsageMeter();
+  try {
+    await withUsage(meter, () =>
+      deepResearch(req, {
+        signal: run.controller.signal,
+        visitorId: run.visitorId,
+        emit: meteredEmit(meter, (e) => record(run, e)),
+      })
+    );
+    run.status = "done";
+  } catch (err: any) {
+    if (run.controller.signal.aborted && isAbort(err)) {
+      run.status = "cancelled";
+      error = "Run cancelled";
+    } else {
+      logError(log, err, "run failed", { runId: run.id });
+      run.status = "error";
+      error = String(err?.message ?? "Internal error");
+    }
+    record(run, { event: "error", data: { message: error } });
+  }
+
+  if (run.heartbeat) clearInterval(run.heartbeat);
+  run.heartbeat = null;
+
+  // Each write on its own: a failed event flush or usage insert must not
+  // leave the run row "running" for good
+  await flush(run).catch((e) =>
+    logError(log, e, "run event flush failed", { runId: run.id })
+  );
+  try {
+    await db
+      .update(runs)
+      .set({
+        status: run.status,
+        threadId: run.threadId,
+        error,
+        finishedAt: new Date(),
+      })
+      .where(eq(runs.id, run.id))
+      .run();
+  } catch (e) {
+    logError(log, e, "run status persist failed", { runId: run.id });
+  }
+  // Failed and cancelled runs spent too
+  await persistUsage(meter, {
+    threadId: run.threadId,
+    runId: run.id,
+    visitorId: run.visitorId,
+    depth: req.depth,
+  }).catch((e) => logError(log, e, "run usage persist failed", { runId: run.id }));
+
+  for (const l of run.listeners) l(null);
+  run.listeners.clear();
+  setTimeout(() => active.delete(run.id), RETAIN_MS).unref?.();
+}
+
+/* ---------------------------------- Events ---------------------------------- */
+
+function record(run: ActiveRun, e: DeepResearchEmitEvent) {
+  const data: any = e.data;
+  if (typeof data?.threadId === "string") run.threadId = data.threadId;
+
+  const evt: RunEventRecord = { seq: run.events.length + 1, event: e.event, data };
+  run.events.push(evt);
+  run.unsaved.push(evt);
+  for (const l of run.listeners) l(evt);
+
+  run.flushTimer ??= setTimeout(() => {
+    run.flushTimer = null;
+    void flush(run);
+  }, FLUSH_MS);
+}
+
+function flush(run: ActiveRun): Promise<void> {
+  if (run.flushTimer) {
+    clearTimeout(run.flushTimer);
+    run.flushTimer = null;
+  }
+  const batch = run.unsaved.splice(0);
+  run.writes = run.writes.then(async () => {
+    for (let i = 0; i < batch.length; i += FLUSH_BATCH) {
+      await db
+        .insert(runEvents)
+        .values(
+          batch.slice(i, i + FLUSH_BATCH).map((e) => ({
+            id: newId(),
+            runId: run.id,
+            seq: e.seq,
+            event: e.event,
+            dataJson: JSON.stringify(e.data ?? null),
+          }))
+        )
+        .onConflictDoNothing()
+        .run()
+        .catch((err) => logError(log, err, "run event persist failed", { runId: run.id }));
+    }
+  });
+  return run.writes;
+}
+
+/**
+ * Events after `afterSeq`, then live events until the run ends or `signal`
+ * aborts. Replays from memory for live runs, from the database otherwise.
+ */
+export async function* followRun(
+  runId: string,
+  afterSeq: number,
+  signal?: AbortSignal
+): AsyncGenerator<RunEventRecord> {
+  const run = active.get(runId);
+  if (!run) {
+    yield* followStored(runId, afterSeq, signal);
+    return;
+  }
+
+  // Snapshot and subscribe in the same tick so nothing falls in between
+  const queue: (RunEventRecord | null)[] = run.events.filter((e) => e.seq > afterSeq);
+  if (run.status !== "running") queue.push(null);
+  let wake: (() => void) | null = null;
+  const listener = (e: RunEventRecord | null) => {
+    queue.push(e);
+    wake?.();
+  };
+  const onAbort = () => wake?.();
+  if (run.status === "running") run.listeners.add(listener);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    while (!signal?.aborted) {
+      if (queue.length === 0) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+        continue;
+      }
+      const next = queue.shift()!;
+      if (next === null) return;
+      yield next;
+    }
+  } finally {
+    run.listeners.delete(listener);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * A run this process does not hold: replay its stored events and, while
+ * another process keeps it alive, poll for more. Nothing is written to its
+ * event log from here, so the live writer's sequence is never taken.
+ */
+async function* followStored(
+  runId: string,
+  afterSeq: number,
+  signal?: AbortSignal
+): AsyncGenerator<RunEventRecord> {
+  let last = afterSeq;
+  while (!signal?.aborted) {
+    for (const e of await storedEvents(runId, last)) {
+      last = e.seq;
+      yield e;
+    }
+
+    const [row] = await db
+      .select({ status: runs.status, error: runs.error, heartbeatAt: runs.heartbeatAt })
+      .from(runs)
+      .where(eq(runs.id, runId))
+      .limit(1);
+    if (!row) return;
+
+    if (row.status !== "running") {
+      // Its writer may have flushed after the read above
+      for (const e of await storedEvents(runId, last)) {
+        last = e.seq;
+        yield e;
+      }
+      const ending = await missingEnding(runId, row);
+      if (ending && ending.seq > afterSeq) yield ending;
+      return;
+    }
+
+    if (Date.now() - (row.heartbeatAt?.getTime() ?? 0) > STALE_MS) {
+      await markInterrupted(runId);
+      continue;
+    }
+    await sleep(POLL_MS, signal);
+  }
+}
+
+async function storedEvents(runId: string, afterSeq: number): Promise<RunEventRecord[]> {
+  const rows = await db
+    .select({ seq: runEvents.seq, event: runEvents.event, dataJson: runEvents.dataJson })
+    .from(runEvents)
+    .where(and(eq(runEvents.runId, runId), gt(runEvents.seq, afterSeq)))
+    .orderBy(asc(runEvents.seq));
+  return rows.map((r) => ({
+    seq: r.seq,
+    event: r.event as RunEventRecord["event"],
+    data: parseJSON(r.dataJson),
+  }));
+}
+
+// Only a run whose heartbeat is still stale when the update lands; a writer
+// that comes back later overwrites this with its real ending
+async function markInterrupted(runId: string) {
+  const cutoff = new Date(Date.now() - STALE_MS);
+  await db
+    .update(runs)
+    .set({
+      status: "error",
+      error: "Run was interrupted (server restarted)",
+      finishedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(runs.id, runId),
+        eq(runs.status, "running"),
+        or(isNull(runs.heartbeatAt), lt(runs.heartbeatAt, cutoff))
+      )
+    )
+    .run();
+}
+
+/**
+ * A failed run whose log does not end in an error (its process died before
+ * writing one) ends with one made from the run row. It is not stored, so
+ * every client derives the same event and the seq stays free.
+ */
+async function missingEnding(
+  runId: string,
+  row: { status: RunStatus; error: string | null }
+): Promise<RunEventRecord | null> {
+  if (row.status !== "error" && row.status !== "cancelled") return null;
+  const [tail] = await db
+    .select({ seq: runEvents.seq, event: runEvents.event })
+    .from(runEvents)
+    .where(eq(runEvents.runId, runId))
+    .orderBy(desc(runEvents.seq))
+    .limit(1);
+  if (tail?.event === "error") return null;
+  return {
+    seq: (tail?.seq ?? 0) + 1,
+    event: "error",
+    data: { message: row.error ?? "Run failed" },
+  };
+}
+
+/* --------------------------------- Transport -------------------------------- */
+
+/**
+ * SSE response following a run from `afterSeq`. Each event's id is its seq,
+ * so a reconnect's Last-Event-ID resumes right after it. A leading `run`
+ * event (no id) tells the client which run it is attached to. Closing the
+ * response detaches; it never stops the run.
+ */
+export function runEventsResponse(
+  run: RunInfo,
+  afterSeq: number,
+  signal: AbortSignal
+): Response {
+  const sse = createSSEStream({ heartbeatMs: 20_000, signal });
+
+  const pipe = async () => {
+    sse.send({ runId: run.id, status: run.status }, { event: "run" });
+    try {
+      for await (const e of followRun(run.id, afterSeq, signal)) {
+        sse.send(e.data, { event: e.event, id: String(e.seq) });
+      }
+    } catch (err) {
+      logError(log, err, "run stream failed", { runId: run.id });
+    }
+    sse.close();
+  };
+
+  return sseResponse(sse.stream, pipe);
+}
+
+/* ---------------------------------- Utils ----------------------------------- */
+
+function isAbort(err: unknown) {
+  return (
+    (err instanceof DOMException && err.name === "AbortError") ||
+    (typeof err === "object" &&
+      err !== null &&
+      ((err as any).name === "AbortError" ||
+        String((err as any).message || "").toLowerCase().includes("abort")))
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+function parseJSON(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
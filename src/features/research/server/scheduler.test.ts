@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { env } from "@/lib/env";
+import { RateLimitError, Window } from "./scheduler";
+
+// Whether a promise has settled yet, without waiting for it
+function track<T>(p: Promise<T>) {
+  const state = { done: false, value: undefined as T | undefined, error: undefined as unknown };
+  p.then(
+    (v) => Object.assign(state, { done: true, value: v }),
+    (e) => Object.assign(state, { done: true, error: e })
+  );
+  return state;
+}
+
+// Let resolved promises run their callbacks
+const flush = () => new Promise<void>((r) => setImmediate(r));
+
+async function advance(ms: number) {
+  mock.timers.tick(ms);
+  await flush();
+}
+
+describe("Window", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+  });
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test("admits calls while their tokens fit and counts them as used", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    await w.acquire(400);
+    await w.acquire(500);
+    assert.equal(w.used(), 900);
+
+    const third = track(w.acquire(200));
+    await flush();
+    assert.equal(third.done, false);
+  });
+
+  test("frees tokens a minute after they were reserved", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    await w.acquire(800);
+    await advance(30_000);
+    await w.acquire(200);
+
+    const next = track(w.acquire(500));
+    await advance(29_000);
+    assert.equal(next.done, false);
+    await advance(1_000);
+    assert.equal(next.done, true);
+    assert.equal(w.used(), 700);
+  });
+
+  test("settling a reservation makes room right away", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    const entry = await w.acquire(900);
+    const next = track(w.acquire(500));
+    await flush();
+    assert.equal(next.done, false);
+
+    w.settle(entry, 300);
+    await flush();
+    assert.equal(next.done, true);
+    assert.equal(w.used(), 800);
+  });
+
+  test("serves waiters first in, first out", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    const entry = await w.acquire(1000);
+    const order: string[] = [];
+    const big = w.acquire(900).then(() => order.push("big"));
+    const small = w.acquire(50).then(() => order.push("small"));
+
+    w.settle(entry, 500);
+    await flush();
+    // The small call would fit now, but not ahead of the big one
+    assert.deepEqual(order, []);
+
+    await advance(60_000);
+    await Promise.all([big, small]);
+    assert.deepEqual(order, ["big", "small"]);
+  });
+
+  test("limits requests per minute", async () => {
+    const w = new Window({ tpm: 10_000, rpm: 2 });
+    await w.acquire(10);
+    await w.acquire(10);
+    const third = track(w.acquire(10));
+    await advance(59_000);
+    assert.equal(third.done, false);
+    await advance(1_000);
+    assert.equal(third.done, true);
+  });
+
+  test("lets a call larger than the window go alone", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    await w.acquire(5000);
+    assert.equal(w.used(), 5000);
+  });
+
+  test("holds every call while paused", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    w.pause(10_000);
+    const call = track(w.acquire(10));
+    await advance(9_000);
+    assert.equal(call.done, false);
+    await advance(1_000);
+    assert.equal(call.done, true);
+  });
+
+  test("drops a waiter whose signal aborts", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    await w.acquire(1000);
+    const ctrl = new AbortController();
+    const aborted = track(w.acquire(500, ctrl.signal));
+    const after = track(w.acquire(500));
+
+    ctrl.abort(new Error("stop"));
+    await flush();
+    assert.equal(aborted.done, true);
+    assert.equal((aborted.error as Error).message, "stop");
+
+    await advance(60_000);
+    assert.equal(after.done, true);
+    assert.equal(w.used(), 500);
+  });
+
+  test("fails with a RateLimitError after waiting too long", async () => {
+    const w = new Window({ tpm: 1000, rpm: 10 });
+    w.pause(10 * env.LLM_QUEUE_MAX_WAIT_MS);
+    const call = track(w.acquire(10));
+    await advance(env.LLM_QUEUE_MAX_WAIT_MS);
+    assert.ok(call.error instanceof RateLimitError);
+    assert.ok(call.error.retryAfterMs > 0);
+  });
+});
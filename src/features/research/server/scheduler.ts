@@ -0,0 +1,421 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { APICallError, RetryError, type LanguageModelMiddleware } from "ai";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { estimateTokens } from "@/lib/text";
+import type { ModelAlias } from "./groq";
+
+/**
+ * Shared rate-limit scheduler for LLM calls. Every model in groq.ts goes
+ * through rateLimitMiddleware(), which reserves the call's estimated tokens
+ * in a per-minute window before it is sent and queues it (FIFO) while the
+ * window is full. Limits are configured per alias; aliases backed by the
+ * same provider model share one window, since the provider counts them
+ * together. 429s pause the window until the provider's reset and are
+ * retried here, and the rate-limit headers of successful calls keep the
+ * limits honest.
+ *
+ * Callers size their prompts with tokenBudget(alias) instead of fixed caps.
+ */
+
+export type RateLimit = { tpm: number; rpm: number };
+
+export type TokenBudget = RateLimit & {
+  perCall: number; // input + output tokens one call may use
+  available: number; // tokens left in the current window
+  scale: number; // tpm relative to the alias's default; budgets tuned for the default grow with it
+};
+
+export class RateLimitError extends Error {
+  retryAfterMs: number;
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Groq on_demand limits for the models behind each alias
+const DEFAULT_LIMITS: Record<ModelAlias, RateLimit> = {
+  plan: { tpm: 6000, rpm: 30 },
+  answer: { tpm: 12000, rpm: 30 },
+  verify: { tpm: 6000, rpm: 30 },
+  reasoning: { tpm: 6000, rpm: 30 },
+};
+
+const WINDOW_MS = 60_000;
+// One call may take this share of a window; the rest absorbs estimate error
+const PER_CALL_SHARE = 0.8;
+// Below this share of the window left (per the provider), wait for its reset
+const LOW_REMAINING_SHARE = 0.1;
+const DEFAULT_PAUSE_MS = 10_000;
+const DEFAULT_OUTPUT_TOKENS = 1000;
+// 429s retried per call before giving up
+const MAX_RETRIES = 2;
+
+const log = logger.child({ mod: "scheduler" });
+
+/* --------------------------------- Window ---------------------------------- */
+
+type Entry = { at: number; tokens: number };
+
+// A reservation: the entry in the window and what it was sized from
+type Lease = { entry: Entry; tokens: number; promptTokens: number };
+
+type Waiter = {
+  tokens: number;
+  resolve: (entry: Entry) => void;
+  reject: (err: unknown) => void;
+  cleanup: () => void;
+};
+
+export class Window {
+  limit: RateLimit;
+  pausedUntil = 0;
+  private entries: Entry[] = [];
+  private waiters: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+  }
+
+  used(now = Date.now()): number {
+    this.prune(now);
+    return this.entries.reduce((sum, e) => sum + e.tokens, 0);
+  }
+
+  acquire(tokens: number, signal?: AbortSignal): Promise<Entry> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise<Entry>((resolve, reject) => {
+      const onAbort = () => {
+        this.drop(waiter);
+        reject(signal?.reason);
+      };
+      const deadline = setTimeout(() => {
+        this.drop(waiter);
+        reject(
+          new RateLimitError(
+            "Rate limit: waited too long for model quota",
+            Math.max(0, this.nextOpening(Date.now()) - Date.now())
+          )
+        );
+      }, env.LLM_QUEUE_MAX_WAIT_MS);
+      const waiter: Waiter = {
+        tokens,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(deadline);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.pump();
+    });
+  }
+
+  // Replace a reservation with what the call actually used
+  settle(entry: Entry, tokens: number) {
+    entry.tokens = Math.max(0, Math.round(tokens));
+    this.pump();
+  }
+
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  // Strict FIFO: a large call at the head is not starved by small ones
+  private pump() {
+    const now = Date.now();
+    while (this.waiters.length > 0 && this.fits(this.waiters[0].tokens, now)) {
+      const waiter = this.waiters.shift()!;
+      waiter.cleanup();
+      const entry = { at: now, tokens: waiter.tokens };
+      this.entries.push(entry);
+      waiter.resolve(entry);
+    }
+    this.schedule(now);
+  }
+
+  private fits(tokens: number, now: number): boolean {
+    if (now < this.pausedUntil) return false;
+    this.prune(now);
+    if (this.entries.length >= this.limit.rpm) return false;
+    // A call larger than the whole window goes alone rather than never
+    return (
+      this.entries.length === 0 ||
+      this.used(now) + Math.min(tokens, this.limit.tpm) <= this.limit.tpm
+    );
+  }
+
+  private schedule(now: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.waiters.length === 0) return;
+    const delay = Math.max(50, this.nextOpening(now) - now);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  // When the head waiter could next fit: the pause ends or an entry expires
+  private nextOpening(now: number): number {
+    if (now < this.pausedUntil) return this.pausedUntil;
+    return this.entries.length > 0 ? this.entries[0].at + WINDOW_MS : now;
+  }
+
+  private prune(now: number) {
+    while (this.entries.length > 0 && this.entries[0].at + WINDOW_MS <= now) {
+      this.entries.shift();
+    }
+  }
+
+  private drop(waiter: Waiter) {
+    waiter.cleanup();
+    const i = this.waiters.indexOf(waiter);
+    if (i >= 0) this.waiters.splice(i, 1);
+    this.pump();
+  }
+}
+
+// One set of windows per process, shared by every run
+type Registry = { windows: Map<string, Window>; models: Map<ModelAlias, string> };
+declare global {
+  var __LLM_SCHEDULER__: Registry | undefined;
+}
+const registry: Registry =
+  globalThis.__LLM_SCHEDULER__ ??
+  (globalThis.__LLM_SCHEDULER__ = { windows: new Map(), models: new Map() });
+
+function windowFor(alias: ModelAlias, modelId: string): Window {
+  registry.models.set(alias, modelId);
+  const limit = configuredLimits()[alias];
+  const existing = registry.windows.get(modelId);
+  if (existing) {
+    // Aliases sharing a model get the stricter of their limits
+    existing.limit = {
+      tpm: Math.min(existing.limit.tpm, limit.tpm),
+      rpm: Math.min(existing.limit.rpm, limit.rpm),
+    };
+    return existing;
+  }
+  const created = new Window(limit);
+  registry.windows.set(modelId, created);
+  return created;
+}
+
+/* --------------------------------- Budget ---------------------------------- */
+
+/**
+ * What one call to `alias` may spend, and what is left in its window right
+ * now. Before the alias's model is registered this is the configured limit.
+ */
+export function tokenBudget(alias: ModelAlias): TokenBudget {
+  const modelId = registry.models.get(alias);
+  const w = modelId ? registry.windows.get(modelId) : undefined;
+  const limit = w?.limit ?? configuredLimits()[alias];
+  return {
+    ...limit,
+    perCall: Math.floor(limit.tpm * PER_CALL_SHARE),
+    available: Math.max(0, limit.tpm - (w?.used() ?? 0)),
+    scale: limit.tpm / DEFAULT_LIMITS[alias].tpm,
+  };
+}
+
+// Whether an error (possibly after the SDK's retries) means "over quota"
+export function isRateLimitError(err: unknown): boolean {
+  if (err instanceof RateLimitError) return true;
+  if (RetryError.isInstance(err)) return isRateLimitError(err.lastError);
+  if (APICallError.isInstance(err) && (err.statusCode === 429 || err.statusCode === 413)) {
+    return true;
+  }
+  const msg = String((err as any)?.message ?? "").toLowerCase();
+  return (
+    msg.includes("tokens per minute") ||
+    msg.includes("rate limit") ||
+    msg.includes("tpm") ||
+    msg.includes("request too large")
+  );
+}
+
+/* ------------------------------- Middleware -------------------------------- */
+
+/**
+ * Queue each call of `alias` (backed by `modelId`) for its window. On a 429
+ * the window pauses and the call goes again once it has quota; only the
+ * opening request is retried, so nothing already streamed is repeated.
+ * After MAX_RETRIES the 429 surfaces as a RateLimitError, which the SDK
+ * does not retry on top.
+ */
+export function rateLimitMiddleware(
+  alias: ModelAlias,
+  modelId: string
+): LanguageModelMiddleware {
+  const window = windowFor(alias, modelId);
+
+  const reserve = async (params: any): Promise<Lease> => {
+    const promptTokens = estimatePromptTokens(params);
+    const tokens = promptTokens + (params.maxOutputTokens ?? DEFAULT_OUTPUT_TOKENS);
+    const queuedAt = Date.now();
+    const entry = await window.acquire(tokens, params.abortSignal);
+    const waitedMs = Date.now() - queuedAt;
+    if (waitedMs > 250) {
+      log.debug({ alias, model: modelId, tokens, waitedMs }, "LLM call queued for quota");
+    }
+    return { entry, tokens, promptTokens };
+  };
+
+  const send = async <T>(
+    params: any,
+    call: () => PromiseLike<T>
+  ): Promise<{ res: T; lease: Lease }> => {
+    for (let attempt = 0; ; attempt++) {
+      const lease = await reserve(params);
+      try {
+        return { res: await call(), lease };
+      } catch (e) {
+        const limited = APICallError.isInstance(e) && e.statusCode === 429;
+        // A 429 spent nothing; anything else (aborts included) may have
+        // spent the prompt
+        window.settle(lease.entry, limited ? 0 : lease.promptTokens);
+        if (!limited) throw e;
+        const pauseMs = retryAfterMs(e.responseHeaders) ?? DEFAULT_PAUSE_MS;
+        window.pause(pauseMs);
+        if (attempt >= MAX_RETRIES) {
+          throw new RateLimitError(`Rate limit: ${e.message}`, pauseMs);
+        }
+        log.warn({ alias, model: modelId, pauseMs, attempt }, "LLM rate limited; pausing");
+      }
+    }
+  };
+
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const { res, lease } = await send(params, doGenerate);
+      window.settle(lease.entry, usedTokens(res.usage, lease.tokens));
+      learn(window, res.response?.headers);
+      return res;
+    },
+    wrapStream: async ({ doStream, params }) => {
+      const { res, lease } = await send(params, doStream);
+      learn(window, res.response?.headers);
+
+      // Settled exactly once, however the stream ends: with the reported
+      // usage on finish, with the prompt alone on errors and aborts
+      let settled = false;
+      const signal: AbortSignal | undefined = params.abortSignal;
+      const onAbort = () => settle(lease.promptTokens);
+      const settle = (tokens: number) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        window.settle(lease.entry, tokens);
+      };
+      // The SDK can stop reading without cancelling the source stream
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const reader = res.stream.getReader();
+      const stream = new ReadableStream<any>({
+        async pull(controller) {
+          try {
+            const { value, done } = await reader.read();
+            if (done) {
+              settle(lease.tokens);
+              controller.close();
+              return;
+            }
+            if (value?.type === "finish") {
+              settle(usedTokens(value.usage, lease.tokens));
+            }
+            controller.enqueue(value);
+          } catch (e) {
+            settle(lease.promptTokens);
+            controller.error(e);
+          }
+        },
+        cancel(reason) {
+          settle(lease.promptTokens);
+          return reader.cancel(reason);
+        },
+      });
+      return { ...res, stream };
+    },
+  };
+}
+
+/* --------------------------------- Headers --------------------------------- */
+
+// Groq (OpenAI-style) headers: the token limit is per minute; the request
+// limit is per day, so only the token ones say anything about this window.
+function learn(window: Window, headers?: Record<string, string | undefined>) {
+  if (!headers) return;
+  const limit = Number(headers["x-ratelimit-limit-tokens"]);
+  if (Number.isFinite(limit) && limit > 0) {
+    window.limit = { ...window.limit, tpm: limit };
+  }
+  const remaining = Number(headers["x-ratelimit-remaining-tokens"]);
+  if (
+    Number.isFinite(remaining) &&
+    remaining < window.limit.tpm * LOW_REMAINING_SHARE
+  ) {
+    // Someone else (another process on the same key) is spending it too
+    const reset = parseDuration(headers["x-ratelimit-reset-tokens"]);
+    if (reset !== null) window.pause(reset);
+  }
+}
+
+function retryAfterMs(headers?: Record<string, string>): number | null {
+  if (!headers) return null;
+  const retryAfter = Number(headers["retry-after"]);
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) return retryAfter * 1000;
+  return parseDuration(headers["x-ratelimit-reset-tokens"]);
+}
+
+// "2m59.56s", "7.66s", "120ms" -> milliseconds
+export function parseDuration(s?: string | null): number | null {
+  if (!s) return null;
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  for (const m of s.trim().matchAll(re)) {
+    matched = true;
+    const n = Number(m[1]);
+    total += m[2] === "h" ? n * 3_600_000 : m[2] === "m" ? n * 60_000 : m[2] === "s" ? n * 1000 : n;
+  }
+  return matched ? Math.ceil(total) : null;
+}
+
+/* ---------------------------------- Utils ---------------------------------- */
+
+// The prompt as sent, tool definitions included
+function estimatePromptTokens(params: any): number {
+  const prompt = estimateTokens(JSON.stringify(params.prompt ?? []));
+  const tools = params.tools?.length ? estimateTokens(JSON.stringify(params.tools)) : 0;
+  return prompt + tools;
+}
+
+function usedTokens(usage: any, fallback: number): number {
+  const total =
+    usage?.totalTokens ?? (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+  return total > 0 ? total : fallback;
+}
+
+// LLM_RATE_LIMITS overrides: 'alias=tpm/rpm' or 'alias=tpm', comma separated
+function configuredLimits(): Record<ModelAlias, RateLimit> {
+  const out = { ...DEFAULT_LIMITS };
+  for (const part of (env.LLM_RATE_LIMITS ?? "").split(",")) {
+    const m = part.trim().match(/^(\w+)\s*=\s*(\d+)(?:\s*\/\s*(\d+))?$/);
+    if (!m || !(m[1] in out)) continue;
+    const alias = m[1] as ModelAlias;
+    out[alias] = {
+      tpm: Math.max(1, Number(m[2])),
+      rpm: m[3] ? Math.max(1, Number(m[3])) : out[alias].rpm,
+    };
+  }
+  return out;
+}
@@ -0,0 +1,74 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { env } from "@/lib/env";
+import type { SearchProvider, SearchResult } from "./types";
+import {
+  canonicalizeUrl,
+  fetchJson,
+  normalizeTimeRange,
+  str,
+  timeRangeDays,
+} from "./utils";
+
+const BRAVE_ENDPOINT = "https://api.search.brave.com/res/v1/web/search";
+
+export const braveProvider: SearchProvider = {
+  name: "brave",
+
+  isConfigured: () => !!env.BRAVE_API_KEY,
+
+  async search(query, opts) {
+    if (!env.BRAVE_API_KEY) return [];
+
+    const count = Math.max(1, Math.min(20, opts.broaden ? opts.size + 4 : opts.size));
+    const u = new URL(BRAVE_ENDPOINT);
+    u.searchParams.set("q", query);
+    u.searchParams.set("count", String(count));
+    const freshness = toBraveFreshness(opts.timeRange);
+    if (freshness) u.searchParams.set("freshness", freshness);
+    if (opts.region && /^[a-z]{2}$/i.test(opts.region)) {
+      u.searchParams.set("country", opts.region.toUpperCase());
+    }
+
+    const data: any = await fetchJson(u.toString(), {
+      headers: {
+        Accept: "application/json",
+        "X-Subscription-Token": env.BRAVE_API_KEY,
+      },
+      timeoutMs: opts.timeoutMs,
+      abortSignal: opts.abortSignal,
+    });
+
+    const rows: any[] = Array.isArray(data?.web?.results) ? data.web.results : [];
+    return rows
+      .map((it: any): SearchResult | null => {
+        const canon = str(it?.url) ? canonicalizeUrl(it.url) : null;
+        if (!canon) return null;
+        return {
+          url: canon,
+          title: str(it?.title),
+          snippet: str(it?.description),
+          publishedAt: str(it?.page_age) ?? null,
+          source: "brave",
+        };
+      })
+      .filter((x): x is SearchResult => x !== null)
+      .slice(0, count);
+  },
+};
+
+// pd/pw/pm/py or an explicit YYYY-MM-DDtoYYYY-MM-DD range
+function toBraveFreshness(tr?: { from?: string; to?: string }): string | undefined {
+  const days = timeRangeDays(tr);
+  if (days === undefined) return undefined;
+  const norm = normalizeTimeRange(tr);
+  if (!norm?.to) {
+    if (days <= 1) return "pd";
+    if (days <= 7) return "pw";
+    if (days <= 31) return "pm";
+    if (days <= 365) return "py";
+  }
+  const from = norm?.from ?? "1970-01-01";
+  const to = norm?.to ?? new Date().toISOString().slice(0, 10);
+  return `${from}to${to}`;
+}
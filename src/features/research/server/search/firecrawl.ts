@@ -0,0 +1,91 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import Firecrawl from "@mendable/firecrawl-js";
+import type { SearchProvider, SearchResult } from "./types";
+import { canonicalizeUrl, normalizeTimeRange, timeRangeDays } from "./utils";
+
+let firecrawlClient: Firecrawl | null = null;
+function getFirecrawl(): Firecrawl | null {
+  if (firecrawlClient) return firecrawlClient;
+  const apiKey = process.env.FIRECRAWL_API_KEY || "";
+  if (!apiKey) return null;
+  firecrawlClient = new Firecrawl({ apiKey });
+  return firecrawlClient;
+}
+
+export const firecrawlProvider: SearchProvider = {
+  name: "firecrawl",
+
+  isConfigured: () => !!process.env.FIRECRAWL_API_KEY,
+
+  async search(query, opts) {
+    const client = getFirecrawl();
+    if (!client) return [];
+
+    // Compute limit
+    const topK = Math.max(1, Math.min(20, opts.size));
+
+    // Optional country/location
+    const location = process.env.FIRECRAWL_COUNTRY;
+
+    // Time window → tbs
+    const tbs = toFirecrawlTbs(opts.timeRange);
+
+    const resp: any = await client.search(query, {
+      limit: topK,
+      ...(location ? { location } : {}),
+      ...(tbs ? { tbs } : {}),
+      // We are NOT scraping content here to keep it cheap and fast
+      // scrapeOptions: { formats: ['markdown'] }
+      timeout: Math.max(1, Math.floor(opts.timeoutMs)), // ms
+    });
+
+    // SDK returns a data object. Gather URLs from web/news arrays if present.
+    const data = resp?.data ?? resp ?? {};
+    const web: any[] = Array.isArray(data.web) ? data.web : [];
+    const news: any[] = Array.isArray(data.news) ? data.news : [];
+    // Sometimes SDK returns an array directly when scraping content; guard:
+    const flat: any[] = Array.isArray(data) ? data : [];
+
+    const rows = [...web, ...news, ...flat].slice(0, topK);
+
+    return rows
+      .map((it: any) => {
+        const url = typeof it?.url === "string" ? it.url : undefined;
+        if (!url) return null;
+        const canon = canonicalizeUrl(url);
+        if (!canon) return null;
+        const title = typeof it?.title === "string" ? it.title : undefined;
+        const snippet =
+          typeof it?.description === "string"
+            ? it.description
+            : typeof it?.snippet === "string"
+            ? it.snippet
+            : undefined;
+        return { url: canon, title, snippet, source: "firecrawl" } as SearchResult;
+      })
+      .filter(Boolean) as SearchResult[];
+  },
+};
+
+// Firecrawl tbs (time-based search): qdr:h/d/w/m/y or custom ranges
+function toFirecrawlTbs(tr?: { from?: string; to?: string }): string | undefined {
+  const days = timeRangeDays(tr);
+  if (days === undefined) return undefined;
+  if (days <= 1) return "qdr:d";
+  if (days <= 7) return "qdr:w";
+  if (days <= 31) return "qdr:m";
+  if (days <= 365) return "qdr:y";
+  // Custom date range (US format per docs)
+  const norm = normalizeTimeRange(tr);
+  const cdMin = norm?.from ? toUsDate(new Date(norm.from)) : undefined;
+  const cdMax = toUsDate(norm?.to ? new Date(norm.to) : new Date());
+  return `cdr:1${cdMin ? `,cd_min:${cdMin}` : ""},cd_max:${cdMax}`;
+}
+
+function toUsDate(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(1, "0");
+  const dd = String(d.getDate()).padStart(1, "0");
+  const yyyy = d.getFullYear();
+  return `${mm}/${dd}/${yyyy}`;
+}
@@ -0,0 +1,97 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import type { SearchProvider, SearchResult } from "./types";
+import { canonicalizeUrl, fetchJson, str } from "./utils";
+
+/**
+ * Generic JSON endpoint. SEARCH_HTTP_URL may contain {query} and {size};
+ * POST sends { query, size, timeRange, region } as the body. Results are read
+ * from SEARCH_HTTP_RESULTS_PATH and common field names are recognised.
+ */
+export const httpProvider: SearchProvider = {
+  name: "http",
+
+  isConfigured: () => !!env.SEARCH_HTTP_URL,
+
+  async search(query, opts) {
+    if (!env.SEARCH_HTTP_URL) return [];
+
+    const size = Math.max(1, Math.min(50, opts.broaden ? opts.size + 4 : opts.size));
+    const url = env.SEARCH_HTTP_URL.replace(
+      /\{query\}/g,
+      encodeURIComponent(query)
+    ).replace(/\{size\}/g, String(size));
+    const isPost = env.SEARCH_HTTP_METHOD === "POST";
+
+    const data = await fetchJson(url, {
+      method: env.SEARCH_HTTP_METHOD,
+      headers: {
+        Accept: "application/json",
+        ...(isPost ? { "Content-Type": "application/json" } : {}),
+        ...parseHeaders(env.SEARCH_HTTP_HEADERS),
+      },
+      ...(isPost
+        ? {
+            body: JSON.stringify({
+              query,
+              size,
+              timeRange: opts.timeRange,
+              region: opts.region,
+            }),
+          }
+        : {}),
+      timeoutMs: opts.timeoutMs,
+      abortSignal: opts.abortSignal,
+    });
+
+    const rows = getPath(data, env.SEARCH_HTTP_RESULTS_PATH);
+    if (!Array.isArray(rows)) return [];
+
+    return rows
+      .map((it: any): SearchResult | null => {
+        const raw = str(it?.url) ?? str(it?.link) ?? str(it?.href);
+        const canon = raw ? canonicalizeUrl(raw) : null;
+        if (!canon) return null;
+        return {
+          url: canon,
+          title: str(it?.title) ?? str(it?.name),
+          snippet: str(it?.snippet) ?? str(it?.content) ?? str(it?.description),
+          score: typeof it?.score === "number" ? it.score : undefined,
+          publishedAt:
+            str(it?.publishedAt) ??
+            str(it?.published_date) ??
+            str(it?.date) ??
+            null,
+          source: "http",
+        };
+      })
+      .filter((x): x is SearchResult => x !== null)
+      .slice(0, size);
+  },
+};
+
+function parseHeaders(raw?: string): Record<string, string> {
+  if (!raw) return {};
+  try {
+    const obj = JSON.parse(raw);
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(obj ?? {})) {
+      if (typeof v === "string") out[k] = v;
+    }
+    return out;
+  } catch {
+    logger.child({ mod: "search" }).warn("SEARCH_HTTP_HEADERS is not valid JSON; ignoring");
+    return {};
+  }
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  let cur: any = obj;
+  for (const key of path.split(".").filter(Boolean)) {
+    if (cur == null) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
@@ -0,0 +1,57 @@
+import "server-only";
+import { inArray } from "drizzle-orm";
+import { db } from "@/db";
+import { sources as sourcesTable } from "@/db/schema";
+import { rankForQueries } from "../rank";
+import type { SearchProvider, SearchResult } from "./types";
+
+/**
+ * Already-ingested corpus: BM25 over chunks_fts, one result per source.
+ * Always configured; results point at stored sources so reading them is
+ * cheap (and works offline).
+ */
+export const localProvider: SearchProvider = {
+  name: "local",
+
+  isConfigured: () => true,
+
+  async search(query, opts) {
+    const cap = Math.max(1, Math.min(50, opts.broaden ? opts.size + 4 : opts.size));
+    const hits = await rankForQueries([query], {
+      cap,
+      perQueryTake: cap * 4,
+      diversifyBySource: true,
+      perSourceLimit: 1,
+      enableRerank: false,
+      timeoutMs: opts.timeoutMs,
+    });
+    if (hits.length === 0) return [];
+
+    const ids = Array.from(new Set(hits.map((h) => h.sourceId)));
+    const rows = await db
+      .select({
+        id: sourcesTable.id,
+        url: sourcesTable.url,
+        title: sourcesTable.title,
+        publishedAt: sourcesTable.publishedAt,
+      })
+      .from(sourcesTable)
+      .where(inArray(sourcesTable.id, ids));
+    const byId = new Map(rows.map((r) => [r.id, r]));
+
+    const out: SearchResult[] = [];
+    for (const h of hits) {
+      const s = byId.get(h.sourceId);
+      if (!s) continue;
+      out.push({
+        url: s.url,
+        title: s.title ?? undefined,
+        snippet: h.text.length > 300 ? `${h.text.slice(0, 300)}…` : h.text,
+        score: h.score,
+        publishedAt: s.publishedAt ?? null,
+        source: "local",
+      });
+    }
+    return out;
+  },
+};
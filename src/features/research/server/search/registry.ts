@@ -0,0 +1,81 @@
+import "server-only";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import type { SearchProvider } from "./types";
+import { tavilyProvider } from "./tavily";
+import { firecrawlProvider } from "./firecrawl";
+import { searxngProvider } from "./searxng";
+import { braveProvider } from "./brave";
+import { httpProvider } from "./http";
+import { localProvider } from "./local";
+
+const providers = new Map<string, SearchProvider>();
+
+export function registerSearchProvider(p: SearchProvider) {
+  providers.set(p.name.toLowerCase(), p);
+}
+
+export function getSearchProvider(name: string): SearchProvider | undefined {
+  return providers.get(name.trim().toLowerCase());
+}
+
+export function listSearchProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+for (const p of [
+  tavilyProvider,
+  firecrawlProvider,
+  searxngProvider,
+  braveProvider,
+  httpProvider,
+  localProvider,
+]) {
+  registerSearchProvider(p);
+}
+
+/* ---------------------------------- Chain ---------------------------------- */
+
+export type ProviderChainEntry = { provider: SearchProvider; weight: number };
+
+/**
+ * Providers from SEARCH_PROVIDERS (in order) that are registered and
+ * configured, each with its SEARCH_PROVIDER_WEIGHTS weight (default 1).
+ */
+export function resolveProviderChain(
+  names: string = env.SEARCH_PROVIDERS,
+  weightsSpec: string | undefined = env.SEARCH_PROVIDER_WEIGHTS
+): ProviderChainEntry[] {
+  const log = logger.child({ mod: "search" });
+  const weights = parseWeights(weightsSpec);
+  const chain: ProviderChainEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of names.split(",")) {
+    const name = raw.trim().toLowerCase();
+    if (!name || seen.has(name)) continue;
+    seen.add(name);
+    const provider = providers.get(name);
+    if (!provider) {
+      log.warn({ provider: name }, "Unknown search provider in SEARCH_PROVIDERS");
+      continue;
+    }
+    if (!provider.isConfigured()) continue;
+    const weight = weights.get(name) ?? 1;
+    if (weight <= 0) continue;
+    chain.push({ provider, weight });
+  }
+  return chain;
+}
+
+// 'tavily:1,brave:0.5' -> Map; malformed entries are ignored
+function parseWeights(spec?: string): Map<string, number> {
+  const out = new Map<string, number>();
+  if (!spec) return out;
+  for (const part of spec.split(",")) {
+    const [k, v] = part.split(":").map((x) => x.trim());
+    const n = Number(v);
+    if (k && Number.isFinite(n)) out.set(k.toLowerCase(), n);
+  }
+  return out;
+}
@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { env } from "@/lib/env";
+import type { SearchProvider, SearchResult } from "./types";
+import { canonicalizeUrl, fetchJson, str, timeRangeDays } from "./utils";
+
+/**
+ * Self-hosted SearXNG (JSON output must be enabled in its settings.yml).
+ */
+export const searxngProvider: SearchProvider = {
+  name: "searxng",
+
+  isConfigured: () => !!env.SEARXNG_URL,
+
+  async search(query, opts) {
+    if (!env.SEARXNG_URL) return [];
+
+    const u = new URL("/search", env.SEARXNG_URL);
+    u.searchParams.set("q", query);
+    u.searchParams.set("format", "json");
+    u.searchParams.set("safesearch", "1");
+    const timeRange = toSearxTimeRange(opts.timeRange);
+    if (timeRange) u.searchParams.set("time_range", timeRange);
+    if (opts.region) u.searchParams.set("language", opts.region);
+
+    const data: any = await fetchJson(u.toString(), {
+      headers: { Accept: "application/json" },
+      timeoutMs: opts.timeoutMs,
+      abortSignal: opts.abortSignal,
+    });
+
+    const rows: any[] = Array.isArray(data?.results) ? data.results : [];
+    const topK = Math.max(1, Math.min(50, opts.broaden ? opts.size + 4 : opts.size));
+    return rows
+      .map((it: any): SearchResult | null => {
+        const canon = str(it?.url) ? canonicalizeUrl(it.url) : null;
+        if (!canon) return null;
+        return {
+          url: canon,
+          title: str(it?.title),
+          snippet: str(it?.content),
+          score: typeof it?.score === "number" ? it.score : undefined,
+          publishedAt: str(it?.publishedDate) ?? null,
+          source: "searxng",
+        };
+      })
+      .filter((x): x is SearchResult => x !== null)
+      .slice(0, topK);
+  },
+};
+
+function toSearxTimeRange(
+  tr?: { from?: string; to?: string }
+): "day" | "month" | "year" | undefined {
+  const days = timeRangeDays(tr);
+  if (days === undefined) return undefined;
+  if (days <= 1) return "day";
+  if (days <= 31) return "month";
+  return "year";
+}
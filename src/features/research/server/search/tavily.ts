@@ -0,0 +1,135 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { tavily } from "@tavily/core";
+import type { SearchProvider, SearchResult } from "./types";
+import { canonicalizeUrl, timeRangeDays, toISODate } from "./utils";
+
+type TavilySearchDepth = "basic" | "advanced";
+type TavilyTopic = "general" | "news" | "finance";
+
+let tvlyClient: ReturnType<typeof tavily> | null = null;
+function getTavily() {
+  if (tvlyClient) return tvlyClient;
+  const apiKey = process.env.TAVILY_API_KEY || "";
+  if (!apiKey) return null;
+  tvlyClient = tavily({ apiKey });
+  return tvlyClient;
+}
+
+export const tavilyProvider: SearchProvider = {
+  name: "tavily",
+
+  isConfigured: () => !!process.env.TAVILY_API_KEY,
+
+  async search(query, opts) {
+    const client = getTavily();
+    if (!client) return [];
+
+    const baseTopK = Math.max(1, Math.min(50, opts.size));
+    const max_results = opts.broaden
+      ? Math.max(8, Math.min(20, baseTopK + 4))
+      : baseTopK;
+
+    // Depth & topic
+    const search_depth =
+      ((process.env.TAVILY_SEARCH_DEPTH as TavilySearchDepth) || "advanced") as TavilySearchDepth;
+
+    // Don’t force 'news' automatically; leave to env override
+    const topic = ((process.env.TAVILY_TOPIC as TavilyTopic) || "general") as TavilyTopic;
+
+    // Optional country boost (exact string name per docs); avoid mapping region automatically
+    const country = process.env.TAVILY_COUNTRY || undefined;
+
+    // Time constraints: prefer exact start/end; else coarse time_range
+    const start_date = toISODate(opts.timeRange?.from);
+    const end_date = toISODate(opts.timeRange?.to);
+    const time_range = !start_date && !end_date ? toTavilyTimeRange(opts.timeRange) : undefined;
+
+    // Domains (relaxed when broadening)
+    const include_domains =
+      opts.broaden ? undefined : (opts.allowedDomains?.length ? opts.allowedDomains : undefined);
+    const exclude_domains =
+      opts.broaden
+        ? undefined
+        : (opts.disallowedDomains?.length ? opts.disallowedDomains : undefined);
+
+    // Optional: auto_parameters (costs more credits)
+    const auto_params = ["1", "true", "yes"].includes(
+      String(process.env.TAVILY_AUTO_PARAMETERS || "").toLowerCase()
+    );
+
+    const resp = await client.search(
+      {
+        query,
+        max_results,
+        search_depth,
+        topic,
+        include_answer: false,
+        include_raw_content: false,
+        include_images: false,
+        include_favicon: false,
+        ...(auto_params ? { auto_parameters: true } : {}),
+        ...(include_domains ? { include_domains } : {}),
+        ...(exclude_domains ? { exclude_domains } : {}),
+        ...(time_range ? { time_range } : {}),
+        ...(start_date ? { start_date } : {}),
+        ...(end_date ? { end_date } : {}),
+        ...(country ? { country } : {}),
+      } as any,
+      {
+        timeoutInSeconds: Math.max(1, Math.floor(opts.timeoutMs / 1000)),
+        abortSignal: opts.abortSignal,
+      }
+    );
+
+    const results = Array.isArray((resp as any)?.results) ? (resp as any).results : [];
+    return results
+      .map((it: any) => {
+        const url = typeof it?.url === "string" ? it.url : undefined;
+        if (!url) return null;
+        const canon = canonicalizeUrl(url);
+        if (!canon) return null;
+        const title =
+          typeof it?.title === "string"
+            ? it.title
+            : typeof it?.name === "string"
+            ? it.name
+            : undefined;
+        const snippet =
+          typeof it?.content === "string"
+            ? it.content
+            : typeof it?.description === "string"
+            ? it.description
+            : undefined;
+        const published =
+          typeof it?.published_date === "string"
+            ? it.published_date
+            : typeof it?.published_time === "string"
+            ? it.published_time
+            : typeof it?.date === "string"
+            ? it.date
+            : null;
+
+        return {
+          url: canon,
+          title,
+          snippet,
+          score: typeof it?.score === "number" ? it.score : undefined,
+          publishedAt: published,
+          source: "tavily",
+        } satisfies SearchResult;
+      })
+      .filter(Boolean) as SearchResult[];
+  },
+};
+
+// Tavily coarse time_range mapper
+function toTavilyTimeRange(
+  tr?: { from?: string; to?: string }
+): "day" | "week" | "month" | "year" | undefined {
+  const days = timeRangeDays(tr);
+  if (days === undefined) return undefined;
+  if (days <= 7) return "week";
+  if (days <= 31) return "month";
+  return "year";
+}
@@ -0,0 +1,32 @@
+export type SearchResult = {
+  url: string;
+  title?: string;
+  snippet?: string;
+  score?: number;
+  publishedAt?: string | null;
+  source?: string; // name of the provider that returned it
+};
+
+export type ProviderSearchOptions = {
+  size: number;
+  timeRange?: { from?: string; to?: string };
+  allowedDomains?: string[];
+  disallowedDomains?: string[];
+  region?: string;
+  abortSignal?: AbortSignal;
+  timeoutMs: number;
+  // Broadened pass: wider result set, domain filters relaxed
+  broaden?: boolean;
+};
+
+/**
+ * A web (or corpus) search backend. Providers map their native response to
+ * SearchResult with canonical URLs and `source` set to their own name; domain
+ * post-filtering and cross-provider dedupe happen in deepsearch().
+ */
+export interface SearchProvider {
+  readonly name: string;
+  // False when credentials/endpoints are missing; such providers are skipped
+  isConfigured(): boolean;
+  search(query: string, opts: ProviderSearchOptions): Promise<SearchResult[]>;
+}
@@ -0,0 +1,163 @@
+import type { SearchResult } from "./types";
+
+/* ------------------------------- Filtering --------------------------------- */
+
+export function postFilter(
+  items: SearchResult[],
+  opts: { allowed?: string[]; disallowed?: string[] }
+): SearchResult[] {
+  return items.filter((r) => isAllowedUrl(r.url, opts));
+}
+
+// Whether the URL's host is on the allow-list (if any) and off the deny-list
+export function isAllowedUrl(
+  url: string,
+  opts: { allowed?: string[]; disallowed?: string[] }
+): boolean {
+  const allowed = normDomains(opts.allowed ?? []);
+  const disallowed = normDomains(opts.disallowed ?? []);
+  let host = "";
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  if (allowed.length > 0 && !allowed.some((d) => host === d || host.endsWith("." + d)))
+    return false;
+  if (disallowed.length > 0 && disallowed.some((d) => host === d || host.endsWith("." + d)))
+    return false;
+  return true;
+}
+
+export function dedupeResults(items: SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  const out: SearchResult[] = [];
+  for (const it of items) {
+    const key = it.url;
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(it);
+  }
+  return out;
+}
+
+function normDomains(xs: string[]): string[] {
+  const out: string[] = [];
+  for (const x of xs) {
+    if (!x) continue;
+    const h = x.replace(/^https?:\/\//i, "").split("/")[0].toLowerCase();
+    if (h) out.push(h);
+  }
+  return out;
+}
+
+export function canonicalizeUrl(u: string): string | null {
+  try {
+    const url = new URL(u);
+    url.hash = "";
+    const toDelete: string[] = [];
+    url.searchParams.forEach((_, k) => {
+      const lk = k.toLowerCase();
+      if (
+        lk.startsWith("utm_") ||
+        lk === "gclid" ||
+        lk === "fbclid" ||
+        lk === "mc_cid" ||
+        lk === "mc_eid" ||
+        lk === "ref" ||
+        lk === "ref_src"
+      ) {
+        toDelete.push(k);
+      }
+    });
+    toDelete.forEach((k) => url.searchParams.delete(k));
+    const entries = Array.from(url.searchParams.entries()).sort(([a], [b]) =>
+      a.localeCompare(b)
+    );
+    url.search = "";
+    for (const [k, v] of entries) url.searchParams.append(k, v);
+    if (url.pathname.endsWith("/") && url.pathname !== "/")
+      url.pathname = url.pathname.replace(/\/+$/, "");
+    url.protocol = url.protocol.toLowerCase();
+    url.hostname = url.hostname.toLowerCase();
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Loosen query (remove quotes/parentheses and collapse whitespace)
+export function loosenQuery(q: string): string {
+  return (q || "")
+    .replace(/[“”"']/g, " ")
+    .replace(/[()]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/* --------------------------------- Dates ----------------------------------- */
+
+export function toISODate(x?: string) {
+  if (!x) return undefined;
+  const d = new Date(x);
+  if (Number.isNaN(d.getTime())) return undefined;
+  return d.toISOString().slice(0, 10);
+}
+
+export function normalizeTimeRange(tr?: { from?: string; to?: string }) {
+  if (!tr) return undefined;
+  const from = toISODate(tr.from);
+  const to = toISODate(tr.to);
+  if (!from && !to) return undefined;
+  return { from, to };
+}
+
+// Window length in days (open ends default to "now"); undefined without bounds
+export function timeRangeDays(tr?: { from?: string; to?: string }): number | undefined {
+  const norm = normalizeTimeRange(tr);
+  if (!norm?.from && !norm?.to) return undefined;
+  const from = norm.from ? new Date(norm.from) : undefined;
+  const to = norm.to ? new Date(norm.to) : new Date();
+  const ms = (to?.getTime() ?? Date.now()) - (from?.getTime() ?? Date.now());
+  return Math.max(1, Math.round(ms / (24 * 3600 * 1000)));
+}
+
+/* ---------------------------------- HTTP ----------------------------------- */
+
+// Abort on timeout or when the caller's signal fires
+export function timeoutSignal(
+  timeoutMs: number,
+  ext?: AbortSignal
+): { signal: AbortSignal; cancel: () => void } {
+  const ac = new AbortController();
+  const timer = setTimeout(
+    () => ac.abort(new DOMException("Timeout", "TimeoutError")),
+    timeoutMs
+  );
+  const onAbort = () =>
+    ac.abort(ext?.reason ?? new DOMException("Aborted", "AbortError"));
+  if (ext) {
+    if (ext.aborted) onAbort();
+    else ext.addEventListener("abort", onAbort, { once: true });
+  }
+  return { signal: ac.signal, cancel: () => clearTimeout(timer) };
+}
+
+export async function fetchJson(
+  url: string,
+  init: RequestInit & { timeoutMs: number; abortSignal?: AbortSignal }
+): Promise<unknown> {
+  const { timeoutMs, abortSignal, ...rest } = init;
+  const t = timeoutSignal(timeoutMs, abortSignal);
+  try {
+    const res = await fetch(url, { ...rest, signal: t.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${new URL(url).host}`);
+    return await res.json();
+  } finally {
+    t.cancel();
+  }
+}
+
+export function str(x: unknown): string | undefined {
+  return typeof x === "string" && x.length > 0 ? x : undefined;
+}
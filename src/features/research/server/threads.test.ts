@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { messages, threads } from "@/db/schema";
+import { id as newId } from "@/lib/id";
+import { migrateTestDb } from "@/test/db";
+import { listThreads, loadThreadAnswer, nextVersionOf } from "./threads";
+
+// Rows written in one second tie on created_at, so pairing has to fall back
+// to the ids; they are generated in the order answerFromContext writes them
+const at = new Date("2025-01-01T00:00:00Z");
+
+describe("loadThreadAnswer", () => {
+  const threadId = newId();
+  const q1 = newId();
+  const a1 = newId();
+  const q2 = newId();
+  const a2 = newId();
+  const a2v2 = newId();
+
+  before(async () => {
+    await migrateTestDb();
+    await db.insert(threads).values({ id: threadId, title: "Solar", createdAt: at });
+    // Inserted out of order: the reader must not depend on rowid
+    await db.insert(messages).values([
+      { id: a2v2, threadId, role: "assistant", contentMd: "Second, redone", versionOf: a2, version: 2, createdAt: at },
+      { id: a2, threadId, role: "assistant", contentMd: "Second answer", createdAt: at },
+      { id: q2, threadId, role: "user", contentMd: "And in 2024?", createdAt: at },
+      { id: a1, threadId, role: "assistant", contentMd: "First answer", createdAt: at },
+      { id: q1, threadId, role: "user", contentMd: "How much solar in 2023?", createdAt: at },
+    ]);
+  });
+
+  test("pairs each question with the answer written after it", async () => {
+    const answer = await loadThreadAnswer(threadId);
+    assert.ok(answer);
+    assert.deepEqual(
+      answer.turns.map((t) => [t.question, t.messageId]),
+      [
+        ["How much solar in 2023?", a1],
+        ["And in 2024?", a2v2],
+      ]
+    );
+  });
+
+  test("shows the latest turn at its latest version", async () => {
+    const answer = await loadThreadAnswer(threadId);
+    assert.equal(answer?.messageId, a2v2);
+    assert.equal(answer?.question, "And in 2024?");
+    assert.equal(answer?.markdown, "Second, redone");
+    assert.equal(answer?.version, 2);
+    assert.deepEqual(
+      answer?.turns[1].versions?.map((v) => [v.messageId, v.version]),
+      [
+        [a2, 1],
+        [a2v2, 2],
+      ]
+    );
+  });
+
+  test("loads an older turn or version by message id", async () => {
+    const first = await loadThreadAnswer(threadId, { messageId: a1 });
+    assert.equal(first?.question, "How much solar in 2023?");
+    assert.equal(first?.markdown, "First answer");
+
+    const original = await loadThreadAnswer(threadId, { messageId: a2 });
+    assert.equal(original?.markdown, "Second answer");
+    assert.equal(original?.version, 1);
+  });
+
+  test("returns null for unknown threads and messages", async () => {
+    assert.equal(await loadThreadAnswer(newId()), null);
+    assert.equal(await loadThreadAnswer(threadId, { messageId: newId() }), null);
+  });
+});
+
+describe("nextVersionOf", () => {
+  test("gives concurrent regenerations distinct version numbers", async () => {
+    await migrateTestDb();
+    const threadId = newId();
+    const root = newId();
+    await db.insert(threads).values({ id: threadId, title: "Wind" });
+    await db.insert(messages).values({ id: root, threadId, role: "assistant", contentMd: "v1" });
+
+    const regenerate = (contentMd: string) =>
+      db
+        .insert(messages)
+        .values({ id: newId(), threadId, role: "assistant", contentMd, versionOf: root, version: nextVersionOf(root) })
+        .run();
+    await Promise.all([regenerate("a"), regenerate("b"), regenerate("c")]);
+
+    const rows = await db.select({ version: messages.version }).from(messages).where(eq(messages.versionOf, root));
+    assert.deepEqual(rows.map((r) => r.version).sort(), [2, 3, 4]);
+  });
+});
+
+describe("listThreads", () => {
+  before(async () => {
+    await migrateTestDb();
+    await db.insert(threads).values([
+      { id: newId(), title: "Why snake_case wins" },
+      { id: newId(), title: "Why snakeXcase loses" },
+      { id: newId(), title: "Is 100% renewable possible?" },
+      { id: newId(), title: "Is 1000 renewable possible?" },
+      { id: newId(), title: "Paths like C:\\temp" },
+    ]);
+  });
+
+  const titles = async (q: string) => (await listThreads({ q })).items.map((t) => t.title);
+
+  test("matches _, % and \\ in the search literally", async () => {
+    assert.deepEqual(await titles("snake_case"), ["Why snake_case wins"]);
+    assert.deepEqual(await titles("100%"), ["Is 100% renewable possible?"]);
+    assert.deepEqual(await titles("C:\\temp"), ["Paths like C:\\temp"]);
+  });
+});
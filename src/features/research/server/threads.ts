@@ -0,0 +1,698 @@
+import "server-only";
+import { and, asc, count, desc, eq, gte, inArray, isNotNull, lte, or, sql } from "drizzle-orm";
+import type { ModelMessage } from "ai";
+import { db } from "@/db";
+import {
+  threads,
+  messages,
+  searchEvents,
+  sources as sourcesTable,
+  threadSources,
+  claims as claimsTable,
+  claimEvidence as claimEvidenceTable,
+  citations as citationsTable,
+  chunks as chunksTable,
+  messageContexts,
+} from "@/db/schema";
+import { estimateTokens, truncateByTokens } from "@/lib/text";
+import {
+  ClaimTypeSchema,
+  type SourceRef,
+  type Source,
+  type Claim,
+  type Citation,
+  type ThreadAnswer,
+  type ThreadListResponse,
+  type ThreadTurn,
+  type ThreadSource,
+} from "../types";
+import { fromDbMessages, type DBMessageLite } from "./messages";
+import { assessSourceTrust, withTrust } from "./trust";
+import { clusterIdsFor } from "./duplicates";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type ThreadContext = {
+  threadId: string;
+  title: string;
+  messages: DBMessageLite[];
+  // Subqueries already searched in this thread (first-seen order, deduped)
+  priorQueries: string[];
+  // Sources earlier turns read, cited or not (first-seen order, deduped; no index)
+  priorSources: SourceRef[];
+};
+
+export type ListThreadsOptions = {
+  q?: string; // title substring
+  from?: Date; // createdAt lower bound (inclusive)
+  to?: Date; // createdAt upper bound (inclusive)
+  limit?: number; // default 20
+  offset?: number; // default 0
+};
+
+export type HistoryOptions = {
+  maxMessages?: number; // default 6 (three turns)
+  maxTokensPerMessage?: number; // default 400
+};
+
+/* ------------------------------- Loading ----------------------------------- */
+
+/**
+ * Load everything a follow-up turn needs from an existing thread.
+ * Returns null if the thread does not exist.
+ */
+export async function loadThreadContext(
+  threadId: string
+): Promise<ThreadContext | null> {
+  const [thread] = await db
+    .select({ id: threads.id, title: threads.title })
+    .from(threads)
+    .where(eq(threads.id, threadId))
+    .limit(1);
+  if (!thread) return null;
+
+  const [msgRows, queryRows, sourceRows] = await Promise.all([
+    db
+      .select({
+        id: messages.id,
+        versionOf: messages.versionOf,
+        role: messages.role,
+        contentMd: messages.contentMd,
+      })
+      .from(messages)
+      .where(eq(messages.threadId, threadId))
+      .orderBy(asc(messages.createdAt), asc(messages.id)),
+    db
+      .select({ query: searchEvents.query })
+      .from(searchEvents)
+      .where(eq(searchEvents.threadId, threadId))
+      .orderBy(asc(searchEvents.createdAt), asc(searchEvents.id)),
+    db
+      .select({
+        id: sourcesTable.id,
+        url: sourcesTable.url,
+        title: sourcesTable.title,
+        domain: sourcesTable.domain,
+        publishedAt: sourcesTable.publishedAt,
+      })
+      .from(threadSources)
+      .innerJoin(sourcesTable, eq(threadSources.sourceId, sourcesTable.id))
+      .where(eq(threadSources.threadId, threadId))
+      .orderBy(asc(threadSources.createdAt), asc(threadSources.id)),
+  ]);
+
+  const seenQueries = new Set<string>();
+  const priorQueries: string[] = [];
+  for (const r of queryRows) {
+    const key = normalizeQuery(r.query);
+    if (!key || seenQueries.has(key)) continue;
+    seenQueries.add(key);
+    priorQueries.push(r.query);
+  }
+
+  const seenSources = new Set<string>();
+  const priorSources: SourceRef[] = [];
+  for (const s of sourceRows) {
+    if (seenSources.has(s.id)) continue;
+    seenSources.add(s.id);
+    priorSources.push({
+      id: s.id,
+      url: s.url,
+      title: s.title ?? null,
+      domain: s.domain ?? null,
+      publishedAt: s.publishedAt ?? null,
+    });
+  }
+
+  return {
+    threadId: thread.id,
+    title: thread.title,
+    messages: latestVersions(msgRows).map(({ role, contentMd }) => ({
+      role,
+      contentMd,
+    })),
+    priorQueries,
+    priorSources,
+  };
+}
+
+/* ------------------------------- History ----------------------------------- */
+
+/**
+ * Convert stored thread messages into compact model history.
+ * Keeps the most recent messages, strips [n] markers from assistant
+ * turns (numbering is per-turn and would clash with the new SOURCES list)
+ * and truncates each message to a token cap.
+ */
+export function toHistoryMessages(
+  msgs: DBMessageLite[],
+  opts: HistoryOptions = {}
+): ModelMessage[] {
+  const maxMessages = Math.max(0, opts.maxMessages ?? 6);
+  const maxTokens = Math.max(50, opts.maxTokensPerMessage ?? 400);
+  if (maxMessages === 0) return [];
+
+  const recent = msgs
+    .filter((m) => m.role !== "system")
+    .slice(-maxMessages)
+    .map((m) => ({
+      role: m.role,
+      contentMd: truncateByTokens(
+        m.role === "assistant" ? stripCitationMarkers(m.contentMd) : m.contentMd,
+        maxTokens
+      ),
+    }));
+
+  // History must start with a user turn
+  while (recent.length && recent[0].role !== "user") recent.shift();
+
+  return fromDbMessages(recent);
+}
+
+export function estimateHistoryTokens(history: ModelMessage[]): number {
+  let total = 0;
+  for (const m of history) {
+    total +=
+      typeof m.content === "string"
+        ? estimateTokens(m.content)
+        : estimateTokens(JSON.stringify(m.content));
+  }
+  return total;
+}
+
+/* ------------------------------- Listing ----------------------------------- */
+
+/**
+ * Page through threads, newest first, optionally filtered by title and date.
+ */
+export async function listThreads(
+  opts: ListThreadsOptions = {}
+): Promise<ThreadListResponse> {
+  const limit = Math.min(100, Math.max(1, opts.limit ?? 20));
+  const offset = Math.max(0, opts.offset ?? 0);
+
+  const conds = [];
+  const q = opts.q?.trim();
+  if (q) conds.push(sql`${threads.title} like ${`%${escapeLike(q)}%`} escape '\\'`);
+  if (opts.from) conds.push(gte(threads.createdAt, opts.from));
+  if (opts.to) conds.push(lte(threads.createdAt, opts.to));
+  const where = conds.length ? and(...conds) : undefined;
+
+  const [rows, totals] = await Promise.all([
+    db
+      .select({
+        id: threads.id,
+        title: threads.title,
+        createdAt: threads.createdAt,
+        turns: sql<number>`(SELECT COUNT(1) FROM ${messages} WHERE ${messages.threadId} = ${threads.id} AND ${messages.role} = 'user')`,
+      })
+      .from(threads)
+      .where(where)
+      .orderBy(desc(threads.createdAt), desc(threads.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ n: count() }).from(threads).where(where),
+  ]);
+
+  return {
+    items: rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      createdAt: toIso(r.createdAt),
+      turns: Number(r.turns ?? 0),
+    })),
+    total: Number(totals[0]?.n ?? 0),
+    limit,
+    offset,
+  };
+}
+
+/**
+ * Rebuild a ResearchAnswer for one turn of a thread (latest by default).
+ * Returns null if the thread does not exist.
+ */
+export async function loadThreadAnswer(
+  threadId: string,
+  opts: { messageId?: string } = {}
+): Promise<ThreadAnswer | null> {
+  const [thread] = await db
+    .select()
+    .from(threads)
+    .where(eq(threads.id, threadId))
+    .limit(1);
+  if (!thread) return null;
+
+  const msgRows = await db
+    .select()
+    .from(messages)
+    .where(eq(messages.threadId, threadId))
+    .orderBy(asc(messages.createdAt), asc(messages.id));
+
+  // Regenerated answers hang off the turn's first answer
+  const versionsOf = new Map<string, typeof msgRows>();
+  for (const m of msgRows) {
+    if (!m.versionOf) continue;
+    versionsOf.set(m.versionOf, [...(versionsOf.get(m.versionOf) ?? []), m]);
+  }
+
+  // Pair each user message with the assistant reply that follows it; a turn
+  // shows its latest answer version
+  const turns: Array<ThreadTurn & { all: typeof msgRows }> = [];
+  let pendingQuestion: string | null = null;
+  for (const m of msgRows) {
+    if (m.versionOf) continue;
+    if (m.role === "user") pendingQuestion = m.contentMd;
+    else if (m.role === "assistant" && pendingQuestion !== null) {
+      const all = [m, ...(versionsOf.get(m.id) ?? [])].sort(
+        (a, b) => a.version - b.version
+      );
+      const latest = all[all.length - 1];
+      turns.push({
+        messageId: latest.id,
+        question: pendingQuestion,
+        createdAt: toIso(m.createdAt),
+        versions:
+          all.length > 1
+            ? all.map((v) => ({
+                messageId: v.id,
+                version: v.version,
+                createdAt: toIso(v.createdAt),
+              }))
+            : undefined,
+        all,
+      });
+      pendingQuestion = null;
+    }
+  }
+
+  const turn = opts.messageId
+    ? turns.find((t) => t.all.some((v) => v.id === opts.messageId))
+    : turns[turns.length - 1];
+  if (opts.messageId && !turn) return null;
+
+  const base = {
+    threadId: thread.id,
+    title: thread.title,
+    createdAt: toIso(thread.createdAt),
+    turns: turns.map(({ messageId, question, createdAt, versions }) => ({
+      messageId,
+      question,
+      createdAt,
+      versions,
+    })),
+  };
+
+  if (!turn) {
+    return {
+      ...base,
+      messageId: null,
+      question: thread.title,
+      markdown: "",
+      claims: [],
+      citations: [],
+      sources: [],
+      sourceRefs: [],
+    };
+  }
+
+  // The requested version, or the latest
+  const shown =
+    turn.all.find((v) => v.id === opts.messageId) ?? turn.all[turn.all.length - 1];
+
+  const [claimRows, citationRows, [context]] = await Promise.all([
+    db
+      .select()
+      .from(claimsTable)
+      .where(eq(claimsTable.messageId, shown.id))
+      .orderBy(asc(claimsTable.createdAt), asc(claimsTable.id)),
+    db
+      .select()
+      .from(citationsTable)
+      .where(eq(citationsTable.messageId, shown.id))
+      .orderBy(asc(citationsTable.createdAt), asc(citationsTable.id)),
+    db
+      .select({ verifySkipped: messageContexts.verifySkipped })
+      .from(messageContexts)
+      .where(eq(messageContexts.messageId, shown.id))
+      .limit(1),
+  ]);
+
+  const evidenceRows = claimRows.length
+    ? await db
+        .select()
+        .from(claimEvidenceTable)
+        .where(
+          inArray(
+            claimEvidenceTable.claimId,
+            claimRows.map((c) => c.id)
+          )
+        )
+    : [];
+
+  // Page ranges of the cited chunks (set for paginated uploads only)
+  const citedChunkIds = Array.from(
+    new Set(
+      [...evidenceRows, ...citationRows]
+        .map((r) => r.chunkId)
+        .filter((x): x is string => !!x)
+    )
+  );
+  const pagesByChunk = new Map<string, { pageStart?: number; pageEnd?: number }>();
+  if (citedChunkIds.length) {
+    const pageRows = await db
+      .select({
+        id: chunksTable.id,
+        pageStart: chunksTable.pageStart,
+        pageEnd: chunksTable.pageEnd,
+      })
+      .from(chunksTable)
+      .where(inArray(chunksTable.id, citedChunkIds));
+    for (const r of pageRows) {
+      if (r.pageStart == null) continue;
+      pagesByChunk.set(r.id, {
+        pageStart: r.pageStart,
+        pageEnd: r.pageEnd ?? r.pageStart,
+      });
+    }
+  }
+
+  const evidenceByClaim = new Map<string, Citation[]>();
+  for (const e of evidenceRows) {
+    const bag = evidenceByClaim.get(e.claimId) ?? [];
+    bag.push({
+      id: e.id,
+      sourceId: e.sourceId,
+      chunkId: e.chunkId,
+      quote: e.quote,
+      charStart: e.charStart,
+      charEnd: e.charEnd,
+      score: e.score ?? undefined,
+      ...pagesByChunk.get(e.chunkId),
+    });
+    evidenceByClaim.set(e.claimId, bag);
+  }
+
+  const clusterOf = await clusterIdsFor(evidenceRows.map((e) => e.sourceId));
+  const claims: Claim[] = claimRows.map((c) => {
+    const evidence = evidenceByClaim.get(c.id) ?? [];
+    return {
+      id: c.id,
+      text: c.text,
+      claimType: toClaimType(c.claimType),
+      evidence,
+      supportScore: c.supportScore,
+      contradicted: Boolean(c.contradicted),
+      uncertaintyReason: c.uncertaintyReason ?? undefined,
+      origins: new Set(
+        evidence.map((e) => clusterOf.get(e.sourceId) ?? e.sourceId)
+      ).size,
+    };
+  });
+
+  const citations: Citation[] = citationRows.map((c) => ({
+    id: c.id,
+    sourceId: c.sourceId,
+    chunkId: c.chunkId ?? undefined,
+    quote: c.quote,
+    charStart: c.charStart ?? undefined,
+    charEnd: c.charEnd ?? undefined,
+    score: c.rankScore ?? undefined,
+    ...(c.chunkId ? pagesByChunk.get(c.chunkId) : undefined),
+  }));
+
+  // Sources in [n] order; runs that predate thread_sources fall back to evidence
+  const linked = await db
+    .select({ idx: threadSources.idx, source: sourcesTable })
+    .from(threadSources)
+    .innerJoin(sourcesTable, eq(threadSources.sourceId, sourcesTable.id))
+    .where(and(eq(threadSources.messageId, shown.id), isNotNull(threadSources.idx)))
+    .orderBy(asc(threadSources.idx), asc(threadSources.id));
+
+  let sourceRows = linked.map((r) => ({ ...r.source, idx: r.idx }));
+  if (sourceRows.length === 0) {
+    const ids = Array.from(
+      new Set([
+        ...evidenceRows.map((e) => e.sourceId),
+        ...citationRows.map((c) => c.sourceId),
+      ])
+    );
+    const found = ids.length
+      ? await db.select().from(sourcesTable).where(inArray(sourcesTable.id, ids))
+      : [];
+    const byId = new Map(found.map((s) => [s.id, s]));
+    sourceRows = ids
+      .map((id) => byId.get(id))
+      .filter((s): s is NonNullable<typeof s> => Boolean(s))
+      .map((s, i) => ({ ...s, idx: i + 1 }));
+  }
+
+  const sources: Source[] = sourceRows.map((s) => ({
+    id: s.id,
+    url: s.url,
+    domain: s.domain,
+    title: s.title ?? null,
+    publishedAt: s.publishedAt ?? null,
+    crawledAt: s.crawledAt ?? null,
+    lang: s.lang ?? null,
+  }));
+  const refs: SourceRef[] = sourceRows.map((s, i) => ({
+    id: s.id,
+    url: s.url,
+    title: s.title ?? null,
+    domain: s.domain ?? null,
+    publishedAt: s.publishedAt ?? null,
+    index: s.idx ?? i + 1,
+  }));
+  const sourceRefs = withTrust(
+    refs,
+    await assessSourceTrust(refs, { llm: false })
+  );
+
+  const confidence = claims.length
+    ? claims.reduce((sum, c) => sum + c.supportScore, 0) / claims.length
+    : undefined;
+
+  return {
+    ...base,
+    messageId: shown.id,
+    question: turn.question,
+    markdown: shown.contentMd,
+    version: shown.version,
+    verifySkipped: context?.verifySkipped ?? undefined,
+    claims,
+    citations,
+    sources,
+    sourceRefs,
+    confidence,
+  };
+}
+
+/* ------------------------------ Sources ------------------------------------ */
+
+/**
+ * Every source used in a thread (or one turn of it) with usage stats.
+ * Indexes follow the latest turn's [n] numbering; sources only used by
+ * earlier turns are appended after it. Returns null if the thread (or the
+ * requested message) does not exist.
+ */
+export async function listThreadSources(
+  threadId: string,
+  opts: { messageId?: string } = {}
+): Promise<ThreadSource[] | null> {
+  const [thread] = await db
+    .select({ id: threads.id })
+    .from(threads)
+    .where(eq(threads.id, threadId))
+    .limit(1);
+  if (!thread) return null;
+
+  const msgRows = await db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(
+      opts.messageId
+        ? and(eq(messages.threadId, threadId), eq(messages.id, opts.messageId))
+        : eq(messages.threadId, threadId)
+    )
+    .orderBy(asc(messages.createdAt), asc(messages.id));
+  if (opts.messageId && msgRows.length === 0) return null;
+
+  const msgIds = msgRows.map((m) => m.id);
+  if (msgIds.length === 0) return [];
+
+  const [linked, evidence, cites] = await Promise.all([
+    db
+      .select({
+        sourceId: threadSources.sourceId,
+        messageId: threadSources.messageId,
+        idx: threadSources.idx,
+      })
+      .from(threadSources)
+      .where(
+        and(
+          opts.messageId
+            ? eq(threadSources.messageId, opts.messageId)
+            : eq(threadSources.threadId, threadId),
+          // Sources a turn read but did not cite only feed follow-ups
+          isNotNull(threadSources.idx)
+        )
+      )
+      .orderBy(asc(threadSources.createdAt), asc(threadSources.id)),
+    db
+      .select({
+        sourceId: claimEvidenceTable.sourceId,
+        claimId: claimEvidenceTable.claimId,
+      })
+      .from(claimEvidenceTable)
+      .innerJoin(claimsTable, eq(claimEvidenceTable.claimId, claimsTable.id))
+      .where(inArray(claimsTable.messageId, msgIds)),
+    db
+      .select({ sourceId: citationsTable.sourceId })
+      .from(citationsTable)
+      .where(inArray(citationsTable.messageId, msgIds)),
+  ]);
+
+  // [n] numbering comes from the most recent turn that recorded one
+  const msgOrder = new Map(msgIds.map((id, i) => [id, i]));
+  let latestMsg: string | null = null;
+  for (const l of linked) {
+    if (!l.messageId || l.idx == null) continue;
+    if (
+      latestMsg === null ||
+      (msgOrder.get(l.messageId) ?? -1) > (msgOrder.get(latestMsg) ?? -1)
+    ) {
+      latestMsg = l.messageId;
+    }
+  }
+  const indexById = new Map<string, number>();
+  for (const l of linked) {
+    if (l.messageId === latestMsg && l.idx != null) {
+      indexById.set(l.sourceId, l.idx);
+    }
+  }
+
+  // First-seen order: linkage, then claim evidence, then inline citations
+  const ordered: string[] = [];
+  const seen = new Set<string>();
+  for (const sid of [
+    ...linked.map((l) => l.sourceId),
+    ...evidence.map((e) => e.sourceId),
+    ...cites.map((c) => c.sourceId),
+  ]) {
+    if (seen.has(sid)) continue;
+    seen.add(sid);
+    ordered.push(sid);
+  }
+  if (ordered.length === 0) return [];
+
+  const [sourceRows, chunkCounts] = await Promise.all([
+    db.select().from(sourcesTable).where(inArray(sourcesTable.id, ordered)),
+    db
+      .select({ sourceId: chunksTable.sourceId, n: count() })
+      .from(chunksTable)
+      .where(inArray(chunksTable.sourceId, ordered))
+      .groupBy(chunksTable.sourceId),
+  ]);
+
+  const byId = new Map(sourceRows.map((r) => [r.id, r]));
+  const chunksBySource = new Map(
+    chunkCounts.map((c) => [c.sourceId, Number(c.n ?? 0)])
+  );
+  const claimsBySource = new Map<string, Set<string>>();
+  for (const e of evidence) {
+    const set = claimsBySource.get(e.sourceId) ?? new Set<string>();
+    set.add(e.claimId);
+    claimsBySource.set(e.sourceId, set);
+  }
+  const citesBySource = new Map<string, number>();
+  for (const c of cites) {
+    citesBySource.set(c.sourceId, (citesBySource.get(c.sourceId) ?? 0) + 1);
+  }
+
+  const indexed = ordered
+    .filter((id) => indexById.has(id))
+    .sort((a, b) => indexById.get(a)! - indexById.get(b)!);
+  let next = Math.max(0, ...indexed.map((id) => indexById.get(id)!)) + 1;
+  for (const id of ordered) {
+    if (!indexById.has(id)) indexById.set(id, next++);
+  }
+
+  const trust = await assessSourceTrust(sourceRows, { llm: false });
+
+  const out: ThreadSource[] = [];
+  for (const id of [...indexed, ...ordered.filter((x) => !indexed.includes(x))]) {
+    const s = byId.get(id);
+    if (!s) continue;
+    out.push({
+      id: s.id,
+      url: s.url,
+      title: s.title ?? null,
+      domain: s.domain ?? null,
+      publishedAt: s.publishedAt ?? null,
+      index: indexById.get(id),
+      trust: trust.get(id)?.score ?? null,
+      trustReason: trust.get(id)?.reason ?? null,
+      crawledAt: s.crawledAt ?? null,
+      chunkCount: chunksBySource.get(id) ?? 0,
+      claimCount: claimsBySource.get(id)?.size ?? 0,
+      citationCount: citesBySource.get(id) ?? 0,
+    });
+  }
+  return out;
+}
+
+/* -------------------------------- Utils ------------------------------------ */
+
+/**
+ * Put each turn's latest answer version in place of its first answer and drop
+ * the rest, keeping turn order. Rows must be in creation order.
+ */
+export function latestVersions<T extends { id: string; versionOf: string | null }>(
+  rows: T[]
+): T[] {
+  const latest = new Map<string, T>();
+  for (const r of rows) if (r.versionOf) latest.set(r.versionOf, r);
+  return rows.filter((r) => !r.versionOf).map((r) => latest.get(r.id) ?? r);
+}
+
+/**
+ * The turn's next answer version as a subquery, for the insert of the new
+ * version: it is read when the row is written, so concurrent regenerations
+ * cannot take the same number.
+ */
+export function nextVersionOf(rootId: string) {
+  return sql<number>`(${db
+    .select({ v: sql`coalesce(max(${messages.version}), 1) + 1` })
+    .from(messages)
+    .where(or(eq(messages.id, rootId), eq(messages.versionOf, rootId)))})`;
+}
+
+export function normalizeQuery(q: string): string {
+  return String(q ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function stripCitationMarkers(md: string): string {
+  return String(md ?? "")
+    .replace(/\s?\[\d{1,3}\](?!\()/g, "")
+    .trim();
+}
+
+function escapeLike(s: string): string {
+  // Matched with ESCAPE '\' so "snake_case" and "100%" are taken literally
+  return s.replace(/[\\%_]/g, "\\$&");
+}
+
+function toIso(d: Date | number | null | undefined): string {
+  if (d instanceof Date) return d.toISOString();
+  if (typeof d === "number") return new Date(d * 1000).toISOString();
+  return new Date(0).toISOString();
+}
+
+function toClaimType(t: string | null): Claim["claimType"] {
+  const parsed = ClaimTypeSchema.safeParse(t);
+  return parsed.success ? parsed.data : "other";
+}
@@ -0,0 +1,370 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import "server-only";
+import { inArray } from "drizzle-orm";
+import { db } from "@/db";
+import { sources, sourceTrust } from "@/db/schema";
+import { env } from "@/lib/env";
+import { id as newId } from "@/lib/id";
+import { logger, logError, startSpan } from "@/lib/logger";
+import { buildSourceTrustPrompt } from "../prompts";
+import {
+  SourceTrustResultSchema,
+  type SourceRef,
+  type VerifyClaimsResponse,
+} from "../types";
+import { generateCompletion } from "./groq";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type SourceTrust = {
+  score: number; // 0..1
+  reason: string;
+  method: "override" | "heuristic" | "llm" | "default";
+};
+
+export type AssessTrustOptions = {
+  llm?: boolean; // default env.SOURCE_TRUST_LLM; false = cache and heuristics only
+  snippets?: Map<string, string>; // sourceId -> excerpt for the LLM prompt
+  abortSignal?: AbortSignal;
+};
+
+// Below this a source counts as low-trust (UI badge, claim caveat)
+export const LOW_TRUST = 0.5;
+
+const DEFAULT_TRUST: SourceTrust = {
+  score: 0.5,
+  reason: "Unknown source",
+  method: "default",
+};
+const CACHE_TTL_MS = 30 * 86_400_000;
+const LLM_CONCURRENCY = 3;
+const MAX_LLM_PER_CALL = 12;
+
+/* -------------------------------- Heuristics -------------------------------- */
+
+// Matched against the hostname: ".gov" is a suffix, "who.int" a host and its subdomains
+const GOVERNMENT = [
+  ".gov", ".mil", ".gov.uk", ".gouv.fr", ".gc.ca", ".gov.au", ".govt.nz",
+  ".go.jp", ".gob.mx", ".gov.in", ".bund.de", ".admin.ch",
+  "europa.eu", "who.int", "un.org", "oecd.org", "imf.org", "worldbank.org",
+];
+const ACADEMIC = [
+  ".edu", ".ac.uk", ".ac.jp", ".ac.nz", ".ac.in", ".edu.au", ".edu.cn",
+];
+const PEER_REVIEWED = [
+  "nature.com", "science.org", "cell.com", "thelancet.com", "nejm.org",
+  "bmj.com", "jamanetwork.com", "pnas.org", "plos.org", "springer.com",
+  "sciencedirect.com", "wiley.com", "tandfonline.com", "academic.oup.com",
+  "acm.org", "ieee.org", "cochranelibrary.com", "pubmed.ncbi.nlm.nih.gov",
+  "ncbi.nlm.nih.gov",
+];
+const PREPRINTS = ["arxiv.org", "biorxiv.org", "medrxiv.org", "ssrn.com"];
+const USER_GENERATED = [
+  "medium.com", "substack.com", "blogspot.com", "wordpress.com", "tumblr.com",
+  "quora.com", "reddit.com", "pinterest.com", "facebook.com", "x.com",
+  "twitter.com", "tiktok.com", "linkedin.com",
+];
+
+const LISTS: Array<{ hosts: string[]; score: number; reason: string }> = [
+  { hosts: GOVERNMENT, score: 0.95, reason: "Government or intergovernmental body" },
+  { hosts: PEER_REVIEWED, score: 0.92, reason: "Peer-reviewed publisher" },
+  { hosts: ACADEMIC, score: 0.88, reason: "Academic institution" },
+  { hosts: PREPRINTS, score: 0.75, reason: "Preprint server (not peer-reviewed)" },
+  { hosts: ["wikipedia.org"], score: 0.65, reason: "Encyclopedia (secondary)" },
+  { hosts: USER_GENERATED, score: 0.35, reason: "User-generated or self-published" },
+];
+
+/**
+ * Configured override or built-in list match for a source, without I/O.
+ * Null when neither applies (the LLM or the default decides).
+ */
+export function heuristicTrust(
+  url: string,
+  domain?: string | null
+): SourceTrust | null {
+  const host = hostOf(url, domain);
+  if (!host) return null;
+
+  for (const [pattern, score] of overrides()) {
+    if (hostMatches(host, pattern)) {
+      return { score, reason: "Configured override", method: "override" };
+    }
+  }
+  for (const list of LISTS) {
+    if (list.hosts.some((p) => hostMatches(host, p))) {
+      return { score: list.score, reason: list.reason, method: "heuristic" };
+    }
+  }
+  return null;
+}
+
+/* ------------------------------- Main entry -------------------------------- */
+
+/**
+ * Trust per source id: override > built-in lists > cached LLM judgement
+ * (page, then domain) > fresh LLM judgement (cached) > neutral default.
+ * Lookup and model failures fall back to the default; only an abort throws.
+ */
+export async function assessSourceTrust(
+  refs: Array<Pick<SourceRef, "id" | "url" | "title" | "domain">>,
+  opts: AssessTrustOptions = {}
+): Promise<Map<string, SourceTrust>> {
+  const log = logger.child({ mod: "trust" });
+  const span = startSpan(log, "assessSourceTrust");
+  const out = new Map<string, SourceTrust>();
+
+  const pending: typeof refs = [];
+  for (const r of refs) {
+    const h = heuristicTrust(r.url, r.domain);
+    if (h) out.set(r.id, h);
+    else pending.push(r);
+  }
+
+  const cached = await readCache(pending).catch((e) => {
+    logError(log, e, "trust cache read failed");
+    return new Map<string, SourceTrust>();
+  });
+  const unknown: typeof refs = [];
+  for (const r of pending) {
+    const hit =
+      cached.get(`url:${r.url}`) ?? cached.get(`domain:${hostOf(r.url, r.domain)}`);
+    if (hit) out.set(r.id, hit);
+    else unknown.push(r);
+  }
+
+  const useLlm = opts.llm ?? env.SOURCE_TRUST_LLM;
+  if (useLlm && unknown.length > 0) {
+    // One judgement per host per call; siblings reuse it through the domain entry
+    const byHost = new Map<string, (typeof refs)[number]>();
+    for (const r of unknown) {
+      const host = hostOf(r.url, r.domain);
+      if (host && !byHost.has(host)) byHost.set(host, r);
+    }
+    const toJudge = Array.from(byHost.values()).slice(0, MAX_LLM_PER_CALL);
+
+    const judged = await mapLimit(toJudge, LLM_CONCURRENCY, async (r) => {
+      const t = await judgeWithLlm(r, opts.snippets?.get(r.id), opts.abortSignal);
+      if (t) {
+        await writeCache(r.url, hostOf(r.url, r.domain), t).catch((e) =>
+          logError(log, e, "trust cache write failed", { url: r.url })
+        );
+      }
+      return [hostOf(r.url, r.domain), t] as const;
+    });
+    const byHostResult = new Map(judged.filter(([, t]) => t !== null));
+    for (const r of unknown) {
+      const t = byHostResult.get(hostOf(r.url, r.domain));
+      if (t) out.set(r.id, t);
+    }
+  }
+
+  for (const r of refs) if (!out.has(r.id)) out.set(r.id, DEFAULT_TRUST);
+
+  span.end({
+    sources: refs.length,
+    llm: Array.from(out.values()).filter((t) => t.method === "llm").length,
+  });
+  return out;
+}
+
+/** Trust for stored sources by id, from cache and heuristics only (no LLM). */
+export async function sourceTrustScores(
+  sourceIds: string[]
+): Promise<Map<string, SourceTrust>> {
+  const ids = Array.from(new Set(sourceIds.filter(Boolean)));
+  if (ids.length === 0) return new Map();
+  const rows = await db
+    .select({ id: sources.id, url: sources.url, domain: sources.domain })
+    .from(sources)
+    .where(inArray(sources.id, ids));
+  return assessSourceTrust(rows, { llm: false });
+}
+
+/** SourceRefs with `trust`/`trustReason` filled from the map. */
+export function withTrust<T extends SourceRef>(
+  refs: T[],
+  trust: Map<string, SourceTrust>
+): T[] {
+  return refs.map((r) => {
+    const t = trust.get(r.id);
+    return t ? { ...r, trust: t.score, trustReason: t.reason } : r;
+  });
+}
+
+/* ------------------------------ Claim weighting ----------------------------- */
+
+/**
+ * Mutates claims in place: scales supportScore by the best source behind each
+ * claim and notes when a claim rests only on low-trust sources.
+ */
+export function weighClaimsByTrustInPlace(
+  verified: VerifyClaimsResponse,
+  trust: Map<string, SourceTrust>
+): void {
+  for (const claim of verified.claims) {
+    const scores = claim.evidence
+      .map((e) => trust.get(e.sourceId)?.score)
+      .filter((s): s is number => typeof s === "number");
+    if (scores.length === 0) continue;
+
+    const best = Math.max(...scores);
+    // A claim backed by a top source keeps its score; a blog-only one loses ~25%
+    claim.supportScore = clamp01(claim.supportScore * (0.6 + 0.4 * best));
+    if (best < LOW_TRUST && !claim.uncertaintyReason) {
+      claim.uncertaintyReason = "Supported only by low-trust sources.";
+    }
+  }
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+async function judgeWithLlm(
+  ref: Pick<SourceRef, "id" | "url" | "title" | "domain">,
+  snippet: string | undefined,
+  abortSignal?: AbortSignal
+): Promise<SourceTrust | null> {
+  try {
+    const p = buildSourceTrustPrompt(ref, snippet?.slice(0, 800));
+    const res = await generateCompletion({
+      model: "verify", // small model is sufficient
+      system: p.system,
+      prompt: p.user,
+      temperature: 0,
+      maxOutputTokens: 200,
+      abortSignal,
+    });
+    const parsed = SourceTrustResultSchema.safeParse(parseJSON(res.text));
+    if (!parsed.success) return null;
+    return {
+      score: parsed.data.score,
+      reason: parsed.data.reason.slice(0, 200),
+      method: "llm",
+    };
+  } catch (e) {
+    if (abortSignal?.aborted) throw e;
+    logError(logger.child({ mod: "trust" }), e, "trust judgement failed", {
+      url: ref.url,
+    });
+    return null;
+  }
+}
+
+// Fresh cache rows keyed "url:<url>" / "domain:<host>"
+async function readCache(
+  refs: Array<Pick<SourceRef, "url" | "domain">>
+): Promise<Map<string, SourceTrust>> {
+  const out = new Map<string, SourceTrust>();
+  if (refs.length === 0) return out;
+
+  const urls = Array.from(new Set(refs.map((r) => r.url)));
+  const hosts = Array.from(
+    new Set(refs.map((r) => hostOf(r.url, r.domain)).filter(Boolean))
+  );
+  const rows = await db
+    .select()
+    .from(sourceTrust)
+    .where(inArray(sourceTrust.key, [...urls, ...hosts]));
+
+  const cutoff = Date.now() - CACHE_TTL_MS;
+  for (const r of rows) {
+    if (r.updatedAt.getTime() < cutoff) continue;
+    out.set(`${r.scope}:${r.key}`, {
+      score: r.score,
+      reason: r.reason ?? "",
+      method: "llm",
+    });
+  }
+  return out;
+}
+
+async function writeCache(url: string, host: string, t: SourceTrust) {
+  const now = new Date();
+  for (const [scope, key] of [
+    ["url", url],
+    ["domain", host],
+  ] as const) {
+    if (!key) continue;
+    await db
+      .insert(sourceTrust)
+      .values({ id: newId(), scope, key, score: t.score, reason: t.reason })
+      .onConflictDoUpdate({
+        target: [sourceTrust.scope, sourceTrust.key],
+        set: { score: t.score, reason: t.reason, updatedAt: now },
+      })
+      .run();
+  }
+}
+
+let overrideCache: Array<[string, number]> | null = null;
+
+// SOURCE_TRUST_OVERRIDES: "host:score" pairs, comma-separated
+function overrides(): Array<[string, number]> {
+  if (overrideCache) return overrideCache;
+  overrideCache = (env.SOURCE_TRUST_OVERRIDES ?? "")
+    .split(",")
+    .map((pair) => {
+      const i = pair.lastIndexOf(":");
+      if (i <= 0) return null;
+      const host = pair.slice(0, i).trim().toLowerCase();
+      const score = Number(pair.slice(i + 1));
+      return host && Number.isFinite(score)
+        ? ([host, clamp01(score)] as [string, number])
+        : null;
+    })
+    .filter((x): x is [string, number] => x !== null);
+  return overrideCache;
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  if (pattern.startsWith(".")) return host.endsWith(pattern);
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
+
+function hostOf(url: string, domain?: string | null): string {
+  let host = domain ?? "";
+  if (!host || host === "unknown") {
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      return "";
+    }
+  }
+  return host.toLowerCase().replace(/^www\./, "");
+}
+
+async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const i = next++;
+        out[i] = await fn(items[i]);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return out;
+}
+
+function parseJSON(s: string): any {
+  const t = (s ?? "").trim();
+  if (!t) return {};
+  const first = t.indexOf("{");
+  const last = t.lastIndexOf("}");
+  if (first === -1 || last <= first) return {};
+  try {
+    return JSON.parse(t.slice(first, last + 1));
+  } catch {
+    return {};
+  }
+}
+
+function clamp01(x: number): number {
+  return x < 0 ? 0 : x > 1 ? 1 : x;
+}
@@ -0,0 +1,255 @@
+import "server-only";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { and, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import { db } from "@/db";
+import { usageEvents } from "@/db/schema";
+import { id as newId } from "@/lib/id";
+import { logger, logError } from "@/lib/logger";
+import type {
+  Depth,
+  UsageLine,
+  UsageQuery,
+  UsageReport,
+  UsageSummary,
+} from "../types";
+import type { DeepResearchEmitEvent } from "./deepresearch";
+
+/**
+ * Usage ledger. Work that should be metered (a run, a regeneration, a
+ * deferred verify) runs inside withUsage(meter, fn); the provider wrappers
+ * (groq.ts, deepsearch.ts, reader.ts, embeddings.ts, rank.ts) report each
+ * call with recordUsage(), which lands on the meter of the surrounding work
+ * and is dropped outside of one. The meter's stage follows the progress
+ * events, so spend is split the way the run is. persistUsage() writes one
+ * usage_events row per (stage, provider, model).
+ */
+
+export type UsageRecord = {
+  provider: string;
+  model?: string | null;
+  calls?: number; // default 1
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+export class UsageMeter {
+  stage: string;
+  private lines = new Map<string, UsageLine>();
+
+  constructor(stage = "plan") {
+    this.stage = stage;
+  }
+
+  add(r: UsageRecord) {
+    const model = r.model ?? null;
+    const key = `${this.stage}\u0000${r.provider}\u0000${model ?? ""}`;
+    const line = this.lines.get(key) ?? {
+      stage: this.stage,
+      provider: r.provider,
+      model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    };
+    const calls = r.calls ?? 1;
+    const inputTokens = Math.max(0, Math.round(r.inputTokens ?? 0));
+    const outputTokens = Math.max(0, Math.round(r.outputTokens ?? 0));
+    line.calls += calls;
+    line.inputTokens += inputTokens;
+    line.outputTokens += outputTokens;
+    line.costUsd += estimateCost(r.provider, model, calls, inputTokens, outputTokens);
+    this.lines.set(key, line);
+  }
+
+  summary(): UsageSummary {
+    const lines = Array.from(this.lines.values()).map((l) => ({
+      ...l,
+      costUsd: roundUsd(l.costUsd),
+    }));
+    const total = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    for (const l of lines) {
+      total.calls += l.calls;
+      total.inputTokens += l.inputTokens;
+      total.outputTokens += l.outputTokens;
+      total.costUsd += l.costUsd;
+    }
+    total.costUsd = roundUsd(total.costUsd);
+    return { lines, total };
+  }
+}
+
+declare global {
+  var __USAGE_STORAGE__: AsyncLocalStorage<UsageMeter> | undefined;
+}
+// One storage per process, so every module reports to the same meter
+const storage: AsyncLocalStorage<UsageMeter> =
+  globalThis.__USAGE_STORAGE__ ??
+  (globalThis.__USAGE_STORAGE__ = new AsyncLocalStorage());
+
+const log = logger.child({ mod: "usage" });
+
+export function withUsage<T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> {
+  return storage.run(meter, fn);
+}
+
+export function recordUsage(r: UsageRecord) {
+  storage.getStore()?.add(r);
+}
+
+/**
+ * Wrap a run's emit: progress events move the meter to their stage, and the
+ * `usage` event goes out right before `done`.
+ */
+export function meteredEmit(
+  meter: UsageMeter,
+  emit: (e: DeepResearchEmitEvent) => void
+): (e: DeepResearchEmitEvent) => void {
+  return (e) => {
+    if (e.event === "progress") meter.stage = e.data.stage;
+    if (e.event === "done") emit({ event: "usage", data: meter.summary() });
+    emit(e);
+  };
+}
+
+export async function persistUsage(
+  meter: UsageMeter,
+  ref: {
+    threadId?: string | null;
+    runId?: string | null;
+    visitorId?: string | null;
+    depth?: Depth | null;
+  }
+) {
+  const { lines } = meter.summary();
+  if (lines.length === 0) return;
+  await db
+    .insert(usageEvents)
+    .values(
+      lines.map((l) => ({
+        id: newId(),
+        threadId: ref.threadId ?? null,
+        runId: ref.runId ?? null,
+        visitorId: ref.visitorId ?? null,
+        depth: ref.depth ?? null,
+        ...l,
+      }))
+    )
+    .run()
+    .catch((e) => logError(log, e, "usage persist failed", { runId: ref.runId }));
+}
+
+// Anonymous id the client sends as x-visitor-id; anything else is ignored
+export function visitorIdFrom(headers: Headers): string | null {
+  const v = headers.get("x-visitor-id")?.trim() ?? "";
+  return /^[A-Za-z0-9_-]{8,64}$/.test(v) ? v : null;
+}
+
+/* --------------------------------- Report ---------------------------------- */
+
+export async function aggregateUsage(q: UsageQuery): Promise<UsageReport> {
+  const t = usageEvents;
+  const keys: Record<UsageQuery["groupBy"], SQL<string | null>> = {
+    day: sql<string>`strftime('%Y-%m-%d', ${t.createdAt}, 'unixepoch')`,
+    visitor: sql<string | null>`${t.visitorId}`,
+    depth: sql<string | null>`${t.depth}`,
+    stage: sql<string>`${t.stage}`,
+    provider: sql<string>`${t.provider}`,
+    model: sql<string | null>`${t.model}`,
+  };
+  const key = keys[q.groupBy];
+
+  const where: SQL[] = [];
+  if (q.from) where.push(gte(t.createdAt, dayStart(q.from)));
+  if (q.to) where.push(lt(t.createdAt, dayStart(q.to, 1)));
+  if (q.visitorId) where.push(eq(t.visitorId, q.visitorId));
+  if (q.threadId) where.push(eq(t.threadId, q.threadId));
+
+  const totals = {
+    runs: sql<number>`count(distinct ${t.runId})`,
+    threads: sql<number>`count(distinct ${t.threadId})`,
+    calls: sql<number>`coalesce(sum(${t.calls}), 0)`,
+    inputTokens: sql<number>`coalesce(sum(${t.inputTokens}), 0)`,
+    outputTokens: sql<number>`coalesce(sum(${t.outputTokens}), 0)`,
+    costUsd: sql<number>`coalesce(sum(${t.costUsd}), 0)`,
+  };
+
+  const [rows, [total]] = await Promise.all([
+    db
+      .select({ key, ...totals })
+      .from(t)
+      .where(and(...where))
+      .groupBy(key)
+      .orderBy(q.groupBy === "day" ? key : sql`sum(${t.costUsd}) desc`),
+    db.select(totals).from(t).where(and(...where)),
+  ]);
+
+  const num = <R extends Record<string, unknown>>(r: R) => ({
+    runs: Number(r.runs ?? 0),
+    threads: Number(r.threads ?? 0),
+    calls: Number(r.calls ?? 0),
+    inputTokens: Number(r.inputTokens ?? 0),
+    outputTokens: Number(r.outputTokens ?? 0),
+    costUsd: roundUsd(Number(r.costUsd ?? 0)),
+  });
+  return {
+    groupBy: q.groupBy,
+    from: q.from ?? null,
+    to: q.to ?? null,
+    rows: rows.map((r) => ({ key: r.key ?? null, ...num(r) })),
+    total: num(total ?? {}),
+  };
+}
+
+/* --------------------------------- Pricing --------------------------------- */
+
+// Estimates from the providers' list prices; good enough to compare depths
+// and spot runaway runs, not to reconcile invoices.
+// USD per 1M tokens, keyed "provider/model"
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "groq/llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "groq/llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "groq/deepseek-r1-distill-llama-70b": { input: 0.75, output: 0.99 },
+  "voyage/voyage-3.5": { input: 0.06, output: 0 },
+  "voyage/voyage-3.5-lite": { input: 0.02, output: 0 },
+  "voyage/rerank-2.5": { input: 0.05, output: 0 },
+  "voyage/rerank-2.5-lite": { input: 0.02, output: 0 },
+};
+// USD per call, keyed "provider/model" or "provider"
+const CALL_PRICES: Record<string, number> = {
+  tavily: 0.008,
+  brave: 0.005,
+  firecrawl: 0.004, // search
+  "firecrawl/scrape": 0.001,
+};
+
+function estimateCost(
+  provider: string,
+  model: string | null,
+  calls: number,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const key = model ? `${provider}/${model}` : provider;
+  const tokens = TOKEN_PRICES[key];
+  const perCall = CALL_PRICES[key] ?? CALL_PRICES[provider] ?? 0;
+  return (
+    calls * perCall +
+    (tokens
+      ? (inputTokens * tokens.input + outputTokens * tokens.output) / 1_000_000
+      : 0)
+  );
+}
+
+/* ---------------------------------- Utils ---------------------------------- */
+
+function roundUsd(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+// Midnight UTC of a YYYY-MM-DD day, plus `addDays`
+function dayStart(day: string, addDays = 0): Date {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + addDays);
+  return d;
+}
@@ -9,6 +9,7 @@ import {
   NLIResultSchema,
 } from "../types";
 import { generateCompletion, type GroqProviderOptions } from "./groq";
+import { tokenBudget } from "./scheduler";
 
 /* --------------------------------- Types ---------------------------------- */
 
@@ -37,6 +38,14 @@ export type VerifyOptions = {
   nliMaxPairsPerClaim?: number; // default 1
 };
 
+export const VERIFY_MAX_OUTPUT_TOKENS = 1200;
+
+// Prompt tokens one verify call may use: its share of the model's minute
+// (see scheduler.ts) minus room for the reply
+export function verifyPromptBudget(): number {
+  return tokenBudget("verify").perCall - VERIFY_MAX_OUTPUT_TOKENS;
+}
+
 /* ------------------------------- Main entry -------------------------------- */
 
 /**
@@ -76,7 +85,7 @@ export async function verifyClaims(
       system: prompt.system,
       prompt: prompt.user,
       temperature: 0,
-      maxOutputTokens: 1200,
+      maxOutputTokens: VERIFY_MAX_OUTPUT_TOKENS,
       abortSignal,
       groqOptions,
     });
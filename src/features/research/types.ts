@@ -5,6 +5,14 @@ import { z } from "zod";
 export const DepthSchema = z.enum(["quick", "normal", "deep"]);
 export type Depth = z.infer<typeof DepthSchema>;
 
+// web: search + read; local: rank only over already-ingested sources
+export const ResearchModeSchema = z.enum(["web", "local"]);
+export type ResearchMode = z.infer<typeof ResearchModeSchema>;
+
+// Answer prompt style (see prompts.ts buildAnswerPrompt)
+export const AnswerStyleSchema = z.enum(["neutral", "concise", "detailed"]);
+export type AnswerStyle = z.infer<typeof AnswerStyleSchema>;
+
 export const ClaimTypeSchema = z.enum([
   "quant",
   "causal",
@@ -21,6 +29,7 @@ export const ResearchRequestSchema = z.object({
     .string()
     .min(8, "Please provide a more specific question (min 8 chars)."),
   depth: DepthSchema.default("normal"),
+  mode: ResearchModeSchema.default("web"),
   timeRange: z
     .object({
       from: z.string().optional(), // ISO date expected by backend; validated there
@@ -30,9 +39,33 @@ export const ResearchRequestSchema = z.object({
   region: z.string().optional(),
   allowedDomains: z.array(z.string()).optional(),
   disallowedDomains: z.array(z.string()).optional(),
+  // Follow-up: continue an existing thread (history, prior queries and sources)
+  threadId: z.string().min(1).optional(),
+  // Also rank over this collection's sources (local mode: only over them)
+  collection: z.string().trim().min(1).max(64).optional(),
+  // Let chunks ingested by unrelated runs in, scores scaled by this (0 = off)
+  reuseWeight: z.number().min(0).max(1).default(0),
+  // Pause after planning until the user approves/edits it (POST /api/research/plan)
+  reviewPlan: z.boolean().default(false),
+  // Agent mode: no fixed plan; the model searches, reads and ranks with tools
+  agent: z.boolean().default(false),
+  // Must-include sources: always read and given a slot in the answer context;
+  // web search adds to them
+  seedUrls: z.array(z.string().url()).max(10).optional(),
+  sourceIds: z.array(z.string().min(1)).max(20).optional(), // already ingested
 });
 export type ResearchRequest = z.infer<typeof ResearchRequestSchema>;
 
+// Body of POST /api/research/regenerate: answer again from a stored context
+export const RegenerateRequestSchema = z.object({
+  messageId: z.string().min(1), // assistant message (any version) to start from
+  style: AnswerStyleSchema.optional(),
+  instructions: z.string().trim().max(500).optional(), // tone, length, emphasis
+  excludeSourceIds: z.array(z.string().min(1)).max(50).optional(),
+  pinSourceIds: z.array(z.string().min(1)).max(20).optional(), // lead the context
+});
+export type RegenerateRequest = z.infer<typeof RegenerateRequestSchema>;
+
 /* ----------------------------- Retrieval types ---------------------------- */
 
 export const SearchResultSchema = z.object({
@@ -83,6 +116,9 @@ export const CitationSchema = z.object({
   charStart: z.number().int().nonnegative().optional(),
   charEnd: z.number().int().nonnegative().optional(),
   score: z.number().min(0).max(1).optional(),
+  // Page range of the cited chunk (paginated uploads only)
+  pageStart: z.number().int().positive().optional(),
+  pageEnd: z.number().int().positive().optional(),
 });
 export type Citation = z.infer<typeof CitationSchema>;
 
@@ -96,6 +132,7 @@ export const ClaimSchema = z.object({
   supportScore: z.number().min(0).max(1),
   contradicted: z.boolean(),
   uncertaintyReason: z.string().optional(),
+  origins: z.number().int().nonnegative().optional(), // independent sources behind the evidence
 });
 export type Claim = z.infer<typeof ClaimSchema>;
 
@@ -113,27 +150,68 @@ export type ResearchAnswer = z.infer<typeof ResearchAnswerSchema>;
 
 /* ------------------------------ Plan response ----------------------------- */
 
+export const PlanConstraintsSchema = z.object({
+  timeRange: z
+    .object({
+      from: z.string().optional(),
+      to: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+  region: z.string().nullable().optional(),
+  allowedDomains: z.array(z.string()).nullable().optional(),
+  disallowedDomains: z.array(z.string()).nullable().optional(),
+});
+export type PlanConstraints = z.infer<typeof PlanConstraintsSchema>;
+
 export const PlanResponseSchema = z.object({
   intent: z.string(),
   subqueries: z.array(z.string()).min(1),
   focus: z.array(z.string()).optional().default([]),
-  constraints: z
-    .object({
-      timeRange: z
-        .object({
-          from: z.string().optional(),
-          to: z.string().optional(),
-        })
-        .nullable()
-        .optional(),
-      region: z.string().nullable().optional(),
-      allowedDomains: z.array(z.string()).nullable().optional(),
-      disallowedDomains: z.array(z.string()).nullable().optional(),
-    })
-    .default({}),
+  constraints: PlanConstraintsSchema.default({}),
 });
 export type PlanResponse = z.infer<typeof PlanResponseSchema>;
 
+/* ------------------------------- Gap analysis ------------------------------ */
+
+// Deep runs: what a draft answer leaves unsupported or open, and what to
+// search next (see server/gaps.ts)
+export const GapSchema = z.object({
+  kind: z.enum(["unsupported", "open_question", "contradiction"]).catch("open_question"),
+  text: z.string().min(1),
+});
+export type Gap = z.infer<typeof GapSchema>;
+
+export const GapAnalysisSchema = z.object({
+  gaps: z.array(GapSchema).default([]),
+  subqueries: z.array(z.string()).default([]),
+  sufficient: z.boolean().default(false), // the draft needs no more evidence
+});
+export type GapAnalysis = z.infer<typeof GapAnalysisSchema>;
+
+/* ------------------------------- Plan review ------------------------------- */
+
+// `plan` SSE event: the run is paused until a decision arrives for reviewId
+export const PlanReviewEventSchema = z.object({
+  reviewId: z.string(),
+  threadId: z.string(),
+  intent: z.string(),
+  subqueries: z.array(z.string()),
+  focus: z.array(z.string()).default([]),
+  constraints: PlanConstraintsSchema,
+  expiresAt: z.string(), // ISO; the run fails after this
+});
+export type PlanReviewEvent = z.infer<typeof PlanReviewEventSchema>;
+
+// Body of POST /api/research/plan; omitted fields keep the proposed plan
+export const PlanReviewDecisionSchema = z.object({
+  reviewId: z.string().min(1),
+  action: z.enum(["approve", "cancel"]).default("approve"),
+  subqueries: z.array(z.string().trim().min(1).max(300)).min(1).max(12).optional(),
+  constraints: PlanConstraintsSchema.optional(),
+});
+export type PlanReviewDecision = z.infer<typeof PlanReviewDecisionSchema>;
+
 /* ---------------------------- Verify claims resp -------------------------- */
 
 export const VerifiedClaimSchema = z.object({
@@ -142,6 +220,7 @@ export const VerifiedClaimSchema = z.object({
   supportScore: z.number().min(0).max(1),
   contradicted: z.boolean(),
   uncertaintyReason: z.string().optional(),
+  origins: z.number().int().nonnegative().optional(), // independent sources behind the evidence
   evidence: z
     .array(
       z.object({
@@ -157,11 +236,22 @@ export const VerifiedClaimSchema = z.object({
 });
 export type VerifiedClaim = z.infer<typeof VerifiedClaimSchema>;
 
+// Why a run ended without verifying; its snippets are kept for a later pass
+export const VerifySkipReasonSchema = z.enum(["budget", "rate_limit"]);
+export type VerifySkipReason = z.infer<typeof VerifySkipReasonSchema>;
+
 export const VerifyClaimsResponseSchema = z.object({
   claims: z.array(VerifiedClaimSchema),
+  skipped: VerifySkipReasonSchema.optional(),
 });
 export type VerifyClaimsResponse = z.infer<typeof VerifyClaimsResponseSchema>;
 
+// Body of POST /api/threads/:id/verify
+export const VerifyMessageRequestSchema = z.object({
+  messageId: z.string().min(1),
+});
+export type VerifyMessageRequest = z.infer<typeof VerifyMessageRequestSchema>;
+
 /* ------------------------------ NLI & trust -------------------------------- */
 
 export const NLILabelSchema = z.enum(["entail", "contradict", "neutral"]);
@@ -187,6 +277,7 @@ export const ProgressStageSchema = z.enum([
   "search",
   "read",
   "rank",
+  "gaps", // deep runs: drafting, verifying and searching follow-ups
   "answer",
   "verify",
   "done",
@@ -208,6 +299,7 @@ export type TokenEvent = z.infer<typeof TokenEventSchema>;
 
 export const DoneEventSchema = z.object({
   threadId: z.string(),
+  messageId: z.string().optional(), // assistant message the run stored
 });
 export type DoneEvent = z.infer<typeof DoneEventSchema>;
 
@@ -216,6 +308,82 @@ export const ErrorEventSchema = z.object({
 });
 export type ErrorEvent = z.infer<typeof ErrorEventSchema>;
 
+// First event of every run stream (POST /api/research, GET /api/runs/:id/events)
+export const RunStatusSchema = z.enum(["running", "done", "error", "cancelled"]);
+export type RunStatus = z.infer<typeof RunStatusSchema>;
+
+export const RunEventSchema = z.object({
+  runId: z.string(),
+  status: RunStatusSchema,
+});
+export type RunEvent = z.infer<typeof RunEventSchema>;
+
+/* ---------------------------------- Usage ---------------------------------- */
+
+// One metered (stage, provider, model) line; cost is an estimate in USD
+export const UsageLineSchema = z.object({
+  stage: z.string(),
+  provider: z.string(),
+  model: z.string().nullable(),
+  calls: z.number().int().nonnegative(),
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  costUsd: z.number().nonnegative(),
+});
+export type UsageLine = z.infer<typeof UsageLineSchema>;
+
+// SSE `usage` event, sent right before `done`
+export const UsageSummarySchema = z.object({
+  lines: z.array(UsageLineSchema),
+  total: UsageLineSchema.pick({
+    calls: true,
+    inputTokens: true,
+    outputTokens: true,
+    costUsd: true,
+  }),
+});
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
+
+export const UsageGroupBySchema = z.enum([
+  "day",
+  "visitor",
+  "depth",
+  "stage",
+  "provider",
+  "model",
+]);
+export type UsageGroupBy = z.infer<typeof UsageGroupBySchema>;
+
+// Query of GET /api/usage; dates are inclusive UTC days (YYYY-MM-DD)
+export const UsageQuerySchema = z.object({
+  groupBy: UsageGroupBySchema.default("day"),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  visitorId: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+});
+export type UsageQuery = z.infer<typeof UsageQuerySchema>;
+
+export const UsageReportRowSchema = z.object({
+  key: z.string().nullable(), // null: rows without a visitor/depth/model
+  runs: z.number().int(),
+  threads: z.number().int(),
+  calls: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  costUsd: z.number(),
+});
+export type UsageReportRow = z.infer<typeof UsageReportRowSchema>;
+
+export const UsageReportSchema = z.object({
+  groupBy: UsageGroupBySchema,
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  rows: z.array(UsageReportRowSchema),
+  total: UsageReportRowSchema.omit({ key: true }),
+});
+export type UsageReport = z.infer<typeof UsageReportSchema>;
+
 /* ------------------------------- Context pack ------------------------------ */
 
 export const SourceRefSchema = z.object({
@@ -223,7 +391,11 @@ export const SourceRefSchema = z.object({
   url: z.string().url(),
   title: z.string().nullable().optional(),
   domain: z.string().nullable().optional(),
+  publishedAt: z.string().nullable().optional(), // ISO string if known
   index: z.number().int().min(1).optional(), // optional explicit index mapping
+  trust: z.number().min(0).max(1).nullable().optional(), // see server/trust.ts
+  trustReason: z.string().nullable().optional(),
+  duplicateUrls: z.array(z.string()).optional(), // near-duplicate copies folded into this one
 });
 export type SourceRef = z.infer<typeof SourceRefSchema>;
 
@@ -238,3 +410,58 @@ export const ContextPackSchema = z.object({
   ),
 });
 export type ContextPack = z.infer<typeof ContextPackSchema>;
+
+/* --------------------------------- Threads --------------------------------- */
+
+export const ThreadSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.string(), // ISO
+  turns: z.number().int().nonnegative(), // user questions asked in the thread
+});
+export type ThreadSummary = z.infer<typeof ThreadSummarySchema>;
+
+export const ThreadListResponseSchema = z.object({
+  items: z.array(ThreadSummarySchema),
+  total: z.number().int().nonnegative(),
+  limit: z.number().int().positive(),
+  offset: z.number().int().nonnegative(),
+});
+export type ThreadListResponse = z.infer<typeof ThreadListResponseSchema>;
+
+export const AnswerVersionSchema = z.object({
+  messageId: z.string(),
+  version: z.number().int().min(1),
+  createdAt: z.string(), // ISO
+});
+export type AnswerVersion = z.infer<typeof AnswerVersionSchema>;
+
+export const ThreadTurnSchema = z.object({
+  messageId: z.string(), // assistant message id (latest version)
+  question: z.string(),
+  createdAt: z.string(), // ISO
+  versions: z.array(AnswerVersionSchema).optional(), // oldest first; set when regenerated
+});
+export type ThreadTurn = z.infer<typeof ThreadTurnSchema>;
+
+// ResearchAnswer for one turn of a thread, plus what the UI needs to restore it
+export const ThreadAnswerSchema = ResearchAnswerSchema.extend({
+  threadId: z.string(),
+  messageId: z.string().nullable(),
+  title: z.string(),
+  createdAt: z.string(), // ISO
+  sourceRefs: z.array(SourceRefSchema), // [n] mapping for the markdown
+  version: z.number().int().min(1).optional(), // of this turn's answer
+  verifySkipped: VerifySkipReasonSchema.optional(), // claims can still be verified
+  turns: z.array(ThreadTurnSchema),
+});
+export type ThreadAnswer = z.infer<typeof ThreadAnswerSchema>;
+
+// Per-thread source listing (evidence panel rehydration)
+export const ThreadSourceSchema = SourceRefSchema.extend({
+  crawledAt: z.string().nullable().optional(),
+  chunkCount: z.number().int().nonnegative(),
+  claimCount: z.number().int().nonnegative(), // distinct claims citing it
+  citationCount: z.number().int().nonnegative(), // inline citations
+});
+export type ThreadSource = z.infer<typeof ThreadSourceSchema>;
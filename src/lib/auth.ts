@@ -0,0 +1,18 @@
+import "server-only";
+import { timingSafeEqual } from "node:crypto";
+import { env } from "@/lib/env";
+
+/**
+ * Operator endpoints (job triggers, usage reports) require
+ * `Authorization: Bearer $JOBS_SECRET` when JOBS_SECRET is set; without it
+ * they are open, for local use.
+ */
+export function hasJobsSecret(req: Request): boolean {
+  const secret = env.JOBS_SECRET;
+  if (!secret) return true;
+  const header = req.headers.get("authorization") ?? "";
+  const token = header.replace(/^Bearer\s+/i, "");
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,120 @@
+export type TimeRange = { from?: string; to?: string };
+
+const DAY_MS = 86_400_000;
+// Older "publication" dates are almost always parse noise (epoch 0, 1900, ...)
+const MIN_PLAUSIBLE = Date.UTC(1990, 0, 1);
+
+const RELATIVE_UNITS: Record<string, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS,
+};
+
+/**
+ * Normalize a publication date from search results, HTML meta, JSON-LD or
+ * PDF info to an ISO string. Accepts ISO/RFC strings, YYYY/MM/DD, YYYYMMDD,
+ * PDF "D:YYYYMMDDHHmmSS", epoch seconds/ms and "3 days ago".
+ * Returns null for anything unparseable, before 1990 or in the future.
+ */
+export function normalizeDate(input: unknown, now = new Date()): string | null {
+  const ms = toEpochMs(input, now.getTime());
+  if (ms === null || !Number.isFinite(ms)) return null;
+  if (ms < MIN_PLAUSIBLE || ms > now.getTime() + DAY_MS) return null;
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Whether a publication date falls inside the range (bounds inclusive;
+ * date-only bounds cover the whole day). Unknown dates pass: there is
+ * nothing to hold against them.
+ */
+export function isWithinTimeRange(
+  publishedAt: string | null | undefined,
+  range: TimeRange | null | undefined
+): boolean {
+  if (!publishedAt || !range) return true;
+  const t = Date.parse(publishedAt);
+  if (!Number.isFinite(t)) return true;
+  const from = boundMs(range.from, "start");
+  const to = boundMs(range.to, "end");
+  if (from !== null && t < from) return false;
+  if (to !== null && t > to) return false;
+  return true;
+}
+
+/**
+ * Exponential freshness in (0, 1]: 1 for today, 0.5 after `halfLifeDays`.
+ * Null when the date is unknown.
+ */
+export function recencyScore(
+  publishedAt: string | null | undefined,
+  halfLifeDays: number,
+  now = Date.now()
+): number | null {
+  if (!publishedAt) return null;
+  const t = Date.parse(publishedAt);
+  if (!Number.isFinite(t)) return null;
+  const ageDays = Math.max(0, (now - t) / DAY_MS);
+  return Math.pow(0.5, ageDays / Math.max(1, halfLifeDays));
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+function toEpochMs(input: unknown, now: number): number | null {
+  if (input instanceof Date) return input.getTime();
+  if (typeof input === "number") {
+    // Heuristic: seconds until ~2286, ms otherwise
+    return input < 1e10 ? input * 1000 : input;
+  }
+  if (typeof input !== "string") return null;
+
+  const s = input.trim();
+  if (!s) return null;
+
+  // PDF info dates: D:YYYYMMDDHHmmSS[Z|+HH'mm']
+  const pdf = s.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/);
+  if (pdf) {
+    const [, y, mo = "01", d = "01", h = "00", mi = "00", se = "00"] = pdf;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi, +se);
+  }
+
+  // Compact YYYYMMDD
+  const compact = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return Date.UTC(+compact[1], +compact[2] - 1, +compact[3]);
+  }
+
+  // YYYY/MM/DD or YYYY.MM.DD (Date.parse treats these as local time)
+  const ymd = s.match(/^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/);
+  if (ymd) return Date.UTC(+ymd[1], +ymd[2] - 1, +ymd[3]);
+
+  if (/^\d{10,13}$/.test(s)) return toEpochMs(Number(s), now);
+
+  const rel = s
+    .toLowerCase()
+    .match(/^(\d+|an?|one)\s+(minute|hour|day|week|month|year)s?\s+ago$/);
+  if (rel) {
+    const n = /^\d+$/.test(rel[1]) ? Number(rel[1]) : 1;
+    return now - n * RELATIVE_UNITS[rel[2]];
+  }
+  if (/^yesterday$/i.test(s)) return now - DAY_MS;
+  if (/^today$/i.test(s)) return now;
+
+  const parsed = Date.parse(s);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function boundMs(v: string | undefined, edge: "start" | "end"): number | null {
+  const s = v?.trim();
+  if (!s) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) {
+    const t = Date.parse(`${s}T00:00:00.000Z`);
+    if (!Number.isFinite(t)) return null;
+    return edge === "end" ? t + DAY_MS - 1 : t;
+  }
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? t : null;
+}
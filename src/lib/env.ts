@@ -48,6 +48,17 @@ const ServerEnvSchema = z
     FIRECRAWL_COUNTRY: z.string().optional(), // e.g., 'US'
     FIRECRAWL_LANGS: z.string().optional(), // CSV, e.g., 'en,de'
 
+    // Search provider chain (see features/research/server/search)
+    SEARCH_PROVIDERS: z.string().default("tavily,firecrawl"), // CSV, in order
+    SEARCH_PROVIDER_WEIGHTS: z.string().optional(), // e.g. 'tavily:1,brave:0.8'
+    SEARCH_MODE: z.enum(["cascade", "merge"]).default("cascade"),
+    SEARXNG_URL: z.string().url().optional(), // self-hosted instance base URL
+    BRAVE_API_KEY: z.string().optional(),
+    SEARCH_HTTP_URL: z.string().url().optional(), // {query} {size} placeholders
+    SEARCH_HTTP_METHOD: z.enum(["GET", "POST"]).default("GET"),
+    SEARCH_HTTP_HEADERS: z.string().optional(), // JSON object
+    SEARCH_HTTP_RESULTS_PATH: z.string().default("results"), // dot path to array
+
     // Voyage (rerank)
     VOYAGE_API_KEY: z.string().optional(),
     VOYAGE_RERANK_MODEL: z
@@ -61,6 +72,22 @@ const ServerEnvSchema = z
       ])
       .default("rerank-2.5-lite"),
 
+    // Embeddings (hybrid retrieval); unset = voyage if keyed, else off
+    EMBEDDINGS_BACKEND: z.enum(["off", "local", "voyage"]).optional(),
+    VOYAGE_EMBED_MODEL: z.string().default("voyage-3.5-lite"),
+    LOCAL_EMBED_DIMS: z
+      .preprocess(parseNumber, z.number().int().min(32).max(4096).default(384))
+      .default(384),
+    VECTOR_SEARCH_MAX_ROWS: z
+      .preprocess(parseNumber, z.number().int().min(100).default(20_000))
+      .default(20_000), // newest vectors an unscoped search scores; older ones are skipped
+
+    // Source trust (see features/research/server/trust.ts)
+    SOURCE_TRUST_LLM: z
+      .preprocess(parseBoolean, z.boolean().default(true))
+      .default(true),
+    SOURCE_TRUST_OVERRIDES: z.string().optional(), // e.g. 'intranet.example:0.9,spam.example:0'
+
     // Turso / libSQL
     TURSO_DATABASE_URL: z
       .string()
@@ -85,6 +112,26 @@ const ServerEnvSchema = z
     MAX_SOURCES_INLINE: z
       .preprocess(parseNumber, z.number().int().min(1).max(24).default(12))
       .default(12),
+    DEEP_MAX_ROUNDS: z
+      .preprocess(parseNumber, z.number().int().min(0).max(4).default(2))
+      .default(2), // gap-filling rounds for depth "deep"; 0 = single pass
+    AGENT_MAX_STEPS: z
+      .preprocess(parseNumber, z.number().int().min(1).max(16).default(8))
+      .default(8), // model steps (tool calls + replies) per agent-mode run
+    LLM_RATE_LIMITS: z.string().optional(), // e.g. 'answer=12000/30,verify=6000/30' (tokens/requests per minute)
+    LLM_QUEUE_MAX_WAIT_MS: z
+      .preprocess(parseNumber, z.number().int().min(1000).default(90_000))
+      .default(90_000), // longest a call queues for quota before failing
+    INGEST_MAX_ATTEMPTS: z
+      .preprocess(parseNumber, z.number().int().min(1).max(20).default(5))
+      .default(5),
+    INGEST_BACKOFF_BASE_MS: z
+      .preprocess(parseNumber, z.number().int().min(1000).default(30_000))
+      .default(30_000),
+    JOBS_SECRET: z.string().optional(), // Bearer token for /api/jobs/* and /api/usage; unset = open
+    UPLOAD_MAX_BYTES: z
+      .preprocess(parseNumber, z.number().int().positive().default(20_000_000))
+      .default(20_000_000),
 
     // DB health/retry knobs
     DB_HEALTHCHECK_TIMEOUT_MS: z
@@ -137,10 +184,31 @@ const raw = {
   FIRECRAWL_COUNTRY: process.env.FIRECRAWL_COUNTRY,
   FIRECRAWL_LANGS: process.env.FIRECRAWL_LANGS,
 
+  // Search providers
+  SEARCH_PROVIDERS: process.env.SEARCH_PROVIDERS,
+  SEARCH_PROVIDER_WEIGHTS: process.env.SEARCH_PROVIDER_WEIGHTS,
+  SEARCH_MODE: process.env.SEARCH_MODE,
+  SEARXNG_URL: process.env.SEARXNG_URL,
+  BRAVE_API_KEY: process.env.BRAVE_API_KEY,
+  SEARCH_HTTP_URL: process.env.SEARCH_HTTP_URL,
+  SEARCH_HTTP_METHOD: process.env.SEARCH_HTTP_METHOD,
+  SEARCH_HTTP_HEADERS: process.env.SEARCH_HTTP_HEADERS,
+  SEARCH_HTTP_RESULTS_PATH: process.env.SEARCH_HTTP_RESULTS_PATH,
+
   // Voyage
   VOYAGE_API_KEY: process.env.VOYAGE_API_KEY,
   VOYAGE_RERANK_MODEL: process.env.VOYAGE_RERANK_MODEL,
 
+  // Embeddings
+  EMBEDDINGS_BACKEND: process.env.EMBEDDINGS_BACKEND,
+  VOYAGE_EMBED_MODEL: process.env.VOYAGE_EMBED_MODEL,
+  LOCAL_EMBED_DIMS: process.env.LOCAL_EMBED_DIMS,
+  VECTOR_SEARCH_MAX_ROWS: process.env.VECTOR_SEARCH_MAX_ROWS,
+
+  // Source trust
+  SOURCE_TRUST_LLM: process.env.SOURCE_TRUST_LLM,
+  SOURCE_TRUST_OVERRIDES: process.env.SOURCE_TRUST_OVERRIDES,
+
   // Turso / libSQL
   TURSO_DATABASE_URL: process.env.TURSO_DATABASE_URL,
   TURSO_AUTH_TOKEN: process.env.TURSO_AUTH_TOKEN,
@@ -153,6 +221,14 @@ const raw = {
   ENABLE_RERANK: process.env.ENABLE_RERANK,
   REQUEST_TIMEOUT_MS: process.env.REQUEST_TIMEOUT_MS,
   MAX_SOURCES_INLINE: process.env.MAX_SOURCES_INLINE,
+  DEEP_MAX_ROUNDS: process.env.DEEP_MAX_ROUNDS,
+  AGENT_MAX_STEPS: process.env.AGENT_MAX_STEPS,
+  LLM_RATE_LIMITS: process.env.LLM_RATE_LIMITS,
+  LLM_QUEUE_MAX_WAIT_MS: process.env.LLM_QUEUE_MAX_WAIT_MS,
+  INGEST_MAX_ATTEMPTS: process.env.INGEST_MAX_ATTEMPTS,
+  INGEST_BACKOFF_BASE_MS: process.env.INGEST_BACKOFF_BASE_MS,
+  JOBS_SECRET: process.env.JOBS_SECRET,
+  UPLOAD_MAX_BYTES: process.env.UPLOAD_MAX_BYTES,
 
   // DB health/retry knobs
   DB_HEALTHCHECK_TIMEOUT_MS: process.env.DB_HEALTHCHECK_TIMEOUT_MS,
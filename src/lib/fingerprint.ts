@@ -0,0 +1,101 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Content fingerprints for duplicate detection.
+ * - contentFingerprint: exact match after normalization (case, punctuation,
+ *   whitespace), so the same article re-served with other markup collides.
+ * - simhash: 64-bit SimHash over 3-word shingles; syndicated copies with a
+ *   different header/footer land within a few bits of each other.
+ */
+
+// Below this there are too few shingles for a stable sketch
+const MIN_SIMHASH_TOKENS = 40;
+const SHINGLE = 3;
+
+export const SIMHASH_BANDS = 8; // 8-bit bands; any distance < 8 shares one
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+export function contentFingerprint(text: string): string {
+  return createHash("sha256").update(normalizedTokens(text).join(" ")).digest("hex");
+}
+
+/** 16-char hex SimHash, or null when the text is too short to sketch. */
+export function simhash(text: string): string | null {
+  const tokens = normalizedTokens(text);
+  if (tokens.length < MIN_SIMHASH_TOKENS) return null;
+
+  const weights = new Int32Array(64);
+  for (let i = 0; i + SHINGLE <= tokens.length; i++) {
+    const shingle = tokens.slice(i, i + SHINGLE).join(" ");
+    // Two independent 32-bit hashes make up the 64 bits
+    const hi = fmix32(fnv1a(shingle, 0x811c9dc5));
+    const lo = fmix32(fnv1a(shingle, 0x050c5d1f) ^ 0x9e3779b9);
+    for (let b = 0; b < 32; b++) {
+      weights[b] += (hi >>> b) & 1 ? 1 : -1;
+      weights[32 + b] += (lo >>> b) & 1 ? 1 : -1;
+    }
+  }
+
+  let hi = 0;
+  let lo = 0;
+  for (let b = 0; b < 32; b++) {
+    if (weights[b] > 0) hi |= 1 << b;
+    if (weights[32 + b] > 0) lo |= 1 << b;
+  }
+  return toHex32(hi) + toHex32(lo);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (x) {
+      x &= x - 1;
+      d++;
+    }
+  }
+  return d;
+}
+
+/** The SimHash split into SIMHASH_BANDS byte values (candidate lookup keys). */
+export function simhashBands(hash: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < SIMHASH_BANDS; i++) {
+    out.push(parseInt(hash.slice(i * 2, i * 2 + 2), 16));
+  }
+  return out;
+}
+
+/* -------------------------------- Internals -------------------------------- */
+
+function normalizedTokens(text: string): string[] {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function fnv1a(s: string, seed: number): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// murmur3 finalizer: spreads FNV's weak low bits across the word
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function toHex32(n: number): string {
+  return (n >>> 0).toString(16).padStart(8, "0");
+}
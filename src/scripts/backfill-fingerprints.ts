@@ -0,0 +1,29 @@
+import 'dotenv/config';
+import { backfillSourceFingerprints } from '@/features/research/server/duplicates';
+import { closeDatabase } from '@/db';
+
+/**
+ * Fingerprint and cluster sources ingested before near-duplicate detection.
+ *   bun run db:fingerprints
+ * Safe to re-run: only sources without a cluster are touched.
+ */
+
+async function main() {
+  try {
+    let total = 0;
+    for (;;) {
+      const n = await backfillSourceFingerprints(200);
+      if (n === 0) break;
+      total += n;
+      console.log(`Fingerprinted ${total} sources...`);
+    }
+    console.log(`Done: ${total} sources fingerprinted ✅`);
+  } catch (err) {
+    console.error('Fingerprint backfill failed ❌\n', err);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
@@ -0,0 +1,54 @@
+import 'dotenv/config';
+import {
+  checkFtsIntegrity,
+  missingFtsObjects,
+  optimizeFts,
+  rebuildFts,
+} from '@/features/research/server/fts';
+import { closeDatabase } from '@/db';
+
+/**
+ * Full-text index maintenance (chunks_fts).
+ *   bun run db:fts              # integrity check (exit 1 on failure)
+ *   bun run db:fts --rebuild    # re-index all chunks, then check
+ *   bun run db:fts --optimize   # merge index segments
+ */
+
+const has = (name: string) => process.argv.includes(`--${name}`);
+
+async function main() {
+  try {
+    const missing = await missingFtsObjects();
+    if (missing.length > 0) {
+      console.error(`Missing FTS objects: ${missing.join(', ')}; run db:migrate first ❌`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (has('rebuild')) {
+      console.log('Rebuilding chunks_fts...');
+      const n = await rebuildFts();
+      console.log(`Re-indexed ${n} chunks`);
+    }
+
+    if (has('optimize')) {
+      console.log('Optimizing chunks_fts...');
+      await optimizeFts();
+    }
+
+    const res = await checkFtsIntegrity();
+    if (res.ok) {
+      console.log(`chunks_fts is consistent with ${res.chunks} chunks ✅`);
+    } else {
+      console.error(`chunks_fts integrity check failed ❌\n${res.error}\nRun with --rebuild to repair.`);
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error('FTS maintenance failed ❌\n', err);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
@@ -0,0 +1,82 @@
+import 'dotenv/config';
+import { runIngestWorker } from '@/features/research/server/ingest-queue';
+import { closeDatabase } from '@/db';
+
+/**
+ * Ingest queue worker.
+ *   bun run worker:ingest            # poll every 30s until stopped
+ *   bun run worker:ingest --once     # single pass (cron)
+ * Flags: --interval=<sec> --limit=<n> --concurrency=<n>
+ */
+
+function flag(name: string): string | undefined {
+  const hit = process.argv.find((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+  if (!hit) return undefined;
+  return hit.includes('=') ? hit.slice(hit.indexOf('=') + 1) : 'true';
+}
+
+function num(name: string, fallback: number): number {
+  const n = Number(flag(name));
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const once = flag('once') === 'true';
+const intervalMs = num('interval', 30) * 1000;
+const limit = num('limit', 10);
+const concurrency = num('concurrency', 4);
+
+const controller = new AbortController();
+let stopping = false;
+
+function stop(signal: string) {
+  if (stopping) return;
+  stopping = true;
+  console.log(`${signal} received, finishing current pass...`);
+  controller.abort();
+}
+process.on('SIGINT', () => stop('SIGINT'));
+process.on('SIGTERM', () => stop('SIGTERM'));
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const t = setTimeout(resolve, ms);
+    controller.signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(t);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+async function main() {
+  try {
+    do {
+      const started = Date.now();
+      try {
+        const s = await runIngestWorker({
+          limit,
+          concurrency,
+          signal: controller.signal,
+        });
+        if (s.claimed > 0 || s.revived > 0) {
+          console.log(
+            `claimed=${s.claimed} ok=${s.ok} exists=${s.exists} requeued=${s.requeued} dead=${s.dead} errors=${s.errors} remaining=${s.remaining}`
+          );
+        }
+        // A full batch means more is probably due: go again right away
+        if (!once && s.claimed >= limit) continue;
+      } catch (err) {
+        console.error('Worker pass failed ❌\n', err);
+        if (once) process.exitCode = 1;
+      }
+      if (!once) await sleep(Math.max(0, intervalMs - (Date.now() - started)));
+    } while (!once && !stopping);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main();
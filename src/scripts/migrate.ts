@@ -5,7 +5,7 @@ import { db, client } from '@/db'; // if path alias isn't set, use: ../db
 async function main() {
   try {
     console.log('Running migrations...');
-    await migrate(db, { migrationsFolder: 'db/migrations' });
+    await migrate(db, { migrationsFolder: 'src/db/migrations' });
     console.log('Migrations applied successfully ✅');
   } catch (err) {
     console.error('Migration failed ❌\n', err);
@@ -0,0 +1,7 @@
+import { migrate } from "drizzle-orm/libsql/migrator";
+import { db } from "@/db";
+
+// Bring the test database (see setup.ts) up to the current schema
+export async function migrateTestDb() {
+  await migrate(db, { migrationsFolder: "src/db/migrations" });
+}
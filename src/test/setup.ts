@@ -0,0 +1,23 @@
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Loaded before every test file (see the "test" script). Server modules
+ * validate the environment on import, so tests get dummy keys and a
+ * throwaway database of their own; never the one in .env.
+ */
+
+const dbFile = join(tmpdir(), `rift-test-${process.pid}.db`);
+
+process.env.TURSO_DATABASE_URL = `file:${dbFile}`;
+delete process.env.TURSO_AUTH_TOKEN;
+process.env.GROQ_API_KEY ??= "test";
+process.env.TAVILY_API_KEY ??= "test";
+process.env.LOG_LEVEL ??= "error";
+
+process.on("exit", () => {
+  for (const suffix of ["", "-wal", "-shm", "-journal"]) {
+    rmSync(dbFile + suffix, { force: true });
+  }
+});